@@ -7,55 +7,113 @@
  * - Running trade analysis based on user input.
  * - Performing backtesting simulations.
  * - Rendering the UI components, including the price chart, trade form, 
- *   trade analysis results, and backtest results.
+ *   trade analysis results, strategy builder, backtest results, Monte Carlo, optimiser and
+ *   portfolio backtest.
  * 
  * The main state variables track:
- * - Selected coin (`selectedCoin`)
+ * - Selected coin (`selectedCoin`) and market-data provider (`selectedProvider`)
+ * - Selected candle timeframe (`timeframe`) and date range (`dateRange`)
  * - Historical OHLC price data (`chartData`)
- * - Trade analysis results (`analysis`)
- * - Backtesting results (`backtestResult`)
+ * - Indicator studies on the chart (`studies`), saved per coin and used by the trade analysis
+ * - Chart drawings (`drawings`), saved per coin and timeframe; their horizontal levels are
+ *   offered as TP/SL in the trade form
+ * - Trade analysis results (`analysis`), the levels being planned (`tradeLevels`, shared by
+ *   the form and the chart's draggable lines) and the backtest trade picked in the table
+ *   (`focusedTrade`)
+ * - Backtest options (`backtestSettings`), the last backtest's inputs (`backtestParams`,
+ *   reused by the optimiser), results (`backtestResult`) and the chart candles it was run
+ *   from (`backtestChart`)
  * - Loading and error states for fetching data
  * 
  * Author: Dardoz
  * Date: Feb 14 2025
  */
 
-import React, { useState, useEffect } from 'react';
-import { analyzeTrade } from './services/technicalAnalysis';
-import { getCoinData } from './services/storage';
-import { runBacktest } from './services/backtesting';
-import { TradeParams, TradeAnalysis as TradeAnalysisType, BacktestResult, OHLCData } from './types'; 
+import React, { useState, useEffect, useRef } from 'react';
+import { getCoinData, getDrawings, getStudySettings, saveDrawings, saveStudySettings } from './services/storage';
+import { startBacktest, startTradeAnalysis } from './services/analysisTasks';
+import { warmUpSeconds } from './services/backtesting';
+import { MARKET_DATA_PROVIDERS, importLocalCandles } from './services/providers';
+import { lastDaysRange, lowerTimeframe } from './services/timeframes';
+import { ZERO_COST_MODEL } from './services/costs';
+import { DEFAULT_SIZING } from './services/sizing';
+import { DEFAULT_STRATEGY } from './services/strategy';
+import { DEFAULT_CHART_STUDIES } from './services/indicatorStudies';
+import { drawingLevels } from './services/drawings';
+import { TradeParams, TradeAnalysis as TradeAnalysisType, BacktestParams, BacktestResult, BacktestTrade, OHLCData, MarketDataProviderId, Timeframe, DateRange, BacktestSettings, StudySelection, ChartDrawing } from './types'; 
 import Navbar from './components/Navbar';
 import TradeSelector from './components/TradeSelector';
 import PriceChart from './components/PriceChart';
+import IndicatorPanel from './components/IndicatorPanel';
 import TradeForm from './components/TradeForm';
 import TradeAnalysisComponent from './components/TradeAnalysis'; // Renamed import to avoid conflict
 import BacktestResults from './components/BacktestResults';
+import DateRangePicker from './components/DateRangePicker';
+import BacktestSettingsPanel from './components/BacktestSettings';
+import StrategyBuilder from './components/StrategyBuilder';
+import OptimizerPanel from './components/OptimizerPanel';
+import { useWorkerTask } from './hooks/useWorkerTask';
+import MonteCarloPanel from './components/MonteCarloPanel';
+import PortfolioPanel from './components/PortfolioPanel';
+
+// Coins offered in the selector
+const AVAILABLE_COINS = [
+  { id: 'bitcoin', name: 'Bitcoin' },
+  { id: 'ethereum', name: 'Ethereum' },
+  { id: 'solana', name: 'Solana' },
+  { id: 'dogecoin', name: 'Dogecoin' }
+];
+
+// Pause after the last drag of a level line before the trade is re-analysed
+const DRAG_ANALYSIS_DELAY_MS = 400;
 
 const App: React.FC = () => {
   console.log("App is rendering");
 
   // State variables to manage selected coin and data
   const [selectedCoin, setSelectedCoin] = useState('bitcoin');
+  const [selectedProvider, setSelectedProvider] = useState<MarketDataProviderId>('coingecko');
+  const [timeframe, setTimeframe] = useState<Timeframe>('1d');
+  const [dateRange, setDateRange] = useState<DateRange>(() => lastDaysRange(90));
   const [chartData, setChartData] = useState<OHLCData[]>([]);
+  const [studies, setStudies] = useState<StudySelection[]>(() => getStudySettings(selectedCoin) ?? DEFAULT_CHART_STUDIES);
+  const [drawings, setDrawings] = useState<ChartDrawing[]>(() => getDrawings(selectedCoin, timeframe));
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [analysis, setAnalysis] = useState<TradeAnalysisType | null>(null);
   const [backtestResult, setBacktestResult] = useState<BacktestResult | null>(null);
+  const [backtestParams, setBacktestParams] = useState<BacktestParams | null>(null);
+  const [backtestChart, setBacktestChart] = useState<OHLCData[] | null>(null);
+  const [tradeLevels, setTradeLevels] = useState<TradeParams | null>(null);
+  const [focusedTrade, setFocusedTrade] = useState<BacktestTrade | null>(null);
+  const [importedCount, setImportedCount] = useState<number | null>(null);
+  const analysisTimerRef = useRef<number>();
+  const [backtestSettings, setBacktestSettings] = useState<BacktestSettings>({
+    levelMode: 'percent',
+    atrPeriod: 14,
+    fillPolicy: 'pessimistic',
+    costModel: ZERO_COST_MODEL,
+    sizing: DEFAULT_SIZING,
+    strategy: DEFAULT_STRATEGY
+  });
   const [currentPrice, setCurrentPrice] = useState<number>(0);
 
+  // Analysis and backtests run in a Web Worker, a new run cancels the previous one
+  const analysisTask = useWorkerTask(startTradeAnalysis);
+  const backtestTask = useWorkerTask(startBacktest);
+
   /**
    * Fetch historical OHLC data for the selected coin.
    * Updates the `chartData` state and sets the `currentPrice` to the most recent close price.
    * Handles loading and error states.
    */
-  const loadCoinData = async (coinId: string) => {
+  const loadCoinData = async (coinId: string, providerId: MarketDataProviderId, tf: Timeframe, range: DateRange) => {
     try {
       setLoading(true);
       setError(null);
-      console.log(`Fetching data for ${coinId}...`);
+      console.log(`Fetching ${tf} data for ${coinId} from ${providerId}...`);
       
-      const data = await getCoinData(coinId);
+      const data = await getCoinData(coinId, providerId, tf, range);
       console.log("Fetched coin data:", data);
 
       if (!data || data.length === 0) {
@@ -72,47 +130,130 @@ const App: React.FC = () => {
     }
   };
 
-  // Fetch coin data when the selected coin changes
+  // Fetch coin data when the selected coin, provider, timeframe or date range changes
   useEffect(() => {
-    loadCoinData(selectedCoin);
+    loadCoinData(selectedCoin, selectedProvider, timeframe, dateRange);
+  }, [selectedCoin, selectedProvider, timeframe, dateRange]);
+
+  // Each coin keeps its own indicator studies and imported file
+  useEffect(() => {
+    setStudies(getStudySettings(selectedCoin) ?? DEFAULT_CHART_STUDIES);
+    setImportedCount(null);
   }, [selectedCoin]);
 
+  const handleStudiesChange = (next: StudySelection[]) => {
+    setStudies(next);
+    saveStudySettings(selectedCoin, next);
+  };
+
+  // Drawings belong to a coin and timeframe
+  useEffect(() => {
+    setDrawings(getDrawings(selectedCoin, timeframe));
+  }, [selectedCoin, timeframe]);
+
+  const handleDrawingsChange = (next: ChartDrawing[]) => {
+    setDrawings(next);
+    saveDrawings(selectedCoin, timeframe, next);
+  };
+
   /**
-   * Handles trade analysis and backtesting when the user submits a trade.
-   * - Extracts price data from `chartData`
-   * - Runs `analyzeTrade()` to get trend, momentum, and volatility scores
-   * - Runs `runBacktest()` to simulate historical trades
-   * - Updates the `analysis` and `backtestResult` state variables
+   * Imports a JSON file of candles for the selected coin and reloads the chart from it.
    */
-  const handleTradeAnalysis = (params: TradeParams) => {
-    if (chartData.length === 0) return;
-
-    const prices = chartData.map(d => d.close);
-    console.log("Running trade analysis with prices:", prices);
+  const handleImportFile = async (file: File) => {
+    try {
+      setImportedCount(await importLocalCandles(selectedCoin, file));
+      await loadCoinData(selectedCoin, 'local', timeframe, dateRange);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import file');
+      console.error('Error importing file:', err);
+    }
+  };
 
-    const result = analyzeTrade({
-      prices,
+  /**
+   * Runs `analyzeTrade()` in the analysis worker for the given levels and updates `analysis`.
+   */
+  const runTradeAnalysis = async (params: TradeParams) => {
+    const result = await analysisTask.run({
+      prices: chartData.map(d => d.close),
       currentPrice: params.entryPrice,
       takeProfit: params.takeProfit,
       stopLoss: params.stopLoss,
-      direction: params.direction
+      direction: params.direction,
+      timeframe,
+      candles: chartData,
+      studies
     });
 
     console.log("Trade analysis result:", result);
-    setAnalysis(result);
+    if (result) setAnalysis(result);
+  };
+
+  /**
+   * Moves the levels dragged on the chart and re-analyses the trade once dragging pauses.
+   */
+  const handleLevelsDrag = (params: TradeParams) => {
+    setTradeLevels(params);
+    if (chartData.length === 0) return;
+
+    window.clearTimeout(analysisTimerRef.current);
+    analysisTimerRef.current = window.setTimeout(() => runTradeAnalysis(params), DRAG_ANALYSIS_DELAY_MS);
+  };
+
+  /**
+   * Handles trade analysis and backtesting when the user submits a trade.
+   * - Runs `analyzeTrade()` in the analysis worker to get trend, momentum, and volatility scores
+   * - Fetches the candles before the date range that warm up the backtest's indicators
+   * - Fetches lower-timeframe candles when the fill policy replays ambiguous bars
+   * - Runs `runBacktest()` in the analysis worker to simulate historical trades
+   * - Updates the `analysis` and `backtestResult` state variables, unless a run was cancelled
+   */
+  const handleTradeAnalysis = async (params: TradeParams) => {
+    if (chartData.length === 0) return;
+
+    window.clearTimeout(analysisTimerRef.current);
+    await runTradeAnalysis(params);
+
+    // Indicators need candles before the range to be warmed up at its start
+    const history = { start: dateRange.start - warmUpSeconds(backtestSettings, timeframe), end: dateRange.end };
+    const prices = await getCoinData(selectedCoin, selectedProvider, timeframe, history).catch(err => {
+      console.error('Error loading warm-up candles:', err);
+      return chartData;
+    });
 
-    const backtestResults = runBacktest({
-      prices: chartData,
+    // Only fetch the finer candles when they will actually be used; without them
+    // ambiguous bars are resolved pessimistically
+    const intrabarTimeframe = lowerTimeframe(timeframe);
+    const intrabarPrices = backtestSettings.fillPolicy === 'lower_timeframe' && intrabarTimeframe
+      ? await getCoinData(selectedCoin, selectedProvider, intrabarTimeframe, dateRange).catch(err => {
+          console.error('Error loading lower-timeframe candles:', err);
+          return undefined;
+        })
+      : undefined;
+
+    const runParams: BacktestParams = {
+      prices,
       entryPrice: params.entryPrice,
       takeProfit: params.takeProfit,
       stopLoss: params.stopLoss,
-      direction: params.direction || 'long'
-    });
+      direction: params.direction || 'long',
+      timeframe,
+      range: dateRange,
+      intrabarPrices,
+      ...backtestSettings
+    };
+    const backtestResults = await backtestTask.run(runParams);
+    if (!backtestResults) return;
 
     console.log("Backtest results:", backtestResults);
     setBacktestResult(backtestResults);
+    setBacktestParams(runParams);
+    setBacktestChart(chartData);
+    setFocusedTrade(null);
   };
 
+  // Trades are only drawn on the candles the backtest ran on
+  const chartTrades = backtestChart === chartData ? backtestResult?.trades : undefined;
+
   return (
     <div className="min-h-screen bg-gray-50">
       {/* Navigation Bar */}
@@ -125,8 +266,23 @@ const App: React.FC = () => {
           <div className="grid grid-cols-1 gap-8 lg:grid-cols-3">
             {/* Left: Coin Selection & Price Chart */}
             <div className="bg-white rounded-lg shadow lg:col-span-2">
-              <TradeSelector selectedCoin={selectedCoin} setSelectedCoin={setSelectedCoin} />
-              <div className="p-4" style={{ height: '600px' }}>
+              <div className="p-4 space-y-3 border-b border-gray-200">
+                <TradeSelector
+                  selectedCoin={selectedCoin}
+                  onCoinChange={setSelectedCoin}
+                  availableCoins={AVAILABLE_COINS}
+                  selectedProvider={selectedProvider}
+                  onProviderChange={setSelectedProvider}
+                  availableProviders={MARKET_DATA_PROVIDERS}
+                  onImportFile={handleImportFile}
+                  importedCount={importedCount}
+                  selectedTimeframe={timeframe}
+                  onTimeframeChange={setTimeframe}
+                />
+                <DateRangePicker range={dateRange} onChange={setDateRange} />
+                <IndicatorPanel studies={studies} onChange={handleStudiesChange} />
+              </div>
+              <div className="p-4" style={{ minHeight: '600px' }}>
                 {loading ? (
                   <div className="flex items-center justify-center h-full">
                     <div className="w-8 h-8 border-b-2 border-blue-600 rounded-full animate-spin"></div>
@@ -136,7 +292,18 @@ const App: React.FC = () => {
                     {error}
                   </div>
                 ) : (
-                  <PriceChart data={chartData} />
+                  <PriceChart
+                    data={chartData}
+                    timeframe={timeframe}
+                    studies={studies}
+                    trades={chartTrades}
+                    tradeDirection={backtestParams?.direction}
+                    levels={tradeLevels}
+                    onLevelsChange={handleLevelsDrag}
+                    focusedTrade={chartTrades ? focusedTrade : null}
+                    drawings={drawings}
+                    onDrawingsChange={handleDrawingsChange}
+                  />
                 )}
               </div>
             </div>
@@ -145,15 +312,52 @@ const App: React.FC = () => {
             <div className="space-y-6 lg:col-span-1">
               <div className="p-6 bg-white rounded-lg shadow">
                 <h2 className="mb-6 text-lg font-semibold text-gray-900">Trade Analysis</h2>
-                <TradeForm onSubmit={handleTradeAnalysis} currentPrice={currentPrice} />
+                <TradeForm
+                  onSubmit={handleTradeAnalysis}
+                  onChange={setTradeLevels}
+                  levels={tradeLevels}
+                  candidateLevels={drawingLevels(drawings)}
+                  currentPrice={currentPrice}
+                />
+              </div>
+
+              <div className="p-6 bg-white rounded-lg shadow">
+                <BacktestSettingsPanel
+                  settings={backtestSettings}
+                  onChange={setBacktestSettings}
+                  intrabarTimeframe={lowerTimeframe(timeframe)}
+                />
               </div>
 
               <TradeAnalysisComponent analysis={analysis} />
             </div>
           </div>
 
+          {/* Strategy rules used by the backtest */}
+          <StrategyBuilder
+            strategy={backtestSettings.strategy}
+            onChange={(strategy) => setBacktestSettings({ ...backtestSettings, strategy })}
+          />
+
           {/* Bottom: Backtest Results */}
-          <BacktestResults backtestResult={backtestResult} />
+          <BacktestResults
+            backtestResult={backtestResult}
+            running={backtestTask.loading}
+            progress={backtestTask.progress}
+            error={backtestTask.error}
+            onCancel={backtestTask.cancel}
+            selectedTrade={focusedTrade}
+            onSelectTrade={setFocusedTrade}
+          />
+
+          {/* Outcome range of the backtest's trades in other orders */}
+          <MonteCarloPanel backtestResult={backtestResult} />
+
+          {/* TP/SL and period sweeps over the last backtest */}
+          <OptimizerPanel params={backtestParams} />
+
+          {/* The same strategy across several coins on one account */}
+          <PortfolioPanel params={backtestParams} availableCoins={AVAILABLE_COINS} providerId={selectedProvider} />
         </div>
       </main>
     </div>
@@ -3,7 +3,7 @@ import { LineChart, Coins } from 'lucide-react';
 import { analyzeTrade } from './services/technicalAnalysis';
 import { getCoinData } from './services/storage';
 import { runBacktest } from './services/backtesting';
-import { calculateEMA, calculateRSI, calculateBollingerBands } from './services/technicalAnalysis';
+import { calculateEMA, calculateRSI, calculateBollingerBands } from './services/indicators';
 import PriceChart from './components/PriceChart';
 import TradeForm from './components/TradeForm';
 import { TradeParams, TradeAnalysis, BacktestResult, OHLCData } from './types';
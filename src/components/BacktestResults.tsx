@@ -8,40 +8,140 @@
  * The table includes:
  * - Entry and Exit Time: When the trade started and ended.
  * - Open, High, Low, and Close Prices for each trade.
- * - Profit/Loss Percentage and Absolute Dollar Value.
- * - Cumulative Profit/Loss to track overall performance.
+ * - Gross (before costs) and Net (after fees, spread, slippage and funding) Profit/Loss
+ *   Percentage.
+ * - Position size, the net Profit/Loss in dollars for that size, and the account
+ *   equity and compounded return after each trade.
+ * - The take-profit and stop-loss levels applied to each trade.
+ * - Exit result (TP, SL, trailing or break-even stop, partial take-profits, exit rule,
+ *   holding period, or still open at the end of the data), max favorable/adverse
+ *   excursion and bars to exit for each trade. Partial fills are listed under the result,
+ *   and when the exit bar reached both TP and SL, the fill policy that resolved it is shown.
+ * - Close Price is the average fill across partial and final exits.
  * 
- * If no backtest data is available, the component prompts the user to run an analysis.
+ * Clicking a row selects that trade, e.g. to scroll the price chart to it.
+ * 
+ * The header shows the period and timeframe the backtest actually covered, and a
+ * summary panel with the account result and backtest statistics sits above the table.
+ * 
+ * While a backtest runs in its worker, a progress bar with a cancel button is shown above
+ * the previous result. If no backtest data is available, the component prompts the user
+ * to run an analysis.
  * 
  * Author: Dardoz
  * Date: Feb 14 2025
  */
 
 import React from 'react';
-import { BacktestResult } from '../types';
+import { BacktestResult, BacktestTrade, FillResolution, TradeExitReason } from '../types';
+import { TaskProgress } from '../hooks/useWorkerTask';
+import BacktestSummary from './BacktestSummary';
+import ProgressBar from './ProgressBar';
+
+// Label and badge colours for each exit reason
+const RESULT_BADGES: Record<TradeExitReason, { label: string; className: string }> = {
+  take_profit: { label: 'Take Profit', className: 'bg-green-100 text-green-800' },
+  stop_loss: { label: 'Stop Loss', className: 'bg-red-100 text-red-800' },
+  trailing_stop: { label: 'Trailing Stop', className: 'bg-amber-100 text-amber-800' },
+  break_even: { label: 'Break-even', className: 'bg-gray-100 text-gray-800' },
+  partial_take_profit: { label: 'Partial TPs', className: 'bg-green-100 text-green-800' },
+  exit_signal: { label: 'Exit Signal', className: 'bg-blue-100 text-blue-800' },
+  time_exit: { label: 'Time Exit', className: 'bg-gray-100 text-gray-800' },
+  end_of_data: { label: 'Still Open', className: 'bg-gray-100 text-gray-800' }
+};
+
+// Labels for exits that needed a fill policy to resolve
+const FILL_RESOLUTION_LABELS: Record<Exclude<FillResolution, 'unambiguous'>, string> = {
+  pessimistic: 'ambiguous bar · pessimistic',
+  optimistic: 'ambiguous bar · optimistic',
+  open_proximity: 'ambiguous bar · nearest to open',
+  lower_timeframe: 'ambiguous bar · lower timeframe'
+};
 
 interface BacktestResultProps {
   backtestResult: BacktestResult | null;
+  running?: boolean;              // A backtest is running in the worker
+  progress?: TaskProgress | null; // Bars simulated so far
+  error?: string | null;          // Why the last run failed
+  onCancel?: () => void;
+  selectedTrade?: BacktestTrade | null;          // Trade highlighted in the table
+  onSelectTrade?: (trade: BacktestTrade) => void; // Called when a row is clicked
 }
 
-const BacktestResults: React.FC<BacktestResultProps> = ({ backtestResult }) => {
+const BacktestResults: React.FC<BacktestResultProps> = ({
+  backtestResult,
+  running,
+  progress = null,
+  error,
+  onCancel,
+  selectedTrade,
+  onSelectTrade
+}) => {
+  // Progress of a running backtest, or why the last one failed
+  const status = running ? (
+    <div className="mb-4">
+      <ProgressBar progress={progress} unit="bars" onCancel={() => onCancel?.()} />
+    </div>
+  ) : error ? (
+    <div className="p-3 mb-4 text-sm text-red-700 rounded-md bg-red-50">{error}</div>
+  ) : null;
+
   // If no backtest result exists, display a message to prompt user action.
   if (!backtestResult) {
     return (
       <div className="p-6 bg-white rounded-lg shadow">
-        <div className="text-center text-gray-500">
-          Click the Analyse button above to see backtest results
-        </div>
+        {status}
+        {!running && (
+          <div className="text-center text-gray-500">
+            Click the Analyse button above to see backtest results
+          </div>
+        )}
       </div>
     );
   }
 
-  let cumulativeProfitLoss = 0; // Tracks cumulative profit/loss over trades.
+  const startingBalance = backtestResult.startingBalance ?? 0;
+  const finalEquity = backtestResult.finalEquity ?? startingBalance;
+  const totalReturn = startingBalance > 0 ? (finalEquity / startingBalance - 1) * 100 : 0;
 
   return (
     <div className="p-6 bg-white rounded-lg shadow">
-      {/* Section Title */}
-      <h2 className="mb-6 text-lg font-semibold text-gray-900">Backtest Results</h2>
+      {/* Section Title and covered period */}
+      <div className="flex flex-wrap items-baseline justify-between gap-2 mb-6">
+        <h2 className="text-lg font-semibold text-gray-900">Backtest Results</h2>
+        {backtestResult.period && (
+          <span className="text-sm text-gray-500">
+            {new Date(backtestResult.period.start * 1000).toLocaleDateString()}
+            {' – '}
+            {new Date(backtestResult.period.end * 1000).toLocaleDateString()}
+            {backtestResult.timeframe && ` · ${backtestResult.timeframe} candles`}
+          </span>
+        )}
+      </div>
+
+      {status}
+
+      {/* Reason the backtest could not run */}
+      {!backtestResult.success && backtestResult.message && (
+        <div className="p-3 mb-4 text-sm text-red-700 rounded-md bg-red-50">{backtestResult.message}</div>
+      )}
+
+      {/* Account result */}
+      {backtestResult.startingBalance !== undefined && (
+        <div className="flex flex-wrap items-baseline gap-x-6 gap-y-1 mb-4 text-sm text-gray-600">
+          <span>Starting balance <b className="text-gray-900">${startingBalance.toLocaleString(undefined, { minimumFractionDigits: 2 })}</b></span>
+          <span>Final equity <b className="text-gray-900">${finalEquity.toLocaleString(undefined, { minimumFractionDigits: 2 })}</b></span>
+          <span>
+            Total return{' '}
+            <b className={totalReturn > 0 ? 'text-green-600' : 'text-red-600'}>
+              {totalReturn > 0 ? '+' : ''}{totalReturn.toFixed(2)}%
+            </b>
+          </span>
+        </div>
+      )}
+
+      {/* Summary Statistics */}
+      {backtestResult.statistics && <BacktestSummary statistics={backtestResult.statistics} />}
 
       {/* Backtest Trades Table */}
       <div className="overflow-x-auto">
@@ -49,8 +149,8 @@ const BacktestResults: React.FC<BacktestResultProps> = ({ backtestResult }) => {
           <thead className="bg-gray-50">
             <tr>
               {[
-                'Entry Time', 'Exit Time', 'Open Price', 'High Price', 'Low Price', 'Close Price',
-                'Profit/Loss %', 'Profit/Loss $', 'Cumulative P/L $'
+                'Entry Time', 'Exit Time', 'Open Price', 'High Price', 'Low Price', 'Close Price', 'Take Profit', 'Stop Loss',
+                'Result', 'Gross P/L %', 'Net P/L %', 'Size', 'Profit/Loss $', 'Equity $', 'Return %', 'MFE %', 'MAE %', 'Bars'
               ].map((header, index) => (
                 <th key={index} className="px-6 py-3 text-xs font-medium tracking-wider text-left text-gray-500 uppercase">
                   {header}
@@ -62,11 +162,18 @@ const BacktestResults: React.FC<BacktestResultProps> = ({ backtestResult }) => {
             {[...backtestResult.trades]
               .sort((a, b) => b.entry_time - a.entry_time) // Sort trades by most recent first.
               .map((trade, index) => {
-                const profitLossDollar = ((trade.entry_price ?? 0) * (trade.profit_loss ?? 0)) / 100;
-                cumulativeProfitLoss += profitLossDollar; // Accumulate profit/loss.
+                const grossProfitLoss = trade.gross_profit_loss ?? trade.profit_loss ?? 0;
+                const profitLossDollar = trade.pnl ?? 0;
+                const equityAfter = trade.equity_after ?? startingBalance;
+                // Compounded return of the account once this trade closed
+                const compoundedReturn = startingBalance > 0 ? (equityAfter / startingBalance - 1) * 100 : 0;
 
                 return (
-                  <tr key={index} className="hover:bg-gray-50">
+                  <tr
+                    key={index}
+                    onClick={() => onSelectTrade?.(trade)}
+                    className={`${trade === selectedTrade ? 'bg-blue-50' : 'hover:bg-gray-50'} ${onSelectTrade ? 'cursor-pointer' : ''}`}
+                  >
                     {/* Entry Time (Trade start date) */}
                     <td className="px-6 py-4 text-sm text-gray-900 whitespace-nowrap">
                       {new Date((trade.entry_time ?? 0) * 1000).toLocaleDateString()}
@@ -97,25 +204,92 @@ const BacktestResults: React.FC<BacktestResultProps> = ({ backtestResult }) => {
                       ${trade.exit_price?.toLocaleString(undefined, { minimumFractionDigits: 2 }) ?? "N/A"}
                     </td>
 
-                    {/* Profit/Loss Percentage for the trade */}
-                    <td className={`px-6 py-4 whitespace-nowrap text-sm font-medium ${
-                      (trade.profit_loss ?? 0) > 0 ? 'text-green-600' : 'text-red-600'
+                    {/* Take-profit level applied to this entry */}
+                    <td className="px-6 py-4 text-sm text-gray-900 whitespace-nowrap">
+                      ${trade.takeProfit?.toLocaleString(undefined, { minimumFractionDigits: 2 }) ?? "N/A"}
+                    </td>
+
+                    {/* Stop-loss level applied to this entry */}
+                    <td className="px-6 py-4 text-sm text-gray-900 whitespace-nowrap">
+                      ${trade.stopLoss?.toLocaleString(undefined, { minimumFractionDigits: 2 }) ?? "N/A"}
+                    </td>
+
+                    {/* Exit result */}
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${RESULT_BADGES[trade.result].className}`}>
+                        {RESULT_BADGES[trade.result].label}
+                      </span>
+                      {trade.partial_exits && (
+                        <div className="mt-1 text-xs text-green-700">
+                          {trade.partial_exits.map(partial => `${partial.fraction}% @ $${partial.price.toFixed(2)}`).join(' · ')}
+                        </div>
+                      )}
+                      {trade.fill_resolution && trade.fill_resolution !== 'unambiguous' && (
+                        <div className="mt-1 text-xs text-amber-600">
+                          {FILL_RESOLUTION_LABELS[trade.fill_resolution]}
+                        </div>
+                      )}
+                    </td>
+
+                    {/* Gross Profit/Loss Percentage, before costs */}
+                    <td className={`px-6 py-4 whitespace-nowrap text-sm ${
+                      grossProfitLoss > 0 ? 'text-green-600' : 'text-red-600'
                     }`}>
+                      {grossProfitLoss > 0 ? '+' : ''}{grossProfitLoss.toFixed(2)}%
+                    </td>
+
+                    {/* Net Profit/Loss Percentage, after costs */}
+                    <td
+                      className={`px-6 py-4 whitespace-nowrap text-sm font-medium ${
+                        (trade.profit_loss ?? 0) > 0 ? 'text-green-600' : 'text-red-600'
+                      }`}
+                      title={trade.costs
+                        ? `Fees ${trade.costs.fees.toFixed(3)}% · Spread ${trade.costs.spread.toFixed(3)}% · Slippage ${trade.costs.slippage.toFixed(3)}% · Funding ${trade.costs.funding.toFixed(3)}%`
+                        : undefined}
+                    >
                       {(trade.profit_loss ?? 0) > 0 ? '+' : ''}{(trade.profit_loss ?? 0).toFixed(2)}%
                     </td>
 
-                    {/* Profit/Loss in dollar value */}
+                    {/* Position size in coins and dollars */}
+                    <td className="px-6 py-4 text-sm text-gray-900 whitespace-nowrap">
+                      {(trade.position_size ?? 0).toLocaleString(undefined, { maximumFractionDigits: 6 })}
+                      <div className="text-xs text-gray-500">
+                        ${(trade.notional ?? 0).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                      </div>
+                    </td>
+
+                    {/* Profit/Loss in dollar value for the position size */}
                     <td className={`px-6 py-4 whitespace-nowrap text-sm font-medium ${
                       profitLossDollar > 0 ? 'text-green-600' : 'text-red-600'
                     }`}>
                       {profitLossDollar > 0 ? '+' : ''}${profitLossDollar.toLocaleString(undefined, { minimumFractionDigits: 2 })}
                     </td>
 
-                    {/* Cumulative Profit/Loss in dollar value */}
+                    {/* Account equity after the trade closed */}
+                    <td className="px-6 py-4 text-sm font-medium text-gray-900 whitespace-nowrap">
+                      ${equityAfter.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                    </td>
+
+                    {/* Compounded return of the account */}
                     <td className={`px-6 py-4 whitespace-nowrap text-sm font-medium ${
-                      cumulativeProfitLoss > 0 ? 'text-green-600' : 'text-red-600'
+                      compoundedReturn > 0 ? 'text-green-600' : 'text-red-600'
                     }`}>
-                      {cumulativeProfitLoss > 0 ? '+' : ''}${cumulativeProfitLoss.toLocaleString(undefined, { minimumFractionDigits: 2 })}
+                      {compoundedReturn > 0 ? '+' : ''}{compoundedReturn.toFixed(2)}%
+                    </td>
+
+                    {/* Max favorable excursion while the trade was open */}
+                    <td className="px-6 py-4 text-sm text-green-600 whitespace-nowrap">
+                      +{(trade.metrics?.maxFavorableExcursion ?? 0).toFixed(2)}%
+                    </td>
+
+                    {/* Max adverse excursion while the trade was open */}
+                    <td className="px-6 py-4 text-sm text-red-600 whitespace-nowrap">
+                      {(trade.metrics?.maxAdverseExcursion ?? 0).toFixed(2)}%
+                    </td>
+
+                    {/* Bars from entry to exit */}
+                    <td className="px-6 py-4 text-sm text-gray-900 whitespace-nowrap">
+                      {trade.metrics?.timeToExit ?? '-'}
                     </td>
                   </tr>
                 );
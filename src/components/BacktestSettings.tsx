@@ -0,0 +1,290 @@
+/**
+ * BacktestSettings.tsx
+ *
+ * This component lets users choose how the backtest simulates trades.
+ *
+ * Features:
+ * - Strategy: a preset of entry/exit rules, and whether positions may pyramid.
+ *   Custom rules are edited in the strategy builder.
+ * - TP/SL level mode: percentage or ATR distance from each historical entry,
+ *   or the form's absolute prices.
+ * - ATR period for the ATR level mode.
+ * - Fill policy for bars that reach both TP and SL.
+ * - Trading costs: per-side fees, spread, fixed or volatility-scaled slippage
+ *   and perpetual funding.
+ * - Account: starting balance, position sizing mode and max leverage.
+ */
+
+import React from 'react';
+import { SlidersHorizontal } from 'lucide-react';
+import { BacktestSettings, CostModel, FillPolicy, LevelMode, PositionSizing, SizingMode, Strategy, Timeframe } from '../types';
+import { describeRule, STRATEGY_PRESETS } from '../services/strategy';
+
+interface BacktestSettingsProps {
+  settings: BacktestSettings; // Current settings
+  onChange: (settings: BacktestSettings) => void; // Function to handle settings changes
+  intrabarTimeframe?: Timeframe | null; // Timeframe ambiguous bars are replayed on, if any
+}
+
+// Level modes with a short explanation shown under the selector
+const LEVEL_MODES: { id: LevelMode; label: string; description: string }[] = [
+  { id: 'percent', label: 'Percent', description: 'TP/SL keep the same % distance from every historical entry.' },
+  { id: 'atr', label: 'ATR', description: 'TP/SL keep the same distance in ATR multiples, using the ATR at each entry.' },
+  { id: 'absolute', label: 'Absolute', description: 'TP/SL are the exact prices entered in the form.' }
+];
+
+// Fill policies for bars that reach both TP and SL
+const FILL_POLICIES: { id: FillPolicy; label: string; description: string }[] = [
+  { id: 'pessimistic', label: 'Pessimistic', description: 'Assume the stop loss was hit first.' },
+  { id: 'optimistic', label: 'Optimistic', description: 'Assume the take profit was hit first.' },
+  { id: 'open_proximity', label: 'Nearest to open', description: 'Assume the level closer to the bar\'s open was hit first.' },
+  { id: 'lower_timeframe', label: 'Lower timeframe', description: 'Replay the bar on finer candles, pessimistic if still unclear.' }
+];
+
+// Position sizing modes
+const SIZING_MODES: { id: SizingMode; label: string; description: string }[] = [
+  { id: 'fixed_notional', label: 'Fixed $', description: 'Every trade buys the same $ amount, capped at the equity.' },
+  { id: 'fixed_fractional', label: 'Risk %', description: 'Size each trade so that its stop loses the given % of equity.' },
+  { id: 'kelly', label: 'Kelly', description: 'Bet a fraction of Kelly, estimated from trades closed so far. Uses Risk % until 10 trades have closed.' }
+];
+
+/**
+ * Compact labelled number input used by the cost fields.
+ */
+const NumberField: React.FC<{
+  label: string;
+  value: number;
+  step: string;
+  onChange: (value: number) => void;
+  min?: string;
+}> = ({ label, value, step, onChange, min = '0' }) => (
+  <div>
+    <label className="block text-xs font-medium text-gray-500">{label}</label>
+    <input
+      type="number"
+      value={value}
+      onChange={(e) => {
+        const parsed = parseFloat(e.target.value);
+        if (!isNaN(parsed)) onChange(parsed);
+      }}
+      className="block w-full mt-1 text-sm border-gray-300 rounded-md shadow-sm focus:border-blue-500 focus:ring-blue-500"
+      step={step}
+      min={min}
+    />
+  </div>
+);
+
+/**
+ * BacktestSettingsPanel Component
+ *
+ * - Calls `onChange` with the full updated settings object.
+ */
+const BacktestSettingsPanel: React.FC<BacktestSettingsProps> = ({ settings, onChange, intrabarTimeframe }) => {
+  const activeMode = LEVEL_MODES.find(mode => mode.id === settings.levelMode);
+  const activePolicy = FILL_POLICIES.find(policy => policy.id === settings.fillPolicy);
+  const costs = settings.costModel;
+
+  const sizing = settings.sizing;
+  const activeSizing = SIZING_MODES.find(mode => mode.id === sizing.mode);
+
+  const strategy = settings.strategy;
+  // Edits in the strategy builder turn a preset into a custom strategy
+  const presetIndex = STRATEGY_PRESETS.findIndex(preset => JSON.stringify(preset) === JSON.stringify(strategy));
+
+  // Updates one or more strategy fields
+  const setStrategy = (changes: Partial<Strategy>) =>
+    onChange({ ...settings, strategy: { ...strategy, ...changes } });
+
+  // Updates one or more cost fields
+  const setCosts = (changes: Partial<CostModel>) =>
+    onChange({ ...settings, costModel: { ...costs, ...changes } });
+
+  // Updates one or more account fields
+  const setSizing = (changes: Partial<PositionSizing>) =>
+    onChange({ ...settings, sizing: { ...sizing, ...changes } });
+
+  return (
+    <div className="space-y-4">
+      <h2 className="flex items-center text-lg font-semibold text-gray-900">
+        <SlidersHorizontal className="w-5 h-5 mr-2 text-blue-600" />
+        Backtest Settings
+      </h2>
+
+      {/* Strategy rules */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700">Strategy</label>
+        <select
+          value={presetIndex}
+          onChange={(e) => onChange({ ...settings, strategy: STRATEGY_PRESETS[Number(e.target.value)] })}
+          className="block w-full mt-1 text-sm border-gray-300 rounded-md shadow-sm focus:border-blue-500 focus:ring-blue-500"
+        >
+          {presetIndex === -1 && <option value={-1}>Custom: {strategy.name}</option>}
+          {STRATEGY_PRESETS.map((preset, index) => (
+            <option key={preset.name} value={index}>{preset.name}</option>
+          ))}
+        </select>
+        <p className="mt-1 text-xs text-gray-500">
+          Enter when {strategy.entryRules.map(describeRule).join(' and ') || 'never'}.
+          {strategy.exitRules.length > 0 && ` Exit early when ${strategy.exitRules.map(describeRule).join(' or ')}.`}
+        </p>
+        <div className="flex items-center gap-3 mt-2">
+          <label className="inline-flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={strategy.pyramiding}
+              onChange={(e) => setStrategy({ pyramiding: e.target.checked })}
+              className="mr-2 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+            />
+            Pyramiding
+          </label>
+          {strategy.pyramiding && (
+            <div className="w-32">
+              <NumberField
+                label="Max positions"
+                value={strategy.maxOpenPositions}
+                step="1"
+                min="1"
+                onChange={(v) => setStrategy({ maxOpenPositions: Math.max(1, Math.round(v)) })}
+              />
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* TP/SL level mode */}
+      <div>
+        <label className="block mb-1 text-sm font-medium text-gray-700">TP/SL Levels</label>
+        <div className="inline-flex overflow-hidden border border-gray-300 rounded-md">
+          {LEVEL_MODES.map(mode => (
+            <button
+              key={mode.id}
+              type="button"
+              onClick={() => onChange({ ...settings, levelMode: mode.id })}
+              className={`px-3 py-1.5 text-xs font-medium transition-colors ${
+                settings.levelMode === mode.id
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-white text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              {mode.label}
+            </button>
+          ))}
+        </div>
+        {activeMode && <p className="mt-1 text-xs text-gray-500">{activeMode.description}</p>}
+      </div>
+
+      {/* ATR period, only relevant for the ATR mode */}
+      {settings.levelMode === 'atr' && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700">ATR Period</label>
+          <input
+            type="number"
+            value={settings.atrPeriod}
+            onChange={(e) => {
+              const value = parseInt(e.target.value, 10);
+              if (!isNaN(value) && value > 0) {
+                onChange({ ...settings, atrPeriod: value });
+              }
+            }}
+            className="block w-24 mt-1 text-sm border-gray-300 rounded-md shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            min="1"
+            step="1"
+          />
+        </div>
+      )}
+
+      {/* Fill policy for ambiguous bars */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700">When a bar hits both TP and SL</label>
+        <select
+          value={settings.fillPolicy}
+          onChange={(e) => onChange({ ...settings, fillPolicy: e.target.value as FillPolicy })}
+          className="block w-full mt-1 text-sm border-gray-300 rounded-md shadow-sm focus:border-blue-500 focus:ring-blue-500"
+        >
+          {FILL_POLICIES.map(policy => (
+            <option
+              key={policy.id}
+              value={policy.id}
+              disabled={policy.id === 'lower_timeframe' && !intrabarTimeframe}
+            >
+              {policy.id === 'lower_timeframe' && intrabarTimeframe
+                ? `${policy.label} (${intrabarTimeframe})`
+                : policy.label}
+            </option>
+          ))}
+        </select>
+        {activePolicy && <p className="mt-1 text-xs text-gray-500">{activePolicy.description}</p>}
+      </div>
+
+      {/* Trading costs */}
+      <div>
+        <label className="block mb-1 text-sm font-medium text-gray-700">Trading Costs</label>
+        <div className="grid grid-cols-3 gap-3">
+          <NumberField label="Entry fee (bps)" value={costs.entryFeeBps} step="0.5" onChange={(v) => setCosts({ entryFeeBps: v })} />
+          <NumberField label="Exit fee (bps)" value={costs.exitFeeBps} step="0.5" onChange={(v) => setCosts({ exitFeeBps: v })} />
+          <NumberField label="Spread (bps)" value={costs.spreadBps} step="0.5" onChange={(v) => setCosts({ spreadBps: v })} />
+        </div>
+
+        <div className="grid grid-cols-3 gap-3 mt-3">
+          <div>
+            <label className="block text-xs font-medium text-gray-500">Slippage</label>
+            <select
+              value={costs.slippage.mode}
+              onChange={(e) => setCosts({
+                slippage: e.target.value === 'fixed' ? { mode: 'fixed', bps: 0 } : { mode: 'volatility', atrFraction: 0.05 }
+              })}
+              className="block w-full mt-1 text-sm border-gray-300 rounded-md shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            >
+              <option value="fixed">Fixed</option>
+              <option value="volatility">× ATR</option>
+            </select>
+          </div>
+          {costs.slippage.mode === 'fixed' ? (
+            <NumberField label="Slippage (bps)" value={costs.slippage.bps} step="0.5" onChange={(v) => setCosts({ slippage: { mode: 'fixed', bps: v } })} />
+          ) : (
+            <NumberField label="ATR fraction" value={costs.slippage.atrFraction} step="0.01" onChange={(v) => setCosts({ slippage: { mode: 'volatility', atrFraction: v } })} />
+          )}
+          <NumberField label="Funding (%/bar)" value={costs.fundingRatePerBar} step="0.001" min="-1" onChange={(v) => setCosts({ fundingRatePerBar: v })} />
+        </div>
+      </div>
+
+      {/* Account and position sizing */}
+      <div>
+        <label className="block mb-1 text-sm font-medium text-gray-700">Position Sizing</label>
+        <div className="inline-flex overflow-hidden border border-gray-300 rounded-md">
+          {SIZING_MODES.map(mode => (
+            <button
+              key={mode.id}
+              type="button"
+              onClick={() => setSizing({ mode: mode.id })}
+              className={`px-3 py-1.5 text-xs font-medium transition-colors ${
+                sizing.mode === mode.id
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-white text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              {mode.label}
+            </button>
+          ))}
+        </div>
+        {activeSizing && <p className="mt-1 text-xs text-gray-500">{activeSizing.description}</p>}
+
+        <div className="grid grid-cols-3 gap-3 mt-3">
+          <NumberField label="Starting balance ($)" value={sizing.startingBalance} step="100" onChange={(v) => setSizing({ startingBalance: v })} />
+          {sizing.mode === 'fixed_notional' && (
+            <NumberField label="Per trade ($)" value={sizing.notional} step="100" onChange={(v) => setSizing({ notional: v })} />
+          )}
+          {sizing.mode !== 'fixed_notional' && (
+            <NumberField label="Risk (% equity)" value={sizing.riskPercent} step="0.25" onChange={(v) => setSizing({ riskPercent: v })} />
+          )}
+          {sizing.mode === 'kelly' && (
+            <NumberField label="Kelly fraction" value={sizing.kellyFraction} step="0.05" onChange={(v) => setSizing({ kellyFraction: v })} />
+          )}
+          <NumberField label="Max leverage (×)" value={sizing.maxLeverage} step="0.5" onChange={(v) => setSizing({ maxLeverage: v })} />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BacktestSettingsPanel;
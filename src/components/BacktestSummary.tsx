@@ -0,0 +1,74 @@
+/**
+ * BacktestSummary.tsx
+ * 
+ * This component displays the summary statistics of a backtest as a grid of cards.
+ * 
+ * The cards include:
+ * - Trade counts, win rate, expectancy and profit factor.
+ * - Average and extreme wins/losses.
+ * - Risk-adjusted figures: Sharpe, Sortino, max drawdown and longest losing streak.
+ * - Per-trade metric averages (time to exit, R:R, MFE/MAE) when available.
+ */
+
+import React from 'react';
+import { BacktestStatistics } from '../types';
+
+interface BacktestSummaryProps {
+  statistics: BacktestStatistics;
+}
+
+// Formats a signed percentage, e.g. +1.23% / -4.56%
+const formatPercent = (value: number) => `${value > 0 ? '+' : ''}${value.toFixed(2)}%`;
+
+// Picks a text colour from the sign of a value
+const signColor = (value: number) => value > 0 ? 'text-green-600' : value < 0 ? 'text-red-600' : 'text-gray-900';
+
+const BacktestSummary: React.FC<BacktestSummaryProps> = ({ statistics }) => {
+  const cards: { label: string; value: string; color?: string }[] = [
+    { label: 'Total Trades', value: `${statistics.total_trades} (${statistics.winning_trades}W / ${statistics.losing_trades}L)` },
+    { label: 'Win Rate', value: `${statistics.win_rate.toFixed(1)}%` },
+    { label: 'Expectancy', value: formatPercent(statistics.expectancy), color: signColor(statistics.expectancy) },
+    {
+      label: 'Profit Factor',
+      value: statistics.profit_factor === Infinity ? '∞' : statistics.profit_factor.toFixed(2),
+      color: statistics.profit_factor >= 1 ? 'text-green-600' : 'text-red-600'
+    },
+    { label: 'Average Win', value: formatPercent(statistics.average_win), color: 'text-green-600' },
+    { label: 'Average Loss', value: formatPercent(statistics.average_loss), color: 'text-red-600' },
+    { label: 'Best Trade', value: formatPercent(statistics.max_profit), color: signColor(statistics.max_profit) },
+    { label: 'Worst Trade', value: formatPercent(statistics.max_loss), color: signColor(statistics.max_loss) },
+    { label: 'Sharpe Ratio', value: statistics.sharpe_ratio.toFixed(2), color: signColor(statistics.sharpe_ratio) },
+    { label: 'Sortino Ratio', value: statistics.sortino_ratio.toFixed(2), color: signColor(statistics.sortino_ratio) },
+    { label: 'Max Drawdown', value: `-${statistics.max_drawdown.toFixed(2)}%`, color: 'text-red-600' },
+    { label: 'Longest Losing Streak', value: `${statistics.longest_losing_streak} trades` },
+  ];
+
+  // Per-trade metric averages are only shown when the trades carried metrics
+  if (statistics.average_time_to_exit !== undefined) {
+    cards.push({ label: 'Avg Time to Exit', value: `${statistics.average_time_to_exit.toFixed(1)} bars` });
+  }
+  if (statistics.average_risk_reward !== undefined) {
+    cards.push({ label: 'Avg R:R', value: statistics.average_risk_reward.toFixed(2) });
+  }
+  if (statistics.max_favorable_excursion !== undefined) {
+    cards.push({ label: 'Max Favorable', value: formatPercent(statistics.max_favorable_excursion), color: 'text-green-600' });
+  }
+  if (statistics.max_adverse_excursion !== undefined) {
+    cards.push({ label: 'Max Adverse', value: formatPercent(statistics.max_adverse_excursion), color: 'text-red-600' });
+  }
+
+  return (
+    <div className="grid grid-cols-2 gap-4 mb-8 md:grid-cols-4">
+      {cards.map(card => (
+        <div key={card.label} className="p-4 rounded-lg bg-gray-50">
+          <h3 className="text-sm font-medium text-gray-500">{card.label}</h3>
+          <p className={`mt-1 text-xl font-bold ${card.color ?? 'text-gray-900'}`}>
+            {card.value}
+          </p>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default BacktestSummary;
@@ -0,0 +1,111 @@
+/**
+ * DateRangePicker.tsx
+ *
+ * This component lets users choose the period that is fetched, charted and backtested.
+ *
+ * Features:
+ * - Start and end date inputs (interpreted as UTC days).
+ * - Quick presets for common lookbacks, up to a full four-year cycle.
+ * - Keeps the start before the end and the end no later than now.
+ */
+
+import React from 'react';
+import { CalendarRange } from 'lucide-react';
+import { DateRange } from '../types';
+import { lastDaysRange } from '../services/timeframes';
+
+interface DateRangePickerProps {
+  range: DateRange; // Currently selected range
+  onChange: (range: DateRange) => void; // Function to handle range changes
+}
+
+// Quick lookback presets, in days
+const PRESETS = [
+  { label: '30D', days: 30 },
+  { label: '90D', days: 90 },
+  { label: '1Y', days: 365 },
+  { label: '2Y', days: 730 },
+  { label: '4Y', days: 1460 }
+];
+
+const DAY_SECONDS = 24 * 60 * 60; // Number of seconds in a day
+
+// Converts Unix seconds to the YYYY-MM-DD format used by date inputs
+const toInputValue = (time: number) => new Date(time * 1000).toISOString().slice(0, 10);
+
+// Converts a YYYY-MM-DD value to Unix seconds at midnight UTC
+const fromInputValue = (value: string) => Math.floor(Date.parse(`${value}T00:00:00Z`) / 1000);
+
+/**
+ * DateRangePicker Component
+ *
+ * - Calls `onChange` with a new range when a date or preset is picked.
+ * - Highlights the preset matching the current range length.
+ */
+const DateRangePicker: React.FC<DateRangePickerProps> = ({ range, onChange }) => {
+  const now = Math.floor(Date.now() / 1000);
+  const rangeDays = Math.round((range.end - range.start) / DAY_SECONDS);
+  const endsToday = now - range.end < DAY_SECONDS;
+
+  const handleStartChange = (value: string) => {
+    const start = fromInputValue(value);
+    if (!isNaN(start) && start < range.end) {
+      onChange({ ...range, start });
+    }
+  };
+
+  const handleEndChange = (value: string) => {
+    // Include the whole end day, but never ask for the future
+    const end = Math.min(now, fromInputValue(value) + DAY_SECONDS - 1);
+    if (!isNaN(end) && end > range.start) {
+      onChange({ ...range, end });
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 text-sm">
+      <CalendarRange className="w-4 h-4 text-gray-500" />
+
+      {/* Start and end date inputs */}
+      <input
+        type="date"
+        value={toInputValue(range.start)}
+        max={toInputValue(range.end)}
+        onChange={(e) => handleStartChange(e.target.value)}
+        className="block text-sm border-gray-300 rounded-md shadow-sm focus:border-blue-500 focus:ring-blue-500"
+      />
+      <span className="text-gray-500">to</span>
+      <input
+        type="date"
+        value={toInputValue(range.end)}
+        min={toInputValue(range.start)}
+        max={toInputValue(now)}
+        onChange={(e) => handleEndChange(e.target.value)}
+        className="block text-sm border-gray-300 rounded-md shadow-sm focus:border-blue-500 focus:ring-blue-500"
+      />
+
+      {/* Lookback presets */}
+      <div className="flex gap-1">
+        {PRESETS.map(preset => {
+          const active = endsToday && Math.abs(rangeDays - preset.days) <= 1;
+          return (
+            <button
+              key={preset.label}
+              type="button"
+              onClick={() => onChange(lastDaysRange(preset.days))}
+              className={`px-2 py-1 text-xs font-medium rounded transition-colors ${
+                active
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-blue-50 text-blue-700 hover:bg-blue-100'
+              }`}
+            >
+              {preset.label}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default DateRangePicker;
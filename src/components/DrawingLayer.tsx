@@ -0,0 +1,100 @@
+/**
+ * DrawingLayer.tsx
+ *
+ * This component draws the chart's annotations as an SVG layer over the candlestick pane.
+ *
+ * - Trendlines join their two points, horizontal rays run from their point to the right edge.
+ * - Rectangles span their two corners, Fibonacci retracements draw each ratio of the swing
+ *   from its start to the right edge.
+ * - Points are mapped through the chart's time and price scales on every render, so the
+ *   parent re-renders it whenever the chart scrolls or zooms.
+ * - The layer ignores the pointer; clicks reach the chart underneath.
+ */
+
+import React from 'react';
+import { IChartApi, ISeriesApi, UTCTimestamp } from 'lightweight-charts';
+import { ChartDrawing, ChartPoint } from '../types';
+import { fibonacciLevels } from '../services/drawings';
+
+interface DrawingLayerProps {
+  chart: IChartApi;
+  series: ISeriesApi<'Candlestick'>;
+  drawings: ChartDrawing[];
+  pendingPoint: ChartPoint | null; // First click of a drawing still being placed
+  height: number;
+}
+
+const DrawingLayer: React.FC<DrawingLayerProps> = ({ chart, series, drawings, pendingPoint, height }) => {
+  const right = chart.timeScale().width();
+
+  // Pixel position of a point, null when it is off the chart's candles
+  const toXY = (point: ChartPoint) => {
+    const x = chart.timeScale().timeToCoordinate(point.time as UTCTimestamp);
+    const y = series.priceToCoordinate(point.price);
+    return x === null || y === null ? null : { x, y };
+  };
+
+  const renderDrawing = (drawing: ChartDrawing) => {
+    const [first, second] = drawing.points.map(toXY);
+    if (!first || (drawing.tool !== 'horizontal' && !second)) return null;
+
+    switch (drawing.tool) {
+      case 'trendline':
+        return <line x1={first.x} y1={first.y} x2={second!.x} y2={second!.y} stroke="#2563EB" strokeWidth="1.5" />;
+
+      case 'horizontal':
+        return (
+          <>
+            <line x1={first.x} y1={first.y} x2={right} y2={first.y} stroke="#7C3AED" strokeWidth="1.5" />
+            <text x={right - 4} y={first.y - 4} textAnchor="end" fontSize="11" fill="#7C3AED">
+              {drawing.points[0].price.toFixed(2)}
+            </text>
+          </>
+        );
+
+      case 'rectangle':
+        return (
+          <rect
+            x={Math.min(first.x, second!.x)}
+            y={Math.min(first.y, second!.y)}
+            width={Math.abs(second!.x - first.x)}
+            height={Math.abs(second!.y - first.y)}
+            fill="rgba(37, 99, 235, 0.1)"
+            stroke="#2563EB"
+          />
+        );
+
+      case 'fibonacci': {
+        const left = Math.min(first.x, second!.x);
+        return (
+          <>
+            <line x1={first.x} y1={first.y} x2={second!.x} y2={second!.y} stroke="#F59E0B" strokeDasharray="4 3" />
+            {fibonacciLevels(drawing).map(({ ratio, price }) => {
+              const y = series.priceToCoordinate(price);
+              if (y === null) return null;
+              return (
+                <g key={ratio}>
+                  <line x1={left} y1={y} x2={right} y2={y} stroke="#F59E0B" strokeWidth="1" />
+                  <text x={left + 4} y={y - 3} fontSize="11" fill="#B45309">
+                    {(ratio * 100).toFixed(1)}% · {price.toFixed(2)}
+                  </text>
+                </g>
+              );
+            })}
+          </>
+        );
+      }
+    }
+  };
+
+  const pending = pendingPoint ? toXY(pendingPoint) : null;
+
+  return (
+    <svg className="absolute top-0 left-0 pointer-events-none" width={right} height={height}>
+      {drawings.map(drawing => <g key={drawing.id}>{renderDrawing(drawing)}</g>)}
+      {pending && <circle cx={pending.x} cy={pending.y} r="4" fill="#2563EB" />}
+    </svg>
+  );
+};
+
+export default DrawingLayer;
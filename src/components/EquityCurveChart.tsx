@@ -0,0 +1,48 @@
+/**
+ * EquityCurveChart.tsx
+ *
+ * This component draws an account equity curve as a simple SVG line.
+ *
+ * - Time runs left to right, equity is scaled between its lowest and highest point.
+ * - The line is green when the curve ends above where it started, red otherwise.
+ */
+
+import React from 'react';
+import { EquityPoint } from '../types';
+
+interface EquityCurveChartProps {
+  title: string;
+  equityCurve: EquityPoint[];
+}
+
+const WIDTH = 600;
+const HEIGHT = 160;
+
+const EquityCurveChart: React.FC<EquityCurveChartProps> = ({ title, equityCurve }) => {
+  if (equityCurve.length < 2) return null;
+
+  const equities = equityCurve.map(p => p.equity);
+  const minEquity = Math.min(...equities);
+  const maxEquity = Math.max(...equities);
+  const firstTime = equityCurve[0].time;
+  const timeSpan = equityCurve[equityCurve.length - 1].time - firstTime || 1;
+  const points = equityCurve.map(p => {
+    const x = ((p.time - firstTime) / timeSpan) * WIDTH;
+    const y = HEIGHT - ((p.equity - minEquity) / (maxEquity - minEquity || 1)) * HEIGHT;
+    return `${x.toFixed(1)},${y.toFixed(1)}`;
+  }).join(' ');
+  const rising = equities[equities.length - 1] >= equities[0];
+
+  return (
+    <div>
+      <h3 className="mb-2 text-sm font-medium text-gray-700">
+        {title} (${minEquity.toFixed(0)} – ${maxEquity.toFixed(0)})
+      </h3>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-40 bg-gray-50 rounded" preserveAspectRatio="none">
+        <polyline points={points} fill="none" stroke={rising ? '#16a34a' : '#dc2626'} strokeWidth="2" vectorEffect="non-scaling-stroke" />
+      </svg>
+    </div>
+  );
+};
+
+export default EquityCurveChart;
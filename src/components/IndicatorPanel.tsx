@@ -0,0 +1,104 @@
+/**
+ * IndicatorPanel.tsx
+ *
+ * This component manages the indicator studies drawn on the price chart.
+ *
+ * Features:
+ * - Lists the chart's studies with their parameters, e.g. period and std dev.
+ * - Adds any study from `indicatorStudies.ts`, more than once if needed (e.g. EMA 20 and EMA 50).
+ * - Removes studies, or resets the list to the default EMA 20, Bollinger Bands, volume and RSI.
+ *
+ * The same studies set the periods and confirmations used by the trade analysis.
+ */
+
+import React from 'react';
+import { Plus, SlidersHorizontal, X } from 'lucide-react';
+import { StudyId, StudySelection } from '../types';
+import { DEFAULT_CHART_STUDIES, INDICATOR_STUDIES, defaultSelection, getStudy } from '../services/indicatorStudies';
+
+interface IndicatorPanelProps {
+  studies: StudySelection[];
+  onChange: (studies: StudySelection[]) => void;
+}
+
+const IndicatorPanel: React.FC<IndicatorPanelProps> = ({ studies, onChange }) => {
+  const updateParam = (index: number, paramIndex: number, value: number) => {
+    const spec = getStudy(studies[index].id)?.params[paramIndex];
+    if (!spec || !Number.isFinite(value)) return;
+
+    const clamped = Math.max(spec.min, Math.min(spec.max, spec.integer ? Math.round(value) : value));
+    onChange(studies.map((selection, i) => i === index
+      ? { ...selection, params: selection.params.map((p, j) => j === paramIndex ? clamped : p) }
+      : selection));
+  };
+
+  const addStudy = (id: StudyId) => {
+    const study = getStudy(id);
+    if (study) onChange([...studies, defaultSelection(study)]);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm">
+      <SlidersHorizontal className="w-4 h-4 text-blue-600" />
+
+      {/* Selected studies */}
+      {studies.map((selection, index) => {
+        const study = getStudy(selection.id);
+        if (!study) return null;
+
+        return (
+          <div key={index} className="flex items-center gap-1 px-2 py-1 border border-gray-200 rounded-md bg-gray-50">
+            <span className="font-medium text-gray-700">{study.label}</span>
+            {study.params.map((spec, paramIndex) => (
+              <input
+                key={spec.name}
+                type="number"
+                title={spec.name}
+                value={selection.params[paramIndex] ?? spec.defaultValue}
+                onChange={(e) => updateParam(index, paramIndex, parseFloat(e.target.value))}
+                className="w-16 px-1 py-0.5 text-xs border-gray-300 rounded shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                min={spec.min}
+                max={spec.max}
+                step={spec.integer ? 1 : 'any'}
+              />
+            ))}
+            <button
+              type="button"
+              title={`Remove ${study.label}`}
+              onClick={() => onChange(studies.filter((_, i) => i !== index))}
+              className="text-gray-400 hover:text-red-600"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        );
+      })}
+
+      {/* Add / reset */}
+      <div className="flex items-center gap-1">
+        <Plus className="w-4 h-4 text-gray-400" />
+        <select
+          value=""
+          onChange={(e) => addStudy(e.target.value as StudyId)}
+          className="text-sm border-gray-300 rounded-md shadow-sm focus:border-blue-500 focus:ring-blue-500"
+        >
+          <option value="" disabled>Add indicator</option>
+          {INDICATOR_STUDIES.map(study => (
+            <option key={study.id} value={study.id}>
+              {study.label}{study.pane === 'separate' ? ' (pane)' : ''}
+            </option>
+          ))}
+        </select>
+      </div>
+      <button
+        type="button"
+        onClick={() => onChange(DEFAULT_CHART_STUDIES)}
+        className="text-xs text-gray-500 hover:text-blue-600"
+      >
+        Reset
+      </button>
+    </div>
+  );
+};
+
+export default IndicatorPanel;
@@ -0,0 +1,193 @@
+/**
+ * MonteCarloPanel.tsx
+ *
+ * This component shows the Monte Carlo resampling of the last backtest's trades.
+ *
+ * Features:
+ * - Number of runs, shuffle or bootstrap resampling, and the drawdown that counts as ruin.
+ * - A fan chart of the equity after each trade: 5–95 and 25–75 percentile bands, the
+ *   median, and the backtest's actual path for comparison.
+ * - Percentiles of the final equity and max drawdown, and the risk of ruin.
+ * - The simulation runs in a Web Worker with progress and cancel; Resample reruns it
+ *   with a new seed.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Shuffle } from 'lucide-react';
+import { BacktestResult, MonteCarloConfig, MonteCarloResult, PercentileBands } from '../types';
+import { DEFAULT_MONTE_CARLO, MAX_MONTE_CARLO_RUNS } from '../services/monteCarlo';
+import { startMonteCarlo } from '../services/analysisTasks';
+import { useWorkerTask } from '../hooks/useWorkerTask';
+import ProgressBar from './ProgressBar';
+
+interface MonteCarloPanelProps {
+  backtestResult: BacktestResult | null;
+}
+
+const WIDTH = 600;
+const HEIGHT = 240;
+
+const inputClass = 'block w-full mt-1 text-sm border-gray-300 rounded-md shadow-sm focus:border-blue-500 focus:ring-blue-500';
+
+const PERCENTILES: (keyof PercentileBands)[] = ['p5', 'p25', 'p50', 'p75', 'p95'];
+
+const MonteCarloPanel: React.FC<MonteCarloPanelProps> = ({ backtestResult }) => {
+  const [config, setConfig] = useState<MonteCarloConfig>(DEFAULT_MONTE_CARLO);
+  const [seed, setSeed] = useState(0);
+  const [result, setResult] = useState<MonteCarloResult | null>(null);
+  const { run: simulate, cancel, loading, progress, error } = useWorkerTask(startMonteCarlo);
+
+  // Simulate again whenever the backtest, the settings or the seed change
+  useEffect(() => {
+    setResult(null);
+    if (!backtestResult?.success) return;
+    simulate({ backtest: backtestResult, config, seed }).then(setResult);
+  }, [backtestResult, config, seed, simulate]);
+
+  if (!backtestResult) return null;
+
+  // Fan chart geometry
+  const chart = result && (() => {
+    const bands = result.equityBands;
+    const lastTrade = bands[bands.length - 1].trade || 1;
+    const values = [...bands.flatMap(b => [b.p5, b.p95]), ...result.actualEquity];
+    const min = Math.min(...values);
+    const max = Math.max(...values);
+    const x = (trade: number) => (trade / lastTrade) * WIDTH;
+    const y = (equity: number) => HEIGHT - ((equity - min) / (max - min || 1)) * HEIGHT;
+    const line = (points: [number, number][]) => points.map(([t, e]) => `${x(t).toFixed(1)},${y(e).toFixed(1)}`).join(' ');
+    const area = (low: keyof PercentileBands, high: keyof PercentileBands) => line([
+      ...bands.map((b): [number, number] => [b.trade, b[high]]),
+      ...[...bands].reverse().map((b): [number, number] => [b.trade, b[low]])
+    ]);
+
+    return {
+      min,
+      max,
+      outer: area('p5', 'p95'),
+      inner: area('p25', 'p75'),
+      median: line(bands.map(b => [b.trade, b.p50])),
+      actual: line(result.actualEquity.map((e, i) => [i, e])),
+      startY: y(result.startingBalance)
+    };
+  })();
+
+  const formatMoney = (value: number) => `$${Math.round(value).toLocaleString()}`;
+
+  return (
+    <div className="p-6 bg-white rounded-lg shadow">
+      <h2 className="flex items-center mb-6 text-lg font-semibold text-gray-900">
+        <Shuffle className="w-5 h-5 mr-2 text-blue-600" />
+        Monte Carlo
+      </h2>
+
+      {/* Simulation settings */}
+      <div className="grid grid-cols-1 gap-4 mb-6 md:grid-cols-4">
+        <div>
+          <label className="block text-xs font-medium text-gray-500">Runs</label>
+          <input
+            type="number"
+            value={config.runs}
+            onChange={(e) => setConfig({ ...config, runs: parseInt(e.target.value, 10) || 1 })}
+            className={inputClass}
+            min="1"
+            max={MAX_MONTE_CARLO_RUNS}
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-500">Resampling</label>
+          <select
+            value={config.method}
+            onChange={(e) => setConfig({ ...config, method: e.target.value as MonteCarloConfig['method'] })}
+            className={inputClass}
+          >
+            <option value="shuffle">Shuffle trade order</option>
+            <option value="bootstrap">Bootstrap (with replacement)</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-500">Ruin at drawdown %</label>
+          <input
+            type="number"
+            value={config.ruinDrawdown}
+            onChange={(e) => setConfig({ ...config, ruinDrawdown: parseFloat(e.target.value) || 0 })}
+            className={inputClass}
+            min="0"
+            max="100"
+            step="any"
+          />
+        </div>
+        <div className="flex items-end">
+          <button
+            type="button"
+            onClick={() => setSeed(seed + 1)}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700"
+          >
+            Resample
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="mb-4 text-sm text-red-600">{error}</p>}
+
+      {loading ? (
+        <ProgressBar progress={progress} unit="runs" onCancel={cancel} />
+      ) : !result || !chart ? (
+        !error && <div className="text-center text-gray-500">The backtest has no trades to resample</div>
+      ) : (
+        <div className="grid grid-cols-1 gap-6 lg:grid-cols-3">
+          {/* Equity fan chart */}
+          <div className="lg:col-span-2">
+            <h3 className="mb-2 text-sm font-medium text-gray-700">
+              Equity after each trade, {result.runs.toLocaleString()} runs ({formatMoney(chart.min)} – {formatMoney(chart.max)})
+            </h3>
+            <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-60 bg-gray-50 rounded" preserveAspectRatio="none">
+              <line x1="0" x2={WIDTH} y1={chart.startY} y2={chart.startY} stroke="#9ca3af" strokeDasharray="4 4" vectorEffect="non-scaling-stroke" />
+              <polygon points={chart.outer} fill="#bfdbfe" />
+              <polygon points={chart.inner} fill="#60a5fa" />
+              <polyline points={chart.median} fill="none" stroke="#1d4ed8" strokeWidth="2" vectorEffect="non-scaling-stroke" />
+              <polyline points={chart.actual} fill="none" stroke="#111827" strokeWidth="1" vectorEffect="non-scaling-stroke" />
+            </svg>
+            <p className="mt-1 text-xs text-gray-500">
+              Light band 5–95th percentile, dark band 25–75th, blue line median, black line the backtest's own order.
+            </p>
+          </div>
+
+          {/* Percentiles and risk of ruin */}
+          <div className="space-y-4">
+            <div className="p-4 rounded-lg bg-gray-50">
+              <p className="text-xs font-medium text-gray-500">Risk of ruin (drawdown ≥ {config.ruinDrawdown}%)</p>
+              <p className={`text-2xl font-semibold ${result.riskOfRuin > 0.05 ? 'text-red-600' : 'text-green-600'}`}>
+                {(result.riskOfRuin * 100).toFixed(1)}%
+              </p>
+            </div>
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  {['Percentile', 'Final Equity', 'Max DD'].map(header => (
+                    <th key={header} className="px-3 py-2 text-xs font-medium tracking-wider text-left text-gray-500 uppercase">
+                      {header}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {PERCENTILES.map(key => (
+                  <tr key={key}>
+                    <td className="px-3 py-2 text-sm text-gray-500">{key.slice(1)}th</td>
+                    <td className={`px-3 py-2 text-sm font-medium ${result.finalEquity[key] >= result.startingBalance ? 'text-green-600' : 'text-red-600'}`}>
+                      {formatMoney(result.finalEquity[key])}
+                    </td>
+                    <td className="px-3 py-2 text-sm text-gray-900">{result.maxDrawdown[key].toFixed(1)}%</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MonteCarloPanel;
@@ -0,0 +1,96 @@
+/**
+ * OptimizationHeatmap.tsx
+ *
+ * This component draws the TP × SL surface of an optimisation sweep as a heatmap.
+ *
+ * - Columns are take-profit %, rows are stop-loss %.
+ * - Each cell is coloured from red (worst) to green (best) by the objective. When a
+ *   period was swept too, a cell shows the best period for that TP/SL pair.
+ * - Cells that weren't tried, or had too few trades to rank, are grey.
+ */
+
+import React from 'react';
+import { OptimizationResult } from '../types';
+
+interface OptimizationHeatmapProps {
+  results: OptimizationResult[];
+  takeProfitValues: number[];
+  stopLossValues: number[];
+  formatScore: (score: number) => string;
+}
+
+const CELL = 44;    // Cell size in SVG units
+const MARGIN = 48;  // Room for the axis labels
+
+const OptimizationHeatmap: React.FC<OptimizationHeatmapProps> = ({ results, takeProfitValues, stopLossValues, formatScore }) => {
+  // Best result for each TP/SL pair
+  const best = new Map<string, OptimizationResult>();
+  results.forEach(result => {
+    const key = `${result.takeProfitPercent}_${result.stopLossPercent}`;
+    const current = best.get(key);
+    if (!current || (result.score ?? -Infinity) > (current.score ?? -Infinity)) best.set(key, result);
+  });
+
+  // Colour scale over the finite scores, infinite ones count as the best
+  const scores = results.map(r => r.score).filter((score): score is number => score !== null && Number.isFinite(score));
+  const low = Math.min(...scores);
+  const high = Math.max(...scores);
+  const colorFor = (score: number | null) => {
+    if (score === null) return '#e5e7eb';
+    const t = score === Infinity || high === low ? 1 : Math.max(0, (score - low) / (high - low));
+    return `hsl(${Math.round(t * 120)}, 70%, 50%)`;
+  };
+
+  const width = MARGIN + takeProfitValues.length * CELL;
+  const height = MARGIN + stopLossValues.length * CELL;
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-auto max-w-2xl">
+      {/* Axis titles */}
+      <text x={MARGIN + (width - MARGIN) / 2} y={12} textAnchor="middle" className="text-[10px] fill-gray-500">Take profit %</text>
+      <text x={10} y={MARGIN + (height - MARGIN) / 2} textAnchor="middle" transform={`rotate(-90 10 ${MARGIN + (height - MARGIN) / 2})`} className="text-[10px] fill-gray-500">
+        Stop loss %
+      </text>
+
+      {/* Axis values */}
+      {takeProfitValues.map((tp, col) => (
+        <text key={tp} x={MARGIN + col * CELL + CELL / 2} y={MARGIN - 8} textAnchor="middle" className="text-[10px] fill-gray-700">{tp}</text>
+      ))}
+      {stopLossValues.map((sl, row) => (
+        <text key={sl} x={MARGIN - 6} y={MARGIN + row * CELL + CELL / 2 + 3} textAnchor="end" className="text-[10px] fill-gray-700">{sl}</text>
+      ))}
+
+      {/* Cells */}
+      {stopLossValues.map((sl, row) => takeProfitValues.map((tp, col) => {
+        const result = best.get(`${tp}_${sl}`);
+        const score = result?.score ?? null;
+        return (
+          <g key={`${tp}_${sl}`}>
+            <rect
+              x={MARGIN + col * CELL}
+              y={MARGIN + row * CELL}
+              width={CELL - 2}
+              height={CELL - 2}
+              rx={3}
+              fill={colorFor(score)}
+            >
+              <title>
+                {result
+                  ? `TP ${tp}% · SL ${sl}%${result.period !== null ? ` · period ${result.period}` : ''} · ` +
+                    `${score === null ? 'too few trades' : formatScore(score)} · ${result.totalTrades} trades`
+                  : `TP ${tp}% · SL ${sl}% · not tried`}
+              </title>
+            </rect>
+            {score !== null && (
+              <text x={MARGIN + col * CELL + (CELL - 2) / 2} y={MARGIN + row * CELL + CELL / 2 + 2} textAnchor="middle" className="text-[9px] fill-white pointer-events-none">
+                {formatScore(score)}
+              </text>
+            )}
+          </g>
+        );
+      }))}
+    </svg>
+  );
+};
+
+export default OptimizationHeatmap;
@@ -0,0 +1,314 @@
+/**
+ * OptimizerPanel.tsx
+ *
+ * This component runs parameter sweeps over the last backtest and shows the results.
+ *
+ * Features:
+ * - TP % and SL % ranges, and optionally the range of one indicator period of the strategy.
+ * - Full grid or random search, ranked by net profit, Sharpe ratio or profit factor.
+ * - Runs in a Web Worker with a progress bar and a cancel button.
+ * - A TP × SL heatmap of the objective and a table of the best parameter sets.
+ * - Walk-forward mode: the same sweep on rolling (or anchored) in-sample windows, each
+ *   winner traded on the following out-of-sample window, with a robustness score.
+ *
+ * The sweep reuses the entry price, direction, data and settings of the last analysed trade.
+ */
+
+import React, { useState } from 'react';
+import { Grid3X3 } from 'lucide-react';
+import {
+  BacktestParams,
+  OptimizationConfig,
+  OptimizationObjective,
+  OptimizationResult,
+  ParameterRange,
+  WalkForwardConfig,
+  WalkForwardResult
+} from '../types';
+import { listPeriodTargets, parameterSets, rangeValues, startOptimization, startWalkForward } from '../services/optimizer';
+import { DEFAULT_STRATEGY } from '../services/strategy';
+import { useWorkerTask } from '../hooks/useWorkerTask';
+import OptimizationHeatmap from './OptimizationHeatmap';
+import ProgressBar from './ProgressBar';
+import WalkForwardResults from './WalkForwardResults';
+
+interface OptimizerPanelProps {
+  params: BacktestParams | null; // Backtest of the last analysed trade, null before the first analysis
+}
+
+const OBJECTIVES: { id: OptimizationObjective; label: string; format: (score: number) => string }[] = [
+  { id: 'net_profit', label: 'Net profit', format: (score) => `$${Math.round(score).toLocaleString()}` },
+  { id: 'sharpe', label: 'Sharpe ratio', format: (score) => score.toFixed(2) },
+  { id: 'profit_factor', label: 'Profit factor', format: (score) => score === Infinity ? '∞' : score.toFixed(2) }
+];
+
+const DEFAULT_CONFIG: OptimizationConfig = {
+  takeProfit: { min: 2, max: 20, step: 2 },
+  stopLoss: { min: 1, max: 10, step: 1 },
+  period: null,
+  method: 'grid',
+  samples: 50,
+  objective: 'net_profit',
+  minTrades: 5
+};
+
+const DEFAULT_WINDOWS = { inSampleBars: 500, outOfSampleBars: 100, anchored: false };
+
+const inputClass = 'block w-full mt-1 text-sm border-gray-300 rounded-md shadow-sm focus:border-blue-500 focus:ring-blue-500';
+
+/**
+ * Min / max / step inputs for one swept parameter.
+ */
+const RangeField: React.FC<{
+  label: string;
+  range: ParameterRange;
+  onChange: (range: ParameterRange) => void;
+}> = ({ label, range, onChange }) => (
+  <div>
+    <label className="block text-xs font-medium text-gray-500">{label}</label>
+    <div className="grid grid-cols-3 gap-1">
+      {(['min', 'max', 'step'] as const).map(key => (
+        <input
+          key={key}
+          type="number"
+          title={key}
+          value={range[key]}
+          onChange={(e) => onChange({ ...range, [key]: parseFloat(e.target.value) })}
+          className={inputClass}
+          min="0"
+          step="any"
+        />
+      ))}
+    </div>
+  </div>
+);
+
+const OptimizerPanel: React.FC<OptimizerPanelProps> = ({ params }) => {
+  const [config, setConfig] = useState<OptimizationConfig>(DEFAULT_CONFIG);
+  const [mode, setMode] = useState<'sweep' | 'walk_forward'>('sweep');
+  const [windows, setWindows] = useState(DEFAULT_WINDOWS);
+  const [results, setResults] = useState<OptimizationResult[] | null>(null);
+  const [walkForward, setWalkForward] = useState<WalkForwardResult | null>(null);
+  const sweep = useWorkerTask((input: { params: BacktestParams; config: OptimizationConfig }, onProgress) =>
+    startOptimization(input.params, input.config, onProgress));
+  const walkForwardTask = useWorkerTask((input: { params: BacktestParams; config: WalkForwardConfig }, onProgress) =>
+    startWalkForward(input.params, input.config, onProgress));
+  const task = mode === 'walk_forward' ? walkForwardTask : sweep;
+
+  const periodTargets = listPeriodTargets(params?.strategy ?? DEFAULT_STRATEGY);
+  const objective = OBJECTIVES.find(o => o.id === config.objective) ?? OBJECTIVES[0];
+  const setCount = parameterSets({ ...config, method: 'grid' }).length;
+
+  const handleRun = async () => {
+    if (!params) return;
+    setResults(null);
+    setWalkForward(null);
+
+    if (mode === 'walk_forward') {
+      setWalkForward(await walkForwardTask.run({ params, config: { ...windows, optimization: config } }));
+    } else {
+      setResults(await sweep.run({ params, config }));
+    }
+  };
+
+  return (
+    <div className="p-6 bg-white rounded-lg shadow">
+      <h2 className="flex items-center mb-6 text-lg font-semibold text-gray-900">
+        <Grid3X3 className="w-5 h-5 mr-2 text-blue-600" />
+        Parameter Optimisation
+      </h2>
+
+      {!params ? (
+        <div className="text-center text-gray-500">Analyse a trade first, the sweep starts from its backtest</div>
+      ) : (
+        <div className="space-y-6">
+          {/* Mode */}
+          <div className="flex gap-2">
+            {([['sweep', 'Sweep'], ['walk_forward', 'Walk-forward']] as const).map(([id, label]) => (
+              <button
+                key={id}
+                type="button"
+                onClick={() => setMode(id)}
+                className={`px-2 py-1 text-xs font-medium rounded ${mode === id ? 'text-white bg-blue-600' : 'text-blue-700 bg-blue-50 hover:bg-blue-100'}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+
+          {/* Walk-forward windows */}
+          {mode === 'walk_forward' && (
+            <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+              <div>
+                <label className="block text-xs font-medium text-gray-500">In-sample bars</label>
+                <input
+                  type="number"
+                  value={windows.inSampleBars}
+                  onChange={(e) => setWindows({ ...windows, inSampleBars: parseInt(e.target.value, 10) || 1 })}
+                  className={inputClass}
+                  min="1"
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-500">Out-of-sample bars</label>
+                <input
+                  type="number"
+                  value={windows.outOfSampleBars}
+                  onChange={(e) => setWindows({ ...windows, outOfSampleBars: parseInt(e.target.value, 10) || 1 })}
+                  className={inputClass}
+                  min="1"
+                />
+              </div>
+              <label className="flex items-center gap-2 mt-5 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={windows.anchored}
+                  onChange={(e) => setWindows({ ...windows, anchored: e.target.checked })}
+                  className="text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                />
+                Anchored (in-sample always starts at the first bar)
+              </label>
+            </div>
+          )}
+
+          {/* Sweep settings */}
+          <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+            <RangeField label="Take profit % (min / max / step)" range={config.takeProfit} onChange={(takeProfit) => setConfig({ ...config, takeProfit })} />
+            <RangeField label="Stop loss % (min / max / step)" range={config.stopLoss} onChange={(stopLoss) => setConfig({ ...config, stopLoss })} />
+            <div>
+              <label className="block text-xs font-medium text-gray-500">Indicator period</label>
+              <select
+                value={config.period ? periodTargets.findIndex(t => t.label === config.period!.target.label) : -1}
+                onChange={(e) => {
+                  const target = periodTargets[Number(e.target.value)];
+                  setConfig({ ...config, period: target ? { target, range: { min: 5, max: 50, step: 5 } } : null });
+                }}
+                className={inputClass}
+              >
+                <option value={-1}>Don't sweep</option>
+                {periodTargets.map((target, index) => (
+                  <option key={target.label} value={index}>{target.label}</option>
+                ))}
+              </select>
+            </div>
+            {config.period && (
+              <RangeField
+                label="Period (min / max / step)"
+                range={config.period.range}
+                onChange={(range) => setConfig({ ...config, period: { ...config.period!, range } })}
+              />
+            )}
+            <div>
+              <label className="block text-xs font-medium text-gray-500">Search</label>
+              <div className="flex gap-2">
+                <select
+                  value={config.method}
+                  onChange={(e) => setConfig({ ...config, method: e.target.value as OptimizationConfig['method'] })}
+                  className={inputClass}
+                >
+                  <option value="grid">Grid ({setCount} sets)</option>
+                  <option value="random">Random</option>
+                </select>
+                {config.method === 'random' && (
+                  <input
+                    type="number"
+                    title="Samples"
+                    value={config.samples}
+                    onChange={(e) => setConfig({ ...config, samples: parseInt(e.target.value, 10) || 1 })}
+                    className={`${inputClass} w-24`}
+                    min="1"
+                  />
+                )}
+              </div>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-500">Rank by (min trades)</label>
+              <div className="flex gap-2">
+                <select
+                  value={config.objective}
+                  onChange={(e) => setConfig({ ...config, objective: e.target.value as OptimizationObjective })}
+                  className={inputClass}
+                >
+                  {OBJECTIVES.map(o => <option key={o.id} value={o.id}>{o.label}</option>)}
+                </select>
+                <input
+                  type="number"
+                  title="Minimum trades"
+                  value={config.minTrades}
+                  onChange={(e) => setConfig({ ...config, minTrades: parseInt(e.target.value, 10) || 0 })}
+                  className={`${inputClass} w-20`}
+                  min="0"
+                />
+              </div>
+            </div>
+          </div>
+
+          {/* Run / cancel and progress */}
+          <div className="flex items-center gap-4">
+            {task.loading ? (
+              <div className="flex-1">
+                <ProgressBar progress={task.progress} unit="backtests" onCancel={task.cancel} />
+              </div>
+            ) : (
+              <button
+                type="button"
+                onClick={handleRun}
+                className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700"
+              >
+                {mode === 'walk_forward' ? 'Run Walk-forward' : 'Run Optimisation'}
+              </button>
+            )}
+            {task.error && <p className="text-sm text-red-600">{task.error}</p>}
+          </div>
+
+          {/* Results */}
+          {walkForward && <WalkForwardResults result={walkForward} />}
+          {results && (
+            <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+              <OptimizationHeatmap
+                results={results}
+                takeProfitValues={rangeValues(config.takeProfit)}
+                stopLossValues={rangeValues(config.stopLoss)}
+                formatScore={objective.format}
+              />
+
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      {['TP %', 'SL %', ...(config.period ? ['Period'] : []), objective.label, 'Trades', 'Win Rate', 'Net $'].map(header => (
+                        <th key={header} className="px-3 py-2 text-xs font-medium tracking-wider text-left text-gray-500 uppercase">
+                          {header}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {results.filter(r => r.score !== null).slice(0, 10).map((result, index) => (
+                      <tr key={index} className="hover:bg-gray-50">
+                        <td className="px-3 py-2 text-sm text-gray-900">{result.takeProfitPercent}</td>
+                        <td className="px-3 py-2 text-sm text-gray-900">{result.stopLossPercent}</td>
+                        {config.period && <td className="px-3 py-2 text-sm text-gray-900">{result.period}</td>}
+                        <td className="px-3 py-2 text-sm font-medium text-gray-900">{objective.format(result.score!)}</td>
+                        <td className="px-3 py-2 text-sm text-gray-900">{result.totalTrades}</td>
+                        <td className="px-3 py-2 text-sm text-gray-900">{result.statistics?.win_rate.toFixed(1) ?? '-'}%</td>
+                        <td className={`px-3 py-2 text-sm font-medium ${result.netProfit > 0 ? 'text-green-600' : 'text-red-600'}`}>
+                          {result.netProfit > 0 ? '+' : ''}{Math.round(result.netProfit).toLocaleString()}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {results.every(r => r.score === null) && (
+                  <p className="mt-2 text-sm text-gray-500">No parameter set reached {config.minTrades} trades.</p>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OptimizerPanel;
@@ -0,0 +1,261 @@
+/**
+ * PortfolioPanel.tsx
+ *
+ * This component runs the current strategy across a basket of coins on one shared account.
+ *
+ * Features:
+ * - Coin selection, the allocation rule (equal slots, % risk or fixed weights per coin)
+ *   and the max number of positions open at once.
+ * - Loads each coin's candles for the timeframe and period of the last backtest, with the
+ *   warm-up before it, then runs the portfolio in a Web Worker with progress and cancel.
+ * - Shows the portfolio's statistics and equity curve, and each coin's trades, skipped
+ *   signals, P/L and contribution to the total return.
+ *
+ * The portfolio reuses the strategy, levels and settings of the last analysed trade.
+ */
+
+import React, { useState } from 'react';
+import { Layers } from 'lucide-react';
+import { AllocationMode, BacktestParams, MarketDataProviderId, PortfolioAsset, PortfolioConfig, PortfolioResult } from '../types';
+import { getCoinData } from '../services/storage';
+import { lowerTimeframe } from '../services/timeframes';
+import { DEFAULT_PORTFOLIO } from '../services/portfolio';
+import { warmUpSeconds } from '../services/backtesting';
+import { startPortfolioBacktest } from '../services/analysisTasks';
+import { useWorkerTask } from '../hooks/useWorkerTask';
+import BacktestSummary from './BacktestSummary';
+import EquityCurveChart from './EquityCurveChart';
+import ProgressBar from './ProgressBar';
+
+interface PortfolioPanelProps {
+  params: BacktestParams | null; // Backtest of the last analysed trade, null before the first analysis
+  availableCoins: { id: string; name: string }[];
+  providerId: MarketDataProviderId;
+}
+
+const ALLOCATIONS: { id: AllocationMode; label: string }[] = [
+  { id: 'equal_slots', label: 'Equal slots (equity / max positions)' },
+  { id: 'risk', label: '% of equity at risk' },
+  { id: 'weights', label: 'Fixed weight per coin' }
+];
+
+const inputClass = 'block w-full mt-1 text-sm border-gray-300 rounded-md shadow-sm focus:border-blue-500 focus:ring-blue-500';
+
+// Formats a signed percentage, e.g. +1.23% / -4.56%
+const formatPercent = (value: number) => `${value > 0 ? '+' : ''}${value.toFixed(2)}%`;
+
+const PortfolioPanel: React.FC<PortfolioPanelProps> = ({ params, availableCoins, providerId }) => {
+  const [config, setConfig] = useState<PortfolioConfig>(DEFAULT_PORTFOLIO);
+  const [result, setResult] = useState<PortfolioResult | null>(null);
+  const [fetching, setFetching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const task = useWorkerTask((input: { params: BacktestParams; assets: PortfolioAsset[]; config: PortfolioConfig }, onProgress) =>
+    startPortfolioBacktest(input.params, input.assets, input.config, onProgress));
+
+  const coinName = (id: string) => availableCoins.find(c => c.id === id)?.name ?? id;
+  const defaultWeight = 100 / Math.max(1, config.coins.length);
+
+  const toggleCoin = (id: string, checked: boolean) => {
+    // Keep the selection in the listed order, it breaks ties between same-bar entries
+    const coins = availableCoins.map(c => c.id).filter(c => c === id ? checked : config.coins.includes(c));
+    setConfig({ ...config, coins });
+  };
+
+  const handleRun = async () => {
+    if (!params) return;
+    setFetching(true);
+    setError(null);
+    setResult(null);
+
+    const assets: PortfolioAsset[] = [];
+    try {
+      const timeframe = params.timeframe ?? '1d';
+      const intrabarTimeframe = params.fillPolicy === 'lower_timeframe' ? lowerTimeframe(timeframe) : null;
+      // Each coin's indicators need candles before the range to be warmed up at its start
+      const history = params.range && {
+        start: params.range.start - warmUpSeconds(params, timeframe),
+        end: params.range.end
+      };
+
+      // Coins are fetched one after another so rate-limited providers aren't hit all at once
+      for (const coin of config.coins) {
+        const prices = await getCoinData(coin, providerId, timeframe, history);
+        const intrabarPrices = intrabarTimeframe
+          ? await getCoinData(coin, providerId, intrabarTimeframe, params.range)
+          : undefined;
+        assets.push({ coin, prices, intrabarPrices });
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+      return;
+    } finally {
+      setFetching(false);
+    }
+
+    setResult(await task.run({ params, assets, config }));
+  };
+
+  const totalReturn = result && result.startingBalance > 0 ? (result.finalEquity / result.startingBalance - 1) * 100 : 0;
+
+  return (
+    <div className="p-6 bg-white rounded-lg shadow">
+      <h2 className="flex items-center mb-6 text-lg font-semibold text-gray-900">
+        <Layers className="w-5 h-5 mr-2 text-blue-600" />
+        Portfolio Backtest
+      </h2>
+
+      {!params ? (
+        <div className="text-center text-gray-500">Analyse a trade first, the portfolio reuses its strategy and settings</div>
+      ) : (
+        <div className="space-y-6">
+          {/* Portfolio settings */}
+          <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+            <div>
+              <label className="block text-xs font-medium text-gray-500">Coins</label>
+              <div className="mt-1 space-y-1">
+                {availableCoins.map(coin => (
+                  <div key={coin.id} className="flex items-center gap-2">
+                    <label className="flex items-center flex-1 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={config.coins.includes(coin.id)}
+                        onChange={(e) => toggleCoin(coin.id, e.target.checked)}
+                        className="mr-2 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                      />
+                      {coin.name}
+                    </label>
+                    {config.allocation === 'weights' && config.coins.includes(coin.id) && (
+                      <input
+                        type="number"
+                        title="% of equity per position"
+                        value={config.weights[coin.id] ?? defaultWeight}
+                        onChange={(e) => setConfig({ ...config, weights: { ...config.weights, [coin.id]: parseFloat(e.target.value) || 0 } })}
+                        className="w-20 text-sm border-gray-300 rounded-md shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                        min="0"
+                        max="100"
+                        step="any"
+                      />
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-500">Allocation</label>
+              <select
+                value={config.allocation}
+                onChange={(e) => setConfig({ ...config, allocation: e.target.value as AllocationMode })}
+                className={inputClass}
+              >
+                {ALLOCATIONS.map(a => <option key={a.id} value={a.id}>{a.label}</option>)}
+              </select>
+              {config.allocation === 'risk' && (
+                <>
+                  <label className="block mt-2 text-xs font-medium text-gray-500">Risk per trade %</label>
+                  <input
+                    type="number"
+                    value={config.riskPercent}
+                    onChange={(e) => setConfig({ ...config, riskPercent: parseFloat(e.target.value) || 0 })}
+                    className={inputClass}
+                    min="0"
+                    step="any"
+                  />
+                </>
+              )}
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-500">Max concurrent positions</label>
+              <input
+                type="number"
+                value={config.maxConcurrentPositions}
+                onChange={(e) => setConfig({ ...config, maxConcurrentPositions: parseInt(e.target.value, 10) || 1 })}
+                className={inputClass}
+                min="1"
+              />
+            </div>
+          </div>
+
+          {/* Run / cancel and progress */}
+          <div className="flex items-center gap-4">
+            {task.loading ? (
+              <div className="flex-1">
+                <ProgressBar progress={task.progress} unit="bars" onCancel={task.cancel} />
+              </div>
+            ) : (
+              <button
+                type="button"
+                onClick={handleRun}
+                disabled={fetching || config.coins.length === 0}
+                className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+              >
+                {fetching ? 'Loading candles…' : 'Run Portfolio Backtest'}
+              </button>
+            )}
+            {(error ?? task.error) && <p className="text-sm text-red-600">{error ?? task.error}</p>}
+          </div>
+
+          {/* Results */}
+          {result && !result.success && (
+            <div className="p-4 text-sm text-red-700 rounded-md bg-red-50">{result.message}</div>
+          )}
+          {result?.success && (
+            <div className="space-y-6">
+              <div className="flex flex-wrap items-baseline gap-x-6 gap-y-1 text-sm text-gray-600">
+                <span>Starting balance <b className="text-gray-900">${result.startingBalance.toLocaleString(undefined, { minimumFractionDigits: 2 })}</b></span>
+                <span>Final equity <b className="text-gray-900">${result.finalEquity.toLocaleString(undefined, { minimumFractionDigits: 2 })}</b></span>
+                <span>
+                  Total return{' '}
+                  <b className={totalReturn > 0 ? 'text-green-600' : 'text-red-600'}>{formatPercent(totalReturn)}</b>
+                </span>
+                <span>Most positions open at once <b className="text-gray-900">{result.maxConcurrentUsed}</b></span>
+              </div>
+
+              {result.statistics && result.trades.length > 0 && <BacktestSummary statistics={result.statistics} />}
+
+              <EquityCurveChart title="Portfolio equity" equityCurve={result.equityCurve} />
+
+              {/* Per-coin contribution */}
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      {['Coin', 'Trades', 'Skipped', 'Win Rate', 'Net $', 'Contribution'].map(header => (
+                        <th key={header} className="px-3 py-2 text-xs font-medium tracking-wider text-left text-gray-500 uppercase">
+                          {header}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {result.assets.map(asset => (
+                      <tr key={asset.coin} className="hover:bg-gray-50">
+                        <td className="px-3 py-2 text-sm font-medium text-gray-900">{coinName(asset.coin)}</td>
+                        {asset.message ? (
+                          <td colSpan={5} className="px-3 py-2 text-sm text-red-600">{asset.message}</td>
+                        ) : (
+                          <>
+                            <td className="px-3 py-2 text-sm text-gray-900">{asset.trades}</td>
+                            <td className="px-3 py-2 text-sm text-gray-900">{asset.skippedTrades}</td>
+                            <td className="px-3 py-2 text-sm text-gray-900">{asset.winRate.toFixed(1)}%</td>
+                            <td className={`px-3 py-2 text-sm font-medium ${asset.pnl > 0 ? 'text-green-600' : 'text-red-600'}`}>
+                              {asset.pnl > 0 ? '+' : ''}{Math.round(asset.pnl).toLocaleString()}
+                            </td>
+                            <td className={`px-3 py-2 text-sm font-medium ${asset.contribution > 0 ? 'text-green-600' : 'text-red-600'}`}>
+                              {formatPercent(asset.contribution)}
+                            </td>
+                          </>
+                        )}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PortfolioPanel;
@@ -6,39 +6,114 @@
  *
  * **Features:**
  * - 📈 **Candlestick Chart**: Displays historical price action.
- * - 🔵 **EMA (Exponential Moving Average)**: Helps identify trend direction.
- * - 📊 **Bollinger Bands**: Shows volatility and price deviations.
- * - 🟣 **RSI (Relative Strength Index)**: Measures market momentum.
+ * - 📊 **Indicator Studies**: Any of the studies in `indicatorStudies.ts` (EMA, SMA, WMA,
+ *   Bollinger Bands, VWAP, Ichimoku, Supertrend, RSI, MACD, Stochastic, ADX, ATR, OBV, and
+ *   volume with its moving average), EMA 20, Bollinger Bands, volume and RSI by default.
+ * - 🎯 **Trades**: Entry/exit markers for backtest trades, coloured by result, and price
+ *   lines at the planned entry, take profit and stop loss with their % distance and R:R.
+ *   The level lines can be dragged to move the levels.
+ * - ✏️ **Drawing Tools**: Trendlines, horizontal rays, rectangles and Fibonacci
+ *   retracements, placed by clicking on the chart.
  * - 🏷️ **Crosshair Legend**: Displays real-time values on hover.
  * - 🔄 **Responsive**: Adjusts to window size dynamically.
  *
  * **How It Works:**
  * - Uses `lightweight-charts` for smooth rendering.
- * - Auto-syncs the RSI and main chart time scales.
+ * - Draws price studies over the candles and gives every other study its own pane below,
+ *   with reference levels such as RSI 30/70; warm-up values are left blank.
+ * - Auto-syncs the time scales of the main chart and every study pane.
+ * - Shows the time of day on the axis for intraday timeframes.
  * - Dynamically resizes when the window size changes.
- * - Updates the legend on crosshair movement.
+ * - Updates the legend on crosshair movement over the price chart or any study pane.
+ * - Scrolls to a trade when one is picked in the backtest table.
  */
 
-import React, { useEffect, useRef } from 'react';
-import { createChart, ColorType } from 'lightweight-charts';
-import { OHLCData } from '../types';
-import { calculateEMA, calculateRSI, calculateBollingerBands } from '../services/technicalAnalysis';
+import React, { useEffect, useRef, useState } from 'react';
+import { createChart, ColorType, IChartApi, ISeriesApi, MouseEventParams, SeriesMarker, UTCTimestamp } from 'lightweight-charts';
+import {
+  BacktestTrade,
+  ChartDrawing,
+  ChartPoint,
+  DrawingTool,
+  IndicatorStudy,
+  OHLCData,
+  StudyLine,
+  StudySelection,
+  Timeframe,
+  TradeParams
+} from '../types';
+import { DEFAULT_CHART_STUDIES, getStudy } from '../services/indicatorStudies';
+import { isIntraday, timeframeSeconds } from '../services/timeframes';
+import { DRAWING_TOOLS, createDrawing } from '../services/drawings';
+import DrawingLayer from './DrawingLayer';
 
 interface PriceChartProps {
   data: OHLCData[];
+  timeframe?: Timeframe;
+  studies?: StudySelection[]; // Indicator studies to draw, EMA 20, Bollinger Bands, volume and RSI by default
+  trades?: BacktestTrade[];               // Backtest trades on these candles, drawn as entry/exit markers
+  tradeDirection?: 'long' | 'short';      // Direction of those trades
+  levels?: TradeParams | null;            // Entry, TP and SL of the trade being planned
+  onLevelsChange?: (levels: TradeParams) => void; // Called while a level line is dragged; lines are fixed without it
+  focusedTrade?: BacktestTrade | null;    // Trade to scroll the chart to
+  drawings?: ChartDrawing[];              // Annotations drawn over the candles
+  onDrawingsChange?: (drawings: ChartDrawing[]) => void; // Shows the drawing tools when set
 }
 
-const PriceChart: React.FC<PriceChartProps> = ({ data }) => {
+const MAIN_CHART_HEIGHT = 400;
+const PANE_HEIGHT = 120;
+
+// Level lines that can be dragged, and how close (px) the pointer must be to grab one
+const LEVEL_KEYS = ['entryPrice', 'takeProfit', 'stopLoss'] as const;
+const DRAG_TOLERANCE_PX = 6;
+
+// Formats a signed percentage, e.g. +1.23% / -4.56%
+const formatPercent = (value: number) => `${value > 0 ? '+' : ''}${value.toFixed(2)}%`;
+
+const PriceChart: React.FC<PriceChartProps> = ({
+  data,
+  timeframe = '1d',
+  studies = DEFAULT_CHART_STUDIES,
+  trades,
+  tradeDirection = 'long',
+  levels,
+  onLevelsChange,
+  focusedTrade,
+  drawings = [],
+  onDrawingsChange
+}) => {
   const chartContainerRef = useRef<HTMLDivElement>(null);
-  const rsiContainerRef = useRef<HTMLDivElement>(null);
+  const chartRef = useRef<IChartApi | null>(null);
+  const candleSeriesRef = useRef<ISeriesApi<'Candlestick'> | null>(null);
+  const paneRefs = useRef<(HTMLDivElement | null)[]>([]);
   const legendRef = useRef<HTMLDivElement>(null);
 
+  // The chart for the drawing layer, re-rendered whenever the chart scrolls or zooms
+  const [chartApi, setChartApi] = useState<{ chart: IChartApi; series: ISeriesApi<'Candlestick'> } | null>(null);
+  const [, setViewVersion] = useState(0);
+  const [activeTool, setActiveTool] = useState<DrawingTool | null>(null);
+  const [pendingPoint, setPendingPoint] = useState<ChartPoint | null>(null);
+
+  // Latest props and tool state for the mouse handlers, which live as long as the chart
+  const levelsRef = useRef(levels);
+  const onLevelsChangeRef = useRef(onLevelsChange);
+  const drawingsRef = useRef(drawings);
+  const onDrawingsChangeRef = useRef(onDrawingsChange);
+  const activeToolRef = useRef(activeTool);
+  const pendingPointRef = useRef(pendingPoint);
+  levelsRef.current = levels;
+  onLevelsChangeRef.current = onLevelsChange;
+  drawingsRef.current = drawings;
+  onDrawingsChangeRef.current = onDrawingsChange;
+  activeToolRef.current = activeTool;
+  pendingPointRef.current = pendingPoint;
+
+  const separateStudies = studies.filter(selection => getStudy(selection.id)?.pane === 'separate');
+
   useEffect(() => {
-    if (chartContainerRef.current && rsiContainerRef.current && data.length > 0) {
+    if (chartContainerRef.current && data.length > 0) {
       const container = chartContainerRef.current;
-      const rsiContainer = rsiContainerRef.current;
-      const mainChartHeight = 400;
-      const rsiChartHeight = 120;
+      const timeVisible = isIntraday(timeframe);
 
       const chart = createChart(container, {
         layout: {
@@ -50,9 +125,9 @@ const PriceChart: React.FC<PriceChartProps> = ({ data }) => {
           horzLines: { color: '#E0E0E0' },
         },
         width: container.clientWidth,
-        height: mainChartHeight,
+        height: MAIN_CHART_HEIGHT,
         timeScale: {
-          timeVisible: true,
+          timeVisible,
           secondsVisible: false,
           borderColor: '#D1D5DB',
         },
@@ -83,135 +158,112 @@ const PriceChart: React.FC<PriceChartProps> = ({ data }) => {
         wickDownColor: '#ef5350',
       });
 
+      chartRef.current = chart;
+      candleSeriesRef.current = candlestickSeries;
+      setChartApi({ chart, series: candlestickSeries });
+      chart.timeScale().subscribeVisibleLogicalRangeChange(() => setViewVersion(v => v + 1));
+
       // Set the data
       candlestickSeries.setData(data.map(d => ({
-        time: d.time,
+        time: d.time as UTCTimestamp,
         open: d.open,
         high: d.high,
         low: d.low,
         close: d.close,
       })));
 
-      // Add EMA
-      const prices = data.map(d => d.close);
-      const times = data.map(d => d.time);
-      const ema = calculateEMA(prices, 20);
-      
-      const emaSeries = chart.addLineSeries({
-        color: '#2962FF',
-        lineWidth: 1,
-        title: 'EMA 20',
-      });
+      // Price-pane studies, drawn over the candles
+      const times = data.map(d => d.time as UTCTimestamp);
+      const legendSeries: { name: string; color: string; series: ISeriesApi<'Line' | 'Histogram'> }[] = [];
 
-      emaSeries.setData(ema.map((value, i) => ({
-        time: times[i],
-        value: value
-      })));
+      const addLines = (target: IChartApi, lines: StudyLine[]) => lines.map(line => {
+        const series = line.histogram
+          ? target.addHistogramSeries({ color: line.color, title: line.name })
+          : target.addLineSeries({ color: line.color, lineWidth: 1, title: line.name });
 
-      // Add Bollinger Bands
-      const bb = calculateBollingerBands(prices);
-      
-      const bbUpper = chart.addLineSeries({
-        color: 'rgba(41, 98, 255, 0.2)',
-        lineWidth: 1,
-        title: 'BB Upper',
-      });
-
-      const bbMiddle = chart.addLineSeries({
-        color: 'rgba(41, 98, 255, 0.2)',
-        lineWidth: 1,
-        title: 'BB Middle',
-      });
-
-      const bbLower = chart.addLineSeries({
-        color: 'rgba(41, 98, 255, 0.2)',
-        lineWidth: 1,
-        title: 'BB Lower',
-      });
-
-      bbUpper.setData(bb.upper.map((value, i) => ({ time: times[i], value })));
-      bbMiddle.setData(bb.middle.map((value, i) => ({ time: times[i], value })));
-      bbLower.setData(bb.lower.map((value, i) => ({ time: times[i], value })));
-
-      // Create RSI chart
-      const rsiChart = createChart(rsiContainer, {
-        layout: {
-          background: { type: ColorType.Solid, color: 'white' },
-          textColor: '#333',
-        },
-        grid: {
-          vertLines: { color: '#E0E0E0' },
-          horzLines: { color: '#E0E0E0' },
-        },
-        width: container.clientWidth,
-        height: rsiChartHeight,
-        timeScale: {
-          timeVisible: true,
-          secondsVisible: false,
-          borderColor: '#D1D5DB',
-        },
-        rightPriceScale: {
-          borderColor: '#D1D5DB',
-        },
+        // Warm-up values are left as gaps
+        series.setData(line.values.map((value, i) => {
+          if (!Number.isFinite(value)) return { time: times[i] };
+          return line.histogram
+            ? { time: times[i], value, color: line.barColors?.[i] ?? (value >= 0 ? 'rgba(38, 166, 154, 0.5)' : 'rgba(239, 83, 80, 0.5)') }
+            : { time: times[i], value };
+        }));
+        legendSeries.push({ name: line.name, color: line.color, series });
+        return series;
       });
 
-      // RSI series
-      const rsi = calculateRSI(prices);
-      const rsiSeries = rsiChart.addLineSeries({
-        color: '#7B1FA2',
-        lineWidth: 1,
-        title: 'RSI (14)',
-        priceFormat: {
-          type: 'price',
-          precision: 2,
-          minMove: 0.01,
-        },
-      });
+      const selected = studies
+        .map(selection => ({ selection, study: getStudy(selection.id) }))
+        .filter((entry): entry is { selection: StudySelection; study: IndicatorStudy } => entry.study !== undefined);
 
-      rsiSeries.setData(rsi.map((value, i) => ({
-        time: times[i],
-        value: value
-      })));
+      selected
+        .filter(({ study }) => study.pane === 'price')
+        .forEach(({ selection, study }) => addLines(chart, study.lines(data, selection.params)));
 
-      // RSI overbought/oversold lines
-      const rsiUpper = rsiChart.addLineSeries({
-        color: '#FF5252',
-        lineWidth: 1,
-        lineStyle: 2,
-        title: 'Overbought',
-      });
+      // Separate-pane studies, one chart each below the candles
+      const paneCharts = selected
+        .filter(({ study }) => study.pane === 'separate')
+        .flatMap(({ selection, study }, index) => {
+          const paneContainer = paneRefs.current[index];
+          if (!paneContainer) return [];
 
-      const rsiLower = rsiChart.addLineSeries({
-        color: '#4CAF50',
-        lineWidth: 1,
-        lineStyle: 2,
-        title: 'Oversold',
-      });
+          const paneChart = createChart(paneContainer, {
+            layout: {
+              background: { type: ColorType.Solid, color: 'white' },
+              textColor: '#333',
+            },
+            grid: {
+              vertLines: { color: '#E0E0E0' },
+              horzLines: { color: '#E0E0E0' },
+            },
+            width: container.clientWidth,
+            height: PANE_HEIGHT,
+            timeScale: {
+              timeVisible,
+              secondsVisible: false,
+              borderColor: '#D1D5DB',
+            },
+            rightPriceScale: {
+              borderColor: '#D1D5DB',
+            },
+          });
 
-      rsiUpper.setData(times.map(time => ({ time, value: 70 })));
-      rsiLower.setData(times.map(time => ({ time, value: 30 })));
+          const series = addLines(paneChart, study.lines(data, selection.params));
+          const levelSeries = series[0];
+          study.levels?.forEach(price => levelSeries?.createPriceLine({
+            price,
+            color: '#9CA3AF',
+            lineWidth: 1,
+            lineStyle: 2,
+            axisLabelVisible: true,
+            title: '',
+          }));
 
-      // Sync the time scales
-      chart.timeScale().subscribeVisibleTimeRangeChange(() => {
-        const timeRange = chart.timeScale().getVisibleRange();
-        if (timeRange) {
-          rsiChart.timeScale().setVisibleRange(timeRange);
-        }
-      });
+          return [paneChart];
+        });
 
-      rsiChart.timeScale().subscribeVisibleTimeRangeChange(() => {
-        const timeRange = rsiChart.timeScale().getVisibleRange();
-        if (timeRange) {
-          chart.timeScale().setVisibleRange(timeRange);
-        }
+      // Sync the time scales; the flag stops the charts from echoing each other's changes
+      let syncing = false;
+      const charts = [chart, ...paneCharts];
+      charts.forEach(source => {
+        source.timeScale().subscribeVisibleTimeRangeChange(() => {
+          const timeRange = source.timeScale().getVisibleRange();
+          if (!timeRange || syncing) return;
+          syncing = true;
+          charts.filter(target => target !== source).forEach(target => target.timeScale().setVisibleRange(timeRange));
+          syncing = false;
+        });
       });
 
-      // Add legend
-      chart.subscribeCrosshairMove(param => {
-        if (param.time && legendRef.current) {
-          const candleData = param.seriesData.get(candlestickSeries) as { open: number; high: number; low: number; close: number } | undefined;
-          const emaValue = param.seriesData.get(emaSeries) as { value: number } | undefined;
-          const rsiValue = param.seriesData.get(rsiSeries) as { value: number } | undefined;
+      // Add legend. Every chart reports its crosshair, and all series share the candles'
+      // time axis, so the hovered bar's index reads the candle and the pane studies too
+      const updateLegend = (param: MouseEventParams) => {
+        if (param.time && param.logical !== undefined && legendRef.current) {
+          const index = param.logical;
+          const candleData = candlestickSeries.dataByIndex(index) as { open: number; high: number; low: number; close: number } | null;
+          const values = legendSeries
+            .map(({ name, color, series }) => ({ name, color, value: (series.dataByIndex(index) as { value?: number } | null)?.value }))
+            .filter(entry => entry.value !== undefined);
 
           legendRef.current.innerHTML = `
             <div class="flex flex-wrap gap-4 text-sm">
@@ -223,30 +275,25 @@ const PriceChart: React.FC<PriceChartProps> = ({ data }) => {
                   <span class="text-gray-500">C:</span> ${candleData.close.toFixed(2)}
                 </span>
               ` : ''}
-              ${emaValue ? `
-                <span class="text-blue-600 font-medium">
-                  EMA: ${emaValue.value.toFixed(2)}
+              ${values.map(({ name, color, value }) => `
+                <span class="font-medium" style="color: ${color}">
+                  ${name}: ${value!.toFixed(2)}
                 </span>
-              ` : ''}
-              ${rsiValue ? `
-                <span class="text-purple-600 font-medium">
-                  RSI: ${rsiValue.value.toFixed(2)}
-                </span>
-              ` : ''}
+              `).join('')}
             </div>
           `;
         }
-      });
+      };
+      charts.forEach(c => c.subscribeCrosshairMove(updateLegend));
 
       // Fit content
-      chart.timeScale().fitContent();
-      rsiChart.timeScale().fitContent();
+      charts.forEach(c => c.timeScale().fitContent());
 
       const handleResize = () => {
         if (container) {
           const width = container.clientWidth;
-          chart.applyOptions({ width });
-          rsiChart.applyOptions({ width });
+          charts.forEach(c => c.applyOptions({ width }));
+          setViewVersion(v => v + 1);
         }
       };
 
@@ -254,11 +301,181 @@ const PriceChart: React.FC<PriceChartProps> = ({ data }) => {
 
       return () => {
         window.removeEventListener('resize', handleResize);
-        chart.remove();
-        rsiChart.remove();
+        chartRef.current = null;
+        candleSeriesRef.current = null;
+        setChartApi(null);
+        charts.forEach(c => c.remove());
       };
     }
-  }, [data]);
+  }, [data, timeframe, studies]);
+
+  // Entry and exit markers of the backtest's trades, green for winners and red for losers
+  useEffect(() => {
+    const series = candleSeriesRef.current;
+    if (!series) return;
+
+    const times = new Set(data.map(d => d.time));
+    const long = tradeDirection === 'long';
+    const markers: SeriesMarker<UTCTimestamp>[] = (trades ?? [])
+      .filter(trade => times.has(trade.entry_time) && times.has(trade.exit_time))
+      .flatMap(trade => {
+        const color = trade.profit_loss > 0 ? '#16a34a' : '#dc2626';
+        const entry: SeriesMarker<UTCTimestamp> = {
+          time: trade.entry_time as UTCTimestamp,
+          position: long ? 'belowBar' : 'aboveBar',
+          shape: long ? 'arrowUp' : 'arrowDown',
+          color,
+          text: long ? 'Buy' : 'Sell'
+        };
+        const exit: SeriesMarker<UTCTimestamp> = {
+          time: trade.exit_time as UTCTimestamp,
+          position: long ? 'aboveBar' : 'belowBar',
+          shape: 'circle',
+          color,
+          text: `${trade.profit_loss > 0 ? '+' : ''}${trade.profit_loss.toFixed(1)}%`
+        };
+        return [entry, exit];
+      })
+      .sort((a, b) => a.time - b.time);
+
+    series.setMarkers(markers);
+  }, [data, timeframe, studies, trades, tradeDirection]);
+
+  // Horizontal lines at the planned entry, take profit and stop loss, with their distance
+  // from the entry and the reward/risk ratio
+  useEffect(() => {
+    const series = candleSeriesRef.current;
+    if (!series || !levels) return;
+
+    const { entryPrice, takeProfit, stopLoss } = levels;
+    const distance = (price: number) => entryPrice > 0 ? formatPercent((price - entryPrice) / entryPrice * 100) : '';
+    const risk = Math.abs(entryPrice - stopLoss);
+    const rewardRisk = risk > 0 ? Math.abs(takeProfit - entryPrice) / risk : 0;
+
+    const lines = [
+      { price: entryPrice, color: '#2563EB', title: `Entry · R:R ${rewardRisk.toFixed(2)}` },
+      { price: takeProfit, color: '#16a34a', title: `TP ${distance(takeProfit)}` },
+      { price: stopLoss, color: '#dc2626', title: `SL ${distance(stopLoss)}` }
+    ]
+      .filter(line => line.price > 0)
+      .map(line => series.createPriceLine({ ...line, lineWidth: 1, lineStyle: 2, axisLabelVisible: true }));
+
+    return () => {
+      // The lines went with the chart if it was rebuilt
+      if (candleSeriesRef.current === series) lines.forEach(line => series.removePriceLine(line));
+    };
+  }, [data, timeframe, studies, levels]);
+
+  // Dragging the entry, TP or SL line moves that level, like a position tool
+  useEffect(() => {
+    const container = chartContainerRef.current;
+    const chart = chartRef.current;
+    const series = candleSeriesRef.current;
+    if (!container || !chart || !series) return;
+
+    let dragging: typeof LEVEL_KEYS[number] | null = null;
+    const pointerY = (event: MouseEvent) => event.clientY - container.getBoundingClientRect().top;
+
+    // Level whose line is within a few pixels of the pointer
+    const levelAt = (event: MouseEvent) => {
+      const current = levelsRef.current;
+      if (!current || !onLevelsChangeRef.current) return null;
+      const y = pointerY(event);
+      return LEVEL_KEYS.find(key => {
+        const coordinate = series.priceToCoordinate(current[key]);
+        return coordinate !== null && Math.abs(coordinate - y) <= DRAG_TOLERANCE_PX;
+      }) ?? null;
+    };
+
+    // Captured before the chart sees it, so grabbing a line doesn't pan the chart
+    const handleMouseDown = (event: MouseEvent) => {
+      if (activeToolRef.current) return;
+      dragging = levelAt(event);
+      if (!dragging) return;
+      event.stopPropagation();
+      event.preventDefault();
+      chart.applyOptions({ handleScroll: false, handleScale: false });
+    };
+
+    const handleMouseMove = (event: MouseEvent) => {
+      if (!dragging) {
+        const overLine = container.contains(event.target as Node) && levelAt(event) !== null;
+        container.style.cursor = activeToolRef.current ? 'crosshair' : overLine ? 'ns-resize' : '';
+        return;
+      }
+
+      const price = series.coordinateToPrice(pointerY(event));
+      const current = levelsRef.current;
+      if (price === null || price <= 0 || !current) return;
+      onLevelsChangeRef.current?.({ ...current, [dragging]: price });
+    };
+
+    const handleMouseUp = () => {
+      if (!dragging) return;
+      dragging = null;
+      chart.applyOptions({ handleScroll: true, handleScale: true });
+    };
+
+    container.addEventListener('mousedown', handleMouseDown, true);
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp);
+
+    return () => {
+      container.removeEventListener('mousedown', handleMouseDown, true);
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+    };
+  }, [data, timeframe, studies]);
+
+  // Clicks place the points of the active drawing tool
+  useEffect(() => {
+    const container = chartContainerRef.current;
+    const chart = chartRef.current;
+    const series = candleSeriesRef.current;
+    if (!container || !chart || !series) return;
+
+    const handleClick = (event: MouseEvent) => {
+      const tool = DRAWING_TOOLS.find(t => t.id === activeToolRef.current);
+      if (!tool) return;
+
+      const bounds = container.getBoundingClientRect();
+      const time = chart.timeScale().coordinateToTime(event.clientX - bounds.left);
+      const price = series.coordinateToPrice(event.clientY - bounds.top);
+      if (time === null || price === null) return;
+
+      const point = { time: time as UTCTimestamp, price };
+      const points = pendingPointRef.current ? [pendingPointRef.current, point] : [point];
+      if (points.length < tool.points) {
+        setPendingPoint(point);
+        return;
+      }
+
+      onDrawingsChangeRef.current?.([...drawingsRef.current, createDrawing(tool.id, points)]);
+      setPendingPoint(null);
+      setActiveTool(null);
+    };
+
+    container.addEventListener('click', handleClick);
+    return () => container.removeEventListener('click', handleClick);
+  }, [data, timeframe, studies]);
+
+  const toggleTool = (tool: DrawingTool) => {
+    setActiveTool(activeTool === tool ? null : tool);
+    setPendingPoint(null);
+  };
+
+  // Scrolls the chart to the focused trade, with some candles either side
+  useEffect(() => {
+    const chart = chartRef.current;
+    if (!chart || !focusedTrade) return;
+
+    const padding = Math.max(10 * timeframeSeconds(timeframe), (focusedTrade.exit_time - focusedTrade.entry_time) / 2);
+    chart.timeScale().setVisibleRange({
+      from: (focusedTrade.entry_time - padding) as UTCTimestamp,
+      to: (focusedTrade.exit_time + padding) as UTCTimestamp
+    });
+    chartContainerRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [focusedTrade, timeframe]);
 
   if (!data.length) {
     return (
@@ -272,9 +489,59 @@ const PriceChart: React.FC<PriceChartProps> = ({ data }) => {
     <div className="flex flex-col gap-1">
       <div className="relative">
         <div ref={legendRef} className="absolute z-10 p-2 rounded shadow-sm top-2 right-2 bg-white/90" />
-        <div ref={chartContainerRef} className="w-full" style={{ height: '400px' }} />
+        <div ref={chartContainerRef} className="w-full" style={{ height: `${MAIN_CHART_HEIGHT}px` }} />
+        {chartApi && (
+          <DrawingLayer
+            chart={chartApi.chart}
+            series={chartApi.series}
+            drawings={drawings}
+            pendingPoint={pendingPoint}
+            height={MAIN_CHART_HEIGHT}
+          />
+        )}
+
+        {/* Drawing tools */}
+        {onDrawingsChange && (
+          <div className="absolute z-10 flex gap-1 p-1 rounded shadow-sm top-2 left-2 bg-white/90">
+            {DRAWING_TOOLS.map(tool => (
+              <button
+                key={tool.id}
+                type="button"
+                onClick={() => toggleTool(tool.id)}
+                className={`px-2 py-1 text-xs font-medium rounded transition-colors ${
+                  activeTool === tool.id ? 'bg-blue-600 text-white' : 'text-gray-700 hover:bg-gray-100'
+                }`}
+              >
+                {tool.label}
+              </button>
+            ))}
+            <button
+              type="button"
+              onClick={() => onDrawingsChange(drawings.slice(0, -1))}
+              disabled={drawings.length === 0}
+              className="px-2 py-1 text-xs font-medium text-gray-700 rounded hover:bg-gray-100 disabled:opacity-50"
+            >
+              Undo
+            </button>
+            <button
+              type="button"
+              onClick={() => onDrawingsChange([])}
+              disabled={drawings.length === 0}
+              className="px-2 py-1 text-xs font-medium text-red-600 rounded hover:bg-red-50 disabled:opacity-50"
+            >
+              Clear
+            </button>
+          </div>
+        )}
       </div>
-      <div ref={rsiContainerRef} className="w-full" style={{ height: '120px' }} />
+      {separateStudies.map((selection, index) => (
+        <div
+          key={`${selection.id}-${index}`}
+          ref={el => { paneRefs.current[index] = el; }}
+          className="w-full"
+          style={{ height: `${PANE_HEIGHT}px` }}
+        />
+      ))}
     </div>
   );
 };
@@ -0,0 +1,40 @@
+/**
+ * ProgressBar.tsx
+ *
+ * This component shows the progress of a running worker task with a cancel button.
+ *
+ * - The bar fills as `done / total`; before the first report it shows "…" for the total.
+ * - `unit` names what is being counted, e.g. "bars" or "backtests".
+ */
+
+import React from 'react';
+import { TaskProgress } from '../hooks/useWorkerTask';
+
+interface ProgressBarProps {
+  progress: TaskProgress | null;
+  unit: string;
+  onCancel: () => void;
+}
+
+const ProgressBar: React.FC<ProgressBarProps> = ({ progress, unit, onCancel }) => (
+  <div className="flex items-center gap-4">
+    <button
+      type="button"
+      onClick={onCancel}
+      className="px-4 py-2 text-sm font-medium text-white bg-red-600 rounded-md hover:bg-red-700"
+    >
+      Cancel
+    </button>
+    <div className="flex-1">
+      <div className="h-2 overflow-hidden bg-gray-200 rounded-full">
+        <div
+          className="h-full bg-blue-600 transition-all"
+          style={{ width: `${progress?.total ? (progress.done / progress.total) * 100 : 0}%` }}
+        />
+      </div>
+      <p className="mt-1 text-xs text-gray-500">{progress?.done ?? 0} / {progress?.total || '…'} {unit}</p>
+    </div>
+  </div>
+);
+
+export default ProgressBar;
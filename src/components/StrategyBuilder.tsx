@@ -0,0 +1,412 @@
+/**
+ * StrategyBuilder.tsx
+ *
+ * This component lets users compose a backtest strategy without writing code.
+ *
+ * Features:
+ * - Entry conditions (all must hold) and exit conditions (any closes the trade),
+ *   each comparing an indicator from the catalogue with another indicator or a value,
+ *   e.g. "RSI(14) < 30" and "Close > EMA(50)".
+ * - Extra exits: a percentage or ATR trailing stop, a break-even stop, a maximum
+ *   holding period in bars and partial take-profits at several gains.
+ * - Pyramiding and the number of positions allowed at once.
+ * - Live validation against the indicator catalogue.
+ * - The strategy as JSON, so it can be copied, saved and loaded back.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Plus, Trash2, Workflow } from 'lucide-react';
+import {
+  ConditionOperator,
+  IndicatorId,
+  PartialTakeProfit,
+  RuleOperand,
+  Strategy,
+  StrategyExits,
+  StrategyRule
+} from '../types';
+import { getIndicatorSpec, INDICATOR_CATALOGUE } from '../services/technicalAnalysis';
+import { describeRule, validateStrategy } from '../services/strategy';
+
+interface StrategyBuilderProps {
+  strategy: Strategy; // Strategy being edited
+  onChange: (strategy: Strategy) => void; // Function to handle strategy changes
+}
+
+const OPERATORS: { id: ConditionOperator; label: string }[] = [
+  { id: 'above', label: '>' },
+  { id: 'below', label: '<' },
+  { id: 'crosses_above', label: 'crosses above' },
+  { id: 'crosses_below', label: 'crosses below' }
+];
+
+// Condition added by the "Add condition" buttons
+const NEW_CONDITION: StrategyRule = {
+  type: 'condition',
+  left: { kind: 'indicator', id: 'rsi', params: [14] },
+  operator: 'below',
+  right: { kind: 'value', value: 30 }
+};
+
+const inputClass = 'text-sm border-gray-300 rounded-md shadow-sm focus:border-blue-500 focus:ring-blue-500';
+
+/**
+ * Picks an indicator (with its parameters) or a constant value.
+ */
+const OperandEditor: React.FC<{
+  operand: RuleOperand;
+  onChange: (operand: RuleOperand) => void;
+}> = ({ operand, onChange }) => {
+  const spec = operand.kind === 'indicator' ? getIndicatorSpec(operand.id) : undefined;
+
+  return (
+    <div className="flex items-center gap-1">
+      <select
+        value={operand.kind === 'value' ? 'value' : operand.id}
+        onChange={(e) => {
+          if (e.target.value === 'value') {
+            onChange({ kind: 'value', value: 0 });
+            return;
+          }
+          // Switching indicator starts from its default parameters
+          const next = getIndicatorSpec(e.target.value as IndicatorId)!;
+          onChange({ kind: 'indicator', id: next.id, params: next.params.map(param => param.defaultValue) });
+        }}
+        className={inputClass}
+      >
+        {INDICATOR_CATALOGUE.map(indicator => (
+          <option key={indicator.id} value={indicator.id}>{indicator.label}</option>
+        ))}
+        <option value="value">Value</option>
+      </select>
+
+      {operand.kind === 'value' ? (
+        <input
+          type="number"
+          value={operand.value}
+          onChange={(e) => onChange({ kind: 'value', value: parseFloat(e.target.value) })}
+          className={`w-24 ${inputClass}`}
+          step="any"
+        />
+      ) : (
+        spec?.params.map((param, index) => (
+          <input
+            key={param.name}
+            type="number"
+            title={param.name}
+            value={operand.params[index] ?? param.defaultValue}
+            onChange={(e) => {
+              const params = [...operand.params];
+              params[index] = parseFloat(e.target.value);
+              onChange({ ...operand, params });
+            }}
+            className={`w-20 ${inputClass}`}
+            min={param.min}
+            max={param.max}
+            step={param.integer ? 1 : 0.1}
+          />
+        ))
+      )}
+    </div>
+  );
+};
+
+/**
+ * A checkbox that turns a numeric exit setting on (with `defaultValue`) or off (`null`).
+ */
+const OptionalNumber: React.FC<{
+  label: string;
+  value: number | null;
+  defaultValue: number;
+  step: string;
+  onChange: (value: number | null) => void;
+  children?: React.ReactNode;
+}> = ({ label, value, defaultValue, step, onChange, children }) => (
+  <div className="flex items-center gap-2">
+    <label className="inline-flex items-center w-44 text-sm text-gray-700">
+      <input
+        type="checkbox"
+        checked={value !== null}
+        onChange={(e) => onChange(e.target.checked ? defaultValue : null)}
+        className="mr-2 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+      />
+      {label}
+    </label>
+    {value !== null && (
+      <input
+        type="number"
+        value={value}
+        onChange={(e) => onChange(parseFloat(e.target.value))}
+        className={`w-24 ${inputClass}`}
+        min="0"
+        step={step}
+      />
+    )}
+    {children}
+  </div>
+);
+
+/**
+ * Edits one list of rules. Conditions are editable, the fixed rule types of the
+ * presets are shown as text and can only be removed.
+ */
+const RuleList: React.FC<{
+  title: string;
+  hint: string;
+  rules: StrategyRule[];
+  onChange: (rules: StrategyRule[]) => void;
+}> = ({ title, hint, rules, onChange }) => {
+  const updateRule = (index: number, rule: StrategyRule) =>
+    onChange(rules.map((existing, i) => i === index ? rule : existing));
+
+  return (
+    <div>
+      <div className="flex items-baseline justify-between mb-2">
+        <label className="text-sm font-medium text-gray-700">{title}</label>
+        <span className="text-xs text-gray-500">{hint}</span>
+      </div>
+
+      <div className="space-y-2">
+        {rules.map((rule, index) => (
+          <div key={index} className="flex flex-wrap items-center gap-2 p-2 rounded-md bg-gray-50">
+            {rule.type === 'condition' ? (
+              <>
+                <OperandEditor operand={rule.left} onChange={(left) => updateRule(index, { ...rule, left })} />
+                <select
+                  value={rule.operator}
+                  onChange={(e) => updateRule(index, { ...rule, operator: e.target.value as ConditionOperator })}
+                  className={inputClass}
+                >
+                  {OPERATORS.map(operator => (
+                    <option key={operator.id} value={operator.id}>{operator.label}</option>
+                  ))}
+                </select>
+                <OperandEditor operand={rule.right} onChange={(right) => updateRule(index, { ...rule, right })} />
+              </>
+            ) : (
+              <span className="text-sm text-gray-700">{describeRule(rule)}</span>
+            )}
+            <button
+              type="button"
+              onClick={() => onChange(rules.filter((_, i) => i !== index))}
+              className="p-1 ml-auto text-gray-400 rounded hover:text-red-600"
+              title="Remove condition"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <button
+        type="button"
+        onClick={() => onChange([...rules, NEW_CONDITION])}
+        className="inline-flex items-center px-2 py-1 mt-2 text-xs font-medium text-blue-700 rounded bg-blue-50 hover:bg-blue-100"
+      >
+        <Plus className="w-3 h-3 mr-1" />
+        Add condition
+      </button>
+    </div>
+  );
+};
+
+/**
+ * StrategyBuilder Component
+ *
+ * - Calls `onChange` with the full updated strategy on every edit.
+ */
+const StrategyBuilder: React.FC<StrategyBuilderProps> = ({ strategy, onChange }) => {
+  const [json, setJson] = useState('');
+  const [jsonError, setJsonError] = useState<string | null>(null);
+  const errors = validateStrategy(strategy);
+  const {
+    trailingStop = null,
+    breakEvenAt = null,
+    maxHoldingBars = null,
+    partialTakeProfits = []
+  } = strategy.exits;
+
+  // Updates one or more exit settings
+  const setExits = (changes: Partial<StrategyExits>) =>
+    onChange({ ...strategy, exits: { ...strategy.exits, ...changes } });
+
+  const updatePartial = (index: number, partial: PartialTakeProfit) =>
+    setExits({ partialTakeProfits: partialTakeProfits.map((existing, i) => i === index ? partial : existing) });
+
+  // Keep the JSON view in step with the strategy
+  useEffect(() => {
+    setJson(JSON.stringify(strategy, null, 2));
+    setJsonError(null);
+  }, [strategy]);
+
+  // Replaces the strategy with the JSON typed or pasted by the user
+  const applyJson = () => {
+    try {
+      const parsed = JSON.parse(json) as Strategy;
+      if (!Array.isArray(parsed.entryRules) || !Array.isArray(parsed.exitRules) || !parsed.exits) {
+        throw new Error('Expected entryRules, exitRules and exits');
+      }
+      onChange(parsed);
+    } catch (error) {
+      setJsonError(error instanceof Error ? error.message : 'Invalid JSON');
+    }
+  };
+
+  return (
+    <div className="p-6 bg-white rounded-lg shadow">
+      <h2 className="flex items-center mb-6 text-lg font-semibold text-gray-900">
+        <Workflow className="w-5 h-5 mr-2 text-blue-600" />
+        Strategy Builder
+      </h2>
+
+      <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+        <div className="space-y-6">
+          {/* Strategy name */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Name</label>
+            <input
+              type="text"
+              value={strategy.name}
+              onChange={(e) => onChange({ ...strategy, name: e.target.value })}
+              className={`block w-full mt-1 ${inputClass}`}
+            />
+          </div>
+
+          <RuleList
+            title="Enter when"
+            hint="all conditions hold on a bar's close"
+            rules={strategy.entryRules}
+            onChange={(entryRules) => onChange({ ...strategy, entryRules })}
+          />
+
+          <RuleList
+            title="Exit early when"
+            hint="any condition holds on a bar's close"
+            rules={strategy.exitRules}
+            onChange={(exitRules) => onChange({ ...strategy, exitRules })}
+          />
+        </div>
+
+        <div className="space-y-6">
+          {/* Extra exits */}
+          <div className="space-y-3">
+            <label className="block text-sm font-medium text-gray-700">Also exit on</label>
+            <OptionalNumber
+              label="Trailing stop"
+              value={trailingStop?.distance ?? null}
+              defaultValue={5}
+              step="0.5"
+              onChange={(distance) => setExits({
+                trailingStop: distance === null ? null : { mode: trailingStop?.mode ?? 'percent', distance }
+              })}
+            >
+              {trailingStop && (
+                <select
+                  value={trailingStop.mode}
+                  onChange={(e) => setExits({ trailingStop: { ...trailingStop, mode: e.target.value as 'percent' | 'atr' } })}
+                  className={inputClass}
+                >
+                  <option value="percent">%</option>
+                  <option value="atr">× ATR</option>
+                </select>
+              )}
+            </OptionalNumber>
+            <OptionalNumber
+              label="Break-even after +%"
+              value={breakEvenAt}
+              defaultValue={3}
+              step="0.5"
+              onChange={(value) => setExits({ breakEvenAt: value })}
+            />
+            <OptionalNumber
+              label="After N bars"
+              value={maxHoldingBars}
+              defaultValue={10}
+              step="1"
+              onChange={(value) => setExits({ maxHoldingBars: value })}
+            />
+          </div>
+
+          {/* Partial take-profits */}
+          <div>
+            <label className="block mb-2 text-sm font-medium text-gray-700">Partial take-profits</label>
+            <div className="space-y-2">
+              {partialTakeProfits.map((partial, index) => (
+                <div key={index} className="flex items-center gap-2 text-sm text-gray-700">
+                  Close
+                  <input
+                    type="number"
+                    value={partial.fraction}
+                    onChange={(e) => updatePartial(index, { ...partial, fraction: parseFloat(e.target.value) })}
+                    className={`w-20 ${inputClass}`}
+                    min="0"
+                    max="100"
+                    step="5"
+                  />
+                  % at +
+                  <input
+                    type="number"
+                    value={partial.gain}
+                    onChange={(e) => updatePartial(index, { ...partial, gain: parseFloat(e.target.value) })}
+                    className={`w-20 ${inputClass}`}
+                    min="0"
+                    step="0.5"
+                  />
+                  %
+                  <button
+                    type="button"
+                    onClick={() => setExits({ partialTakeProfits: partialTakeProfits.filter((_, i) => i !== index) })}
+                    className="p-1 ml-auto text-gray-400 rounded hover:text-red-600"
+                    title="Remove partial take-profit"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+            <button
+              type="button"
+              onClick={() => setExits({ partialTakeProfits: [...partialTakeProfits, { gain: 5, fraction: 50 }] })}
+              className="inline-flex items-center px-2 py-1 mt-2 text-xs font-medium text-blue-700 rounded bg-blue-50 hover:bg-blue-100"
+            >
+              <Plus className="w-3 h-3 mr-1" />
+              Add partial take-profit
+            </button>
+          </div>
+
+          {/* Validation against the indicator catalogue */}
+          {errors.length > 0 ? (
+            <ul className="p-3 space-y-1 text-sm text-red-700 rounded-md bg-red-50">
+              {errors.map(error => <li key={error}>{error}</li>)}
+            </ul>
+          ) : (
+            <p className="p-3 text-sm text-green-700 rounded-md bg-green-50">
+              Strategy is valid and will be used by the next backtest.
+            </p>
+          )}
+
+          {/* Serialized definition */}
+          <details>
+            <summary className="text-sm font-medium text-gray-700 cursor-pointer">Definition (JSON)</summary>
+            <textarea
+              value={json}
+              onChange={(e) => setJson(e.target.value)}
+              className={`block w-full h-48 mt-2 font-mono text-xs ${inputClass}`}
+              spellCheck={false}
+            />
+            {jsonError && <p className="mt-1 text-xs text-red-600">{jsonError}</p>}
+            <button
+              type="button"
+              onClick={applyJson}
+              className="px-2 py-1 mt-2 text-xs font-medium text-blue-700 rounded bg-blue-50 hover:bg-blue-100"
+            >
+              Load JSON
+            </button>
+          </details>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StrategyBuilder;
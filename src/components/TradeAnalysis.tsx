@@ -69,6 +69,28 @@ const TradeAnalysisComponent: React.FC<TradeAnalysisProps> = ({ analysis }) => {
           ))}
         </div>
 
+        {/* Indicator Confirmations */}
+        {analysis.confirmations && analysis.confirmations.length > 0 && (
+          <div className="mt-6 space-y-2 text-left">
+            <h3 className="text-sm font-medium text-center text-gray-700">
+              Indicator Confirmations ({analysis.confirmationScore?.toFixed(0)}%)
+            </h3>
+            {analysis.confirmations.map(confirmation => (
+              <div key={confirmation.id} className="flex items-start justify-between gap-4 text-sm">
+                <span>
+                  <span className="font-medium text-gray-700">{confirmation.label}</span>
+                  <span className="ml-2 text-gray-500">{confirmation.explanation}</span>
+                </span>
+                <span className={`font-semibold ${
+                  confirmation.score >= 60 ? 'text-green-600' : confirmation.score >= 40 ? 'text-yellow-600' : 'text-red-600'
+                }`}>
+                  {confirmation.score.toFixed(0)}%
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+
         {/* Explanation */}
         <p className="mt-2 text-sm text-gray-600">{analysis.explanations.probabilities}</p>
       </div>
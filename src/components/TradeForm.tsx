@@ -6,18 +6,22 @@
  *
  * Features:
  * - Allows users to select trade direction (Long or Short).
- * - Adjusts TP/SL based on pre-defined percentage buttons.
+ * - Adjusts TP/SL based on pre-defined percentage buttons, or to levels drawn on the chart.
  * - Automatically updates TP/SL when the current price changes.
- * - Submits the trade analysis for evaluation.
+ * - Stays in sync with levels set outside the form, e.g. dragged on the chart.
+ * - Reports the levels as they are edited and submits the trade analysis for evaluation.
  */
 
-import React, { useState, useEffect } from 'react';
-import { TradeParams } from '../types';
+import React, { useState, useEffect, useRef } from 'react';
+import { PriceLevel, TradeParams } from '../types';
 import { ArrowUpCircle, ArrowDownCircle } from 'lucide-react';
 
 // Define the expected props for the component
 interface TradeFormProps {
   onSubmit: (params: TradeParams) => void;
+  onChange?: (params: TradeParams) => void; // Called whenever a level or the direction changes
+  levels?: TradeParams | null;              // Levels set elsewhere, e.g. dragged on the chart
+  candidateLevels?: PriceLevel[];           // Prices marked on the chart, offered as TP/SL
   currentPrice: number;
 }
 
@@ -28,6 +32,9 @@ type TradeDirection = 'long' | 'short';
 const TAKE_PROFIT_PERCENTAGES = [10, 20];
 const STOP_LOSS_PERCENTAGES = [5, 10];
 
+// Chart levels offered on each side of the entry, nearest first
+const MAX_CANDIDATES = 3;
+
 /**
  * TradeForm Component
  *
@@ -36,7 +43,7 @@ const STOP_LOSS_PERCENTAGES = [5, 10];
  * - Offers quick percentage-based TP/SL selection.
  * - Calls `onSubmit` when the form is submitted.
  */
-const TradeForm: React.FC<TradeFormProps> = ({ onSubmit, currentPrice }) => {
+const TradeForm: React.FC<TradeFormProps> = ({ onSubmit, onChange, levels, candidateLevels = [], currentPrice }) => {
   const [direction, setDirection] = useState<TradeDirection>('long');
   const [activeTpPercentage, setActiveTpPercentage] = useState<number | null>(null);
   const [activeSlPercentage, setActiveSlPercentage] = useState<number | null>(null);
@@ -67,6 +74,22 @@ const TradeForm: React.FC<TradeFormProps> = ({ onSubmit, currentPrice }) => {
     }
   }, [currentPrice, direction]);
 
+  // Report the levels as they change, e.g. for the chart's price lines
+  const reportedRef = useRef<TradeParams | null>(null);
+  useEffect(() => {
+    reportedRef.current = params;
+    onChange?.(params);
+  }, [params, onChange]);
+
+  // Take over levels that were changed outside the form; the presets no longer apply
+  useEffect(() => {
+    if (levels && levels !== reportedRef.current) {
+      setParams(levels);
+      setActiveTpPercentage(null);
+      setActiveSlPercentage(null);
+    }
+  }, [levels]);
+
   // Handles form submission by preventing the default form behavior 
 // and passing the updated trade parameters to the parent component
 const handleSubmit = (e: React.FormEvent) => {
@@ -147,6 +170,36 @@ const handleStopLossPercentage = (percentage: number) => {
 };
 
 
+  // Chart levels on the profit and on the loss side of the entry
+  const nearestLevels = (profitSide: boolean) => {
+    // Longs profit above the entry, shorts below it
+    const above = profitSide === (direction === 'long');
+    return candidateLevels
+      .filter(level => above ? level.price > params.entryPrice : level.price < params.entryPrice)
+      .sort((a, b) => Math.abs(a.price - params.entryPrice) - Math.abs(b.price - params.entryPrice))
+      .slice(0, MAX_CANDIDATES);
+  };
+
+  const renderCandidates = (profitSide: boolean) => (
+    <div className="flex flex-wrap gap-1 mt-1">
+      {nearestLevels(profitSide).map(level => (
+        <button
+          key={`${level.label}-${level.price}`}
+          type="button"
+          title={`${level.label} from the chart`}
+          onClick={() => {
+            setParams(prev => ({ ...prev, [profitSide ? 'takeProfit' : 'stopLoss']: level.price }));
+            if (profitSide) setActiveTpPercentage(null);
+            else setActiveSlPercentage(null);
+          }}
+          className="px-2 py-0.5 text-xs font-medium text-purple-700 rounded bg-purple-50 hover:bg-purple-100"
+        >
+          {level.price.toFixed(2)}
+        </button>
+      ))}
+    </div>
+  );
+
   return (
     <form onSubmit={handleSubmit} className="space-y-4">
       {/* Toggle switch for trade direction (Long/Short) */}
@@ -227,6 +280,7 @@ const handleStopLossPercentage = (percentage: number) => {
               </button>
             ))}
           </div>
+          {renderCandidates(true)}
         </div>
         
         <div>
@@ -260,6 +314,7 @@ const handleStopLossPercentage = (percentage: number) => {
               </button>
             ))}
           </div>
+          {renderCandidates(false)}
         </div>
       </div>
 
@@ -5,17 +5,30 @@
  * 
  * Features:
  * - Allows selection of a coin from an available list.
- * - Handles changes via a callback function.
+ * - Allows selection of the market-data provider the candles come from.
+ * - Allows selection of the candle timeframe (1H / 4H / 1D / 1W).
+ * - Offers a file picker when the local-file provider is selected, with the size of the last import.
+ * - Handles changes via callback functions.
  * - Displays a loading message if no coins are available.
  */
 
 import React from 'react';
+import { Upload } from 'lucide-react';
+import { TIMEFRAMES } from '../services/timeframes';
+import { MarketDataProviderId, Timeframe } from '../types';
 
 // Define the props expected by the component
 interface TradeSelectorProps {
   selectedCoin: string; // Currently selected coin ID
   onCoinChange: (coinId: string) => void; // Function to handle coin selection changes
   availableCoins?: { id: string; name: string }[]; // List of available coins (optional to prevent errors)
+  selectedProvider?: MarketDataProviderId; // Currently selected market-data provider
+  onProviderChange?: (providerId: MarketDataProviderId) => void; // Function to handle provider changes
+  availableProviders?: { id: MarketDataProviderId; name: string }[]; // List of providers to choose from
+  onImportFile?: (file: File) => void; // Function to handle a file picked for the local provider
+  importedCount?: number | null; // Number of candles in the last imported file
+  selectedTimeframe?: Timeframe; // Currently selected candle timeframe
+  onTimeframeChange?: (timeframe: Timeframe) => void; // Function to handle timeframe changes
 }
 
 /**
@@ -23,11 +36,24 @@ interface TradeSelectorProps {
  *
  * - Displays a dropdown menu of available cryptocurrencies.
  * - Calls `onCoinChange` when a new coin is selected.
+ * - Displays a provider dropdown when providers are passed in.
+ * - Displays timeframe buttons when `onTimeframeChange` is passed in.
  * - Displays a loading message if no coin data is available.
  */
-const TradeSelector: React.FC<TradeSelectorProps> = ({ selectedCoin, onCoinChange, availableCoins = [] }) => {
+const TradeSelector: React.FC<TradeSelectorProps> = ({
+  selectedCoin,
+  onCoinChange,
+  availableCoins = [],
+  selectedProvider,
+  onProviderChange,
+  availableProviders = [],
+  onImportFile,
+  importedCount,
+  selectedTimeframe,
+  onTimeframeChange
+}) => {
   return (
-    <div className="flex items-center">
+    <div className="flex items-center gap-3">
       {/* Dropdown menu for selecting a cryptocurrency */}
       <select
         value={selectedCoin}
@@ -46,6 +72,62 @@ const TradeSelector: React.FC<TradeSelectorProps> = ({ selectedCoin, onCoinChang
           <option disabled>Loading coins...</option>
         )}
       </select>
+
+      {/* Dropdown menu for selecting the market-data provider */}
+      {availableProviders.length > 0 && onProviderChange && (
+        <select
+          value={selectedProvider}
+          onChange={(e) => onProviderChange(e.target.value as MarketDataProviderId)}
+          className="block w-36 text-sm border-gray-300 rounded-md shadow-sm focus:border-blue-500 focus:ring-blue-500"
+        >
+          {availableProviders.map((provider) => (
+            <option key={provider.id} value={provider.id}>
+              {provider.name}
+            </option>
+          ))}
+        </select>
+      )}
+
+      {/* File picker for the local-file provider */}
+      {selectedProvider === 'local' && onImportFile && (
+        <label className="inline-flex items-center px-3 py-1.5 text-sm font-medium text-blue-700 rounded-md cursor-pointer bg-blue-50 hover:bg-blue-100">
+          <Upload className="w-4 h-4 mr-1.5" />
+          Import JSON
+          <input
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) onImportFile(file);
+              e.target.value = ''; // Allow re-importing the same file
+            }}
+          />
+        </label>
+      )}
+      {selectedProvider === 'local' && importedCount != null && (
+        <span className="text-xs text-gray-500">{importedCount} candles imported</span>
+      )}
+
+      {/* Buttons for selecting the candle timeframe */}
+      {onTimeframeChange && (
+        <div className="inline-flex ml-auto overflow-hidden border border-gray-300 rounded-md">
+          {TIMEFRAMES.map((timeframe) => (
+            <button
+              key={timeframe.id}
+              type="button"
+              onClick={() => onTimeframeChange(timeframe.id)}
+              className={`px-3 py-1.5 text-xs font-medium transition-colors ${
+                selectedTimeframe === timeframe.id
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-white text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              {timeframe.label}
+            </button>
+          ))}
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,99 @@
+/**
+ * WalkForwardResults.tsx
+ *
+ * This component displays the result of a walk-forward validation.
+ *
+ * Features:
+ * - Robustness score, walk-forward efficiency and the share of profitable out-of-sample windows.
+ * - Summary statistics of the out-of-sample trades only.
+ * - The out-of-sample equity curve, stitched across windows.
+ * - A table of every window with its in-sample winner and in/out-of-sample returns.
+ */
+
+import React from 'react';
+import { WalkForwardResult } from '../types';
+import BacktestSummary from './BacktestSummary';
+import EquityCurveChart from './EquityCurveChart';
+
+interface WalkForwardResultsProps {
+  result: WalkForwardResult;
+}
+
+// Formats a signed percentage, e.g. +1.23% / -4.56%
+const formatPercent = (value: number) => `${value > 0 ? '+' : ''}${value.toFixed(2)}%`;
+
+const formatDate = (time: number) => new Date(time * 1000).toLocaleDateString();
+
+const WalkForwardResults: React.FC<WalkForwardResultsProps> = ({ result }) => {
+  const { windows } = result;
+  const totalReturn = result.startingBalance > 0 ? (result.finalEquity / result.startingBalance - 1) * 100 : 0;
+
+  const scoreColor = result.robustnessScore >= 60 ? 'text-green-600' : result.robustnessScore >= 40 ? 'text-yellow-600' : 'text-red-600';
+
+  return (
+    <div className="space-y-6">
+      {/* Robustness */}
+      <div className="flex flex-wrap items-baseline gap-x-6 gap-y-1 text-sm text-gray-600">
+        <span>Robustness score <b className={`text-lg ${scoreColor}`}>{result.robustnessScore}</b> / 100</span>
+        <span>Efficiency <b className="text-gray-900">{(result.efficiency * 100).toFixed(0)}%</b></span>
+        <span>Profitable windows <b className="text-gray-900">{(result.profitableWindows * 100).toFixed(0)}%</b> of {windows.length}</span>
+        <span>
+          Out-of-sample return{' '}
+          <b className={totalReturn > 0 ? 'text-green-600' : 'text-red-600'}>{formatPercent(totalReturn)}</b>
+        </span>
+      </div>
+
+      {/* Out-of-sample statistics */}
+      {result.statistics && result.trades.length > 0 ? (
+        <BacktestSummary statistics={result.statistics} />
+      ) : (
+        <p className="text-sm text-gray-500">No out-of-sample trades.</p>
+      )}
+
+      {/* Stitched out-of-sample equity */}
+      <EquityCurveChart title="Out-of-sample equity" equityCurve={result.equityCurve} />
+
+      {/* Windows */}
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              {['#', 'In-sample', 'Out-of-sample', 'TP %', 'SL %', 'Period', 'IS Return', 'OOS Return', 'OOS Trades'].map(header => (
+                <th key={header} className="px-3 py-2 text-xs font-medium tracking-wider text-left text-gray-500 uppercase">
+                  {header}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {windows.map((window, index) => (
+              <tr key={index} className="hover:bg-gray-50">
+                <td className="px-3 py-2 text-sm text-gray-900">{index + 1}</td>
+                <td className="px-3 py-2 text-sm text-gray-900">{formatDate(window.inSample.start)} – {formatDate(window.inSample.end)}</td>
+                <td className="px-3 py-2 text-sm text-gray-900">{formatDate(window.outOfSample.start)} – {formatDate(window.outOfSample.end)}</td>
+                {window.best ? (
+                  <>
+                    <td className="px-3 py-2 text-sm text-gray-900">{window.best.takeProfitPercent}</td>
+                    <td className="px-3 py-2 text-sm text-gray-900">{window.best.stopLossPercent}</td>
+                    <td className="px-3 py-2 text-sm text-gray-900">{window.best.period ?? '-'}</td>
+                  </>
+                ) : (
+                  <td colSpan={3} className="px-3 py-2 text-sm text-gray-500">No qualifying parameters</td>
+                )}
+                <td className={`px-3 py-2 text-sm font-medium ${window.inSampleReturn > 0 ? 'text-green-600' : 'text-red-600'}`}>
+                  {formatPercent(window.inSampleReturn)}
+                </td>
+                <td className={`px-3 py-2 text-sm font-medium ${window.outOfSampleReturn > 0 ? 'text-green-600' : 'text-red-600'}`}>
+                  {formatPercent(window.outOfSampleReturn)}
+                </td>
+                <td className="px-3 py-2 text-sm text-gray-900">{window.outOfSampleTrades}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default WalkForwardResults;
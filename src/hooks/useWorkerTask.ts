@@ -0,0 +1,69 @@
+/**
+ * useWorkerTask.ts
+ *
+ * React hook around a Web Worker task (see `workerClient.ts`).
+ *
+ * - `run` starts the task and resolves with its result, or `null` if it failed or was cancelled.
+ * - Starting a new run cancels the one in progress, so only the latest result lands.
+ * - Exposes loading, progress and error state, and cancels the task on unmount.
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { WorkerTask } from '../services/workerClient';
+
+export interface TaskProgress {
+  done: number;
+  total: number;
+}
+
+/**
+ * @param start - Starts the task in a worker, e.g. `startBacktest`
+ */
+export function useWorkerTask<Input, T>(
+  start: (input: Input, onProgress: (done: number, total: number) => void) => WorkerTask<T>
+) {
+  const [loading, setLoading] = useState(false);
+  const [progress, setProgress] = useState<TaskProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const taskRef = useRef<WorkerTask<T> | null>(null);
+  const startRef = useRef(start);
+  startRef.current = start;
+
+  const cancel = useCallback(() => {
+    taskRef.current?.cancel();
+    taskRef.current = null;
+    setLoading(false);
+    setProgress(null);
+  }, []);
+
+  // Stop the worker when the component goes away
+  useEffect(() => () => taskRef.current?.cancel(), []);
+
+  const run = useCallback(async (input: Input): Promise<T | null> => {
+    taskRef.current?.cancel();
+    setLoading(true);
+    setError(null);
+    setProgress(null);
+
+    const task: WorkerTask<T> = startRef.current(input, (done, total) => {
+      if (taskRef.current === task) setProgress({ done, total });
+    });
+    taskRef.current = task;
+
+    try {
+      return await task.results;
+    } catch (err) {
+      // A cancelled or superseded run isn't an error
+      if (taskRef.current === task) setError(err instanceof Error ? err.message : 'Unknown error');
+      return null;
+    } finally {
+      if (taskRef.current === task) {
+        taskRef.current = null;
+        setLoading(false);
+        setProgress(null);
+      }
+    }
+  }, []);
+
+  return { run, cancel, loading, progress, error };
+}
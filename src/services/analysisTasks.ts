@@ -0,0 +1,93 @@
+/**
+ * analysisTasks.ts
+ *
+ * Runs `analyzeTrade`, `runBacktest`, `runPortfolioBacktest` and `runMonteCarlo` in a
+ * Web Worker so long histories don't block the UI. Use them through `useWorkerTask` in components.
+ */
+
+import {
+  AnalysisRequest,
+  AnalysisResponse,
+  BacktestParams,
+  BacktestResult,
+  MonteCarloInput,
+  MonteCarloResult,
+  PortfolioAsset,
+  PortfolioConfig,
+  PortfolioResult,
+  TradeAnalysis,
+  TradeAnalysisInput
+} from '../types';
+import { runInWorker, WorkerTask } from './workerClient';
+
+// Each run gets its own worker, a cancelled run terminates it
+const createAnalysisWorker = () =>
+  new Worker(new URL('../workers/analysis.worker.ts', import.meta.url), { type: 'module' });
+
+/**
+ * Analyses a planned trade in a Web Worker.
+ *
+ * @param input - Closes and the planned trade (see `analyzeTrade`)
+ * @param onProgress - Unused, an analysis finishes in one step
+ */
+export const startTradeAnalysis = (
+  input: TradeAnalysisInput,
+  onProgress: (done: number, total: number) => void
+): WorkerTask<TradeAnalysis> => runInWorker<AnalysisRequest, AnalysisResponse, TradeAnalysis>(
+  createAnalysisWorker,
+  { type: 'analyze', input },
+  onProgress,
+  (message) => message.type === 'analysis_done' ? message.result : undefined
+);
+
+/**
+ * Runs a backtest in a Web Worker.
+ *
+ * @param params - Candles, reference levels and backtest settings (see `runBacktest`)
+ * @param onProgress - Called as bars are simulated
+ */
+export const startBacktest = (
+  params: BacktestParams,
+  onProgress: (done: number, total: number) => void
+): WorkerTask<BacktestResult> => runInWorker<AnalysisRequest, AnalysisResponse, BacktestResult>(
+  createAnalysisWorker,
+  { type: 'backtest', params },
+  onProgress,
+  (message) => message.type === 'backtest_done' ? message.result : undefined
+);
+
+/**
+ * Runs a portfolio backtest in a Web Worker.
+ *
+ * @param params - Backtest of the chart coin (see `runPortfolioBacktest`)
+ * @param assets - Candles of each coin in the portfolio
+ * @param config - Allocation rule and the max number of concurrent positions
+ * @param onProgress - Called as bars are simulated, across all coins
+ */
+export const startPortfolioBacktest = (
+  params: BacktestParams,
+  assets: PortfolioAsset[],
+  config: PortfolioConfig,
+  onProgress: (done: number, total: number) => void
+): WorkerTask<PortfolioResult> => runInWorker<AnalysisRequest, AnalysisResponse, PortfolioResult>(
+  createAnalysisWorker,
+  { type: 'portfolio', params, assets, config },
+  onProgress,
+  (message) => message.type === 'portfolio_done' ? message.result : undefined
+);
+
+/**
+ * Runs a Monte Carlo simulation of a backtest's trades in a Web Worker.
+ *
+ * @param input - Backtest, simulation settings and seed (see `runMonteCarlo`)
+ * @param onProgress - Called as runs complete
+ */
+export const startMonteCarlo = (
+  input: MonteCarloInput,
+  onProgress: (done: number, total: number) => void
+): WorkerTask<MonteCarloResult | null> => runInWorker<AnalysisRequest, AnalysisResponse, MonteCarloResult | null>(
+  createAnalysisWorker,
+  { type: 'monte_carlo', input },
+  onProgress,
+  (message) => message.type === 'monte_carlo_done' ? message.result : undefined
+);
@@ -4,15 +4,23 @@
  * This module handles API requests to CoinGecko for cryptocurrency data.
  * 
  * - Uses Axios for HTTP requests with automatic retries in case of failures.
- * - Fetches market chart data for a specified cryptocurrency.
- * - Includes a fallback mechanism that generates sample data if the API request fails.
+ * - Fetches market chart data and true OHLC candles for a specified cryptocurrency.
+ * - Splits market chart ranges longer than 90 days into chunks, so every point is hourly.
+ * - Exposes the retrying request helper as a `JsonTransport` so market-data
+ *   providers can be pointed at recorded fixtures instead of the network.
  */
 
 import axios from 'axios';
-import { CoinData } from '../types';
+import { CoinData, CoinOHLCRow, DateRange } from '../types';
 
 // Base URL for CoinGecko API
-const COINGECKO_API = 'https://api.coingecko.com/api/v3';
+export const COINGECKO_API = 'https://api.coingecko.com/api/v3';
+
+// Longest market chart range CoinGecko answers with hourly points, longer ones come back daily
+const MAX_HOURLY_RANGE_SECONDS = 90 * 24 * 60 * 60;
+
+// Values accepted by the `days` parameter of CoinGecko's OHLC endpoint
+const OHLC_DAYS = [1, 7, 14, 30, 90, 180, 365];
 
 // Configure Axios instance with a timeout
 const api = axios.create({
@@ -23,6 +31,17 @@ const api = axios.create({
   }
 });
 
+/**
+ * Query parameters accepted by a `JsonTransport`.
+ */
+export type QueryParams = Record<string, string | number>;
+
+/**
+ * Function used to GET a JSON document. Providers receive one of these so
+ * tests can swap the network for recorded JSON fixtures.
+ */
+export type JsonTransport = (url: string, params: QueryParams) => Promise<unknown>;
+
 /**
  * Performs an API request with automatic retries in case of failures.
  *
@@ -32,7 +51,7 @@ const api = axios.create({
  * @param delay - Initial delay in milliseconds between retries (default: 1000)
  * @returns The API response data
  */
-const fetchWithRetry = async (url: string, params: any, retries = 3, delay = 1000): Promise<any> => {
+export const fetchWithRetry = async (url: string, params: QueryParams, retries = 3, delay = 1000): Promise<unknown> => {
   for (let i = 0; i < retries; i++) {
     try {
       // Attempt to fetch data from the API
@@ -49,54 +68,80 @@ const fetchWithRetry = async (url: string, params: any, retries = 3, delay = 100
 };
 
 /**
- * Fetches market chart data for a given cryptocurrency.
+ * Joins consecutive series, dropping the point repeated where two chunks meet.
+ *
+ * @param series - Arrays of [timestamp (ms), value] pairs, in time order
+ * @returns One array with strictly increasing timestamps
+ */
+const joinSeries = (series: [number, number][][]): [number, number][] =>
+  series.flat().filter((point, i, points) => i === 0 || point[0] > points[i - 1][0]);
+
+/**
+ * Fetches market chart data for a given cryptocurrency over a date range.
+ *
+ * Ranges longer than 90 days are requested in 90-day chunks, a single request
+ * would only return one point per day and every candle built from it would be flat.
  *
  * @param coinId - The cryptocurrency ID (e.g., 'bitcoin')
- * @param days - Number of past days to fetch data for (default: 90)
+ * @param range - Window to fetch, in Unix seconds
+ * @param transport - Request function to use (default: `fetchWithRetry`)
  * @returns The market chart data from CoinGecko API
+ * @throws If a request fails or returns no price data
  */
-export const fetchCoinData = async (coinId: string, days: number = 90): Promise<CoinData> => {
-  try {
-    const data = await fetchWithRetry(
-      `${COINGECKO_API}/coins/${coinId}/market_chart`,
+export const fetchCoinData = async (
+  coinId: string,
+  range: DateRange,
+  transport: JsonTransport = fetchWithRetry
+): Promise<CoinData> => {
+  const chunks: CoinData[] = [];
+
+  for (let from = range.start; from < range.end; from += MAX_HOURLY_RANGE_SECONDS) {
+    const data = await transport(
+      `${COINGECKO_API}/coins/${coinId}/market_chart/range`,
       {
         vs_currency: 'usd', // Fetch data in USD
-        days: days, // Number of past days
-        interval: 'daily' // Daily data points
+        from,
+        to: Math.min(from + MAX_HOURLY_RANGE_SECONDS, range.end)
       }
-    );
-    return data;
-  } catch (error) {
-    console.error('Error fetching from CoinGecko, using sample data:', error instanceof Error ? error.message : 'Unknown error');
-    return generateSampleData(days);
+    ) as CoinData;
+    if (!Array.isArray(data?.prices)) {
+      throw new Error('No market chart data returned by CoinGecko');
+    }
+    chunks.push(data);
   }
+
+  return {
+    prices: joinSeries(chunks.map(chunk => chunk.prices)),
+    market_caps: joinSeries(chunks.map(chunk => chunk.market_caps ?? [])),
+    total_volumes: joinSeries(chunks.map(chunk => chunk.total_volumes ?? []))
+  };
 };
 
 /**
- * Generates sample OHLC data in case API calls fail.
+ * Fetches OHLC candles for a given cryptocurrency.
  *
- * @param days - Number of past days to generate data for
- * @returns A CoinData object with simulated price, market cap, and volume data
+ * CoinGecko only accepts a fixed set of `days` values here, so the request is
+ * rounded up to the nearest one. Callers fall back to the market chart when it fails.
+ *
+ * @param coinId - The cryptocurrency ID (e.g., 'bitcoin')
+ * @param days - Number of past days to fetch candles for (default: 90)
+ * @param transport - Request function to use (default: `fetchWithRetry`)
+ * @returns Rows of [closeTime, open, high, low, close]
  */
-function generateSampleData(days: number): CoinData {
-  const now = Date.now(); // Current timestamp
-  const dayMs = 24 * 60 * 60 * 1000; // Number of milliseconds in a day
-  const prices: [number, number][] = [];
-  
-  let price = 30000; // Start with an arbitrary price
-
-  for (let i = days; i >= 0; i--) {
-    const time = now - (i * dayMs); // Compute timestamp for each past day
-
-    // Generate a random price movement within ±1% range
-    price = price * (1 + (Math.random() - 0.5) * 0.02);
-    
-    prices.push([time, price]);
+export const fetchCoinOHLC = async (
+  coinId: string,
+  days: number = 90,
+  transport: JsonTransport = fetchWithRetry
+): Promise<CoinOHLCRow[]> => {
+  const data = await transport(
+    `${COINGECKO_API}/coins/${coinId}/ohlc`,
+    {
+      vs_currency: 'usd', // Fetch data in USD
+      days: OHLC_DAYS.find(d => d >= days) ?? 'max'
+    }
+  );
+  if (!Array.isArray(data) || data.length === 0) {
+    throw new Error('No OHLC data returned by CoinGecko');
   }
-
-  return {
-    prices,
-    market_caps: prices.map(([time, price]) => [time, price * 1000000]), // Simulated market cap
-    total_volumes: prices.map(([time]) => [time, Math.random() * 1000000000]) // Simulated volume data
-  };
-}
+  return data as CoinOHLCRow[];
+};
@@ -0,0 +1,358 @@
+import { describe, expect, it } from 'vitest';
+import { runBacktest, warmUpSeconds } from './backtesting';
+import { NO_EXTRA_EXITS, STRATEGY_PRESETS } from './strategy';
+import { BacktestParams, OHLCData, Strategy, StrategyExits } from '../types';
+
+const DAY = 24 * 60 * 60;
+
+// Daily candles from [open, high, low, close] tuples
+const candles = (bars: [number, number, number, number][]): OHLCData[] =>
+  bars.map(([open, high, low, close], i) => ({ time: i * DAY, open, high, low, close }));
+
+// Enters on every bar it is allowed to, one position at a time
+const everyBar = (exits: Partial<StrategyExits> = {}): Strategy => ({
+  name: 'Test',
+  entryRules: [{ type: 'every_bar' }],
+  exitRules: [],
+  exits: { ...NO_EXTRA_EXITS, ...exits },
+  pyramiding: false,
+  maxOpenPositions: 1
+});
+
+// A long with TP at 120 and SL at 90, fixed at those prices for every entry
+const backtest = (prices: OHLCData[], overrides: Partial<BacktestParams> = {}) => runBacktest({
+  prices,
+  entryPrice: 100,
+  takeProfit: 120,
+  stopLoss: 90,
+  direction: 'long',
+  levelMode: 'absolute',
+  strategy: everyBar(),
+  ...overrides
+});
+
+describe('runBacktest gaps', () => {
+  it('fills a stop the bar gapped through at the open', () => {
+    const prices = candles([
+      [100, 101, 99, 100],
+      [100, 102, 98, 100], // Entry at 100
+      [85, 87, 80, 86]     // Opens below the 90 stop
+    ]);
+    const [trade] = backtest(prices).trades;
+
+    expect(trade.result).toBe('stop_loss');
+    expect(trade.exit_price).toBe(85);
+  });
+
+  it('fills a take-profit the bar gapped through at the open', () => {
+    const prices = candles([
+      [100, 101, 99, 100],
+      [100, 102, 98, 100],
+      [125, 130, 124, 128] // Opens above the 120 target
+    ]);
+    const [trade] = backtest(prices).trades;
+
+    expect(trade.result).toBe('take_profit');
+    expect(trade.exit_price).toBe(125);
+  });
+
+  it('fills a trailing stop raised above the open at the open', () => {
+    const prices = candles([
+      [100, 101, 99, 100],
+      [100, 110, 99, 109], // High of 110 trails the stop to 104.5
+      [103, 105, 102, 104] // Opens below the trail
+    ]);
+    const [trade] = backtest(prices, { strategy: everyBar({ trailingStop: { mode: 'percent', distance: 5 } }) }).trades;
+
+    expect(trade.result).toBe('trailing_stop');
+    expect(trade.exit_price).toBe(103);
+  });
+
+  it('takes the stop first when the bar opens beyond it and later reaches the target', () => {
+    const prices = candles([
+      [100, 101, 99, 100],
+      [100, 102, 98, 100],
+      [88, 125, 85, 120]
+    ]);
+    const [trade] = backtest(prices, { fillPolicy: 'optimistic' }).trades;
+
+    expect(trade.result).toBe('stop_loss');
+    expect(trade.fill_resolution).toBe('unambiguous');
+    expect(trade.exit_price).toBe(88);
+  });
+});
+
+describe('runBacktest fill policies', () => {
+  // The third bar reaches both the 120 target and the 90 stop
+  const ambiguous = candles([
+    [100, 101, 99, 100],
+    [100, 102, 98, 100],
+    [112, 125, 85, 100]
+  ]);
+
+  // Hourly candles inside the ambiguous bar, with `first` reached before the other level
+  const intrabar = (first: 'target' | 'stop' | 'both'): OHLCData[] => {
+    const start = 2 * DAY;
+    const path: [number, number, number, number][] = first === 'target'
+      ? [[112, 125, 110, 118], [118, 119, 85, 100]]
+      : first === 'stop'
+        ? [[112, 113, 85, 95], [95, 125, 94, 100]]
+        : [[112, 125, 85, 100]];
+    return path.map(([open, high, low, close], h) => ({ time: start + h * 60 * 60, open, high, low, close }));
+  };
+
+  it('records unambiguous exits when only one level is reached', () => {
+    const prices = candles([
+      [100, 101, 99, 100],
+      [100, 102, 98, 100],
+      [100, 121, 95, 118]
+    ]);
+    const [trade] = backtest(prices).trades;
+
+    expect(trade.result).toBe('take_profit');
+    expect(trade.fill_resolution).toBe('unambiguous');
+  });
+
+  it('takes the stop under the pessimistic policy', () => {
+    const [trade] = backtest(ambiguous, { fillPolicy: 'pessimistic' }).trades;
+
+    expect(trade.result).toBe('stop_loss');
+    expect(trade.exit_price).toBe(90);
+    expect(trade.fill_resolution).toBe('pessimistic');
+  });
+
+  it('takes the target under the optimistic policy', () => {
+    const [trade] = backtest(ambiguous, { fillPolicy: 'optimistic' }).trades;
+
+    expect(trade.result).toBe('take_profit');
+    expect(trade.exit_price).toBe(120);
+    expect(trade.fill_resolution).toBe('optimistic');
+  });
+
+  it('takes the level closer to the open under the open proximity policy', () => {
+    const [nearTarget] = backtest(ambiguous, { fillPolicy: 'open_proximity' }).trades;
+    expect(nearTarget.result).toBe('take_profit');
+    expect(nearTarget.fill_resolution).toBe('open_proximity');
+
+    const nearStop = ambiguous.map((c, i) => i === 2 ? { ...c, open: 95 } : c);
+    const [trade] = backtest(nearStop, { fillPolicy: 'open_proximity' }).trades;
+    expect(trade.result).toBe('stop_loss');
+    expect(trade.fill_resolution).toBe('open_proximity');
+  });
+
+  it('replays the bar on lower-timeframe candles', () => {
+    const [targetFirst] = backtest(ambiguous, { fillPolicy: 'lower_timeframe', intrabarPrices: intrabar('target') }).trades;
+    expect(targetFirst.result).toBe('take_profit');
+    expect(targetFirst.fill_resolution).toBe('lower_timeframe');
+
+    const [stopFirst] = backtest(ambiguous, { fillPolicy: 'lower_timeframe', intrabarPrices: intrabar('stop') }).trades;
+    expect(stopFirst.result).toBe('stop_loss');
+    expect(stopFirst.fill_resolution).toBe('lower_timeframe');
+  });
+
+  it('falls back to pessimistic when the lower timeframe cannot tell', () => {
+    const withoutCandles = backtest(ambiguous, { fillPolicy: 'lower_timeframe' }).trades[0];
+    const stillAmbiguous = backtest(ambiguous, { fillPolicy: 'lower_timeframe', intrabarPrices: intrabar('both') }).trades[0];
+    const otherBarsOnly = backtest(ambiguous, {
+      fillPolicy: 'lower_timeframe',
+      intrabarPrices: intrabar('target').map(c => ({ ...c, time: c.time + DAY }))
+    }).trades[0];
+
+    for (const trade of [withoutCandles, stillAmbiguous, otherBarsOnly]) {
+      expect(trade.result).toBe('stop_loss');
+      expect(trade.fill_resolution).toBe('pessimistic');
+    }
+  });
+});
+
+describe('runBacktest exits', () => {
+  it('trails the stop behind the best price reached before each bar', () => {
+    const prices = candles([
+      [100, 101, 99, 100],
+      [100, 110, 100, 108], // Best price 110 trails a 10% stop to 99
+      [108, 109, 98, 100]
+    ]);
+    const [trade] = backtest(prices, { strategy: everyBar({ trailingStop: { mode: 'percent', distance: 10 } }) }).trades;
+
+    expect(trade.result).toBe('trailing_stop');
+    expect(trade.exit_price).toBe(99);
+    expect(trade.exit_time).toBe(2 * DAY);
+  });
+
+  it('moves the stop to the entry once the break-even gain was reached', () => {
+    const prices = candles([
+      [100, 101, 99, 100],
+      [100, 106, 99, 105], // Up 6%, past the 5% break-even
+      [104, 105, 99, 100]
+    ]);
+    const [trade] = backtest(prices, { strategy: everyBar({ breakEvenAt: 5 }) }).trades;
+
+    expect(trade.result).toBe('break_even');
+    expect(trade.exit_price).toBe(100);
+  });
+
+  it('closes at the close once the holding period ran out', () => {
+    const prices = candles([
+      [100, 101, 99, 100],
+      [100, 102, 98, 101],
+      [101, 103, 99, 102],
+      [102, 104, 100, 103], // Two bars after the entry bar
+      [103, 105, 101, 104]
+    ]);
+    const [trade] = backtest(prices, { strategy: everyBar({ maxHoldingBars: 2 }) }).trades;
+
+    expect(trade.result).toBe('time_exit');
+    expect(trade.exit_price).toBe(103);
+    expect(trade.exit_time).toBe(3 * DAY);
+  });
+
+  it('averages partial take-profits with the final exit', () => {
+    const prices = candles([
+      [100, 101, 99, 100],
+      [100, 102, 98, 101],
+      [101, 111, 100, 109], // Reaches both partial levels
+      [109, 121, 108, 115]  // Reaches the target with the last quarter
+    ]);
+    const partialTakeProfits = [{ gain: 10, fraction: 25 }, { gain: 5, fraction: 50 }];
+    const [trade] = backtest(prices, { strategy: everyBar({ partialTakeProfits }) }).trades;
+
+    expect(trade.result).toBe('take_profit');
+    expect(trade.partial_exits).toHaveLength(2);
+    expect(trade.partial_exits!.map(p => [p.time, p.fraction])).toEqual([[2 * DAY, 50], [2 * DAY, 25]]);
+    expect(trade.partial_exits![0].price).toBeCloseTo(105);
+    expect(trade.partial_exits![1].price).toBeCloseTo(110);
+    // (105 × 50 + 110 × 25 + 120 × 25) / 100
+    expect(trade.exit_price).toBeCloseTo(110);
+  });
+
+  it('closes on the last partial take-profit when the partials add up to the whole position', () => {
+    const prices = candles([
+      [100, 101, 99, 100],
+      [100, 102, 98, 101],
+      [101, 111, 100, 109],
+      [109, 110, 108, 109]
+    ]);
+    const partialTakeProfits = [{ gain: 5, fraction: 60 }, { gain: 10, fraction: 40 }];
+    const [trade] = backtest(prices, { strategy: everyBar({ partialTakeProfits }) }).trades;
+
+    expect(trade.result).toBe('partial_take_profit');
+    expect(trade.exit_time).toBe(2 * DAY);
+    expect(trade.exit_price).toBeCloseTo(107); // 105 × 0.6 + 110 × 0.4
+  });
+
+  it('labels a position still open on the last candle as end of data', () => {
+    const prices = candles([
+      [100, 101, 99, 100],
+      [100, 102, 98, 101],
+      [101, 104, 100, 103]
+    ]);
+    const [trade] = backtest(prices).trades;
+
+    expect(trade.result).toBe('end_of_data');
+    expect(trade.exit_price).toBe(103);
+    expect(trade.exit_time).toBe(2 * DAY);
+  });
+});
+
+describe('runBacktest entries', () => {
+  it('enters at the next open only after the entry rule fires on a close', () => {
+    const prices = candles([
+      [100, 101, 99, 100],
+      [100, 102, 98, 101],
+      [101, 107, 100, 106], // Only close above 105
+      [104, 105, 103, 104],
+      [104, 106, 103, 105]
+    ]);
+    const strategy: Strategy = {
+      ...everyBar(),
+      entryRules: [{
+        type: 'condition',
+        left: { kind: 'indicator', id: 'close', params: [] },
+        operator: 'above',
+        right: { kind: 'value', value: 105 }
+      }]
+    };
+    const { trades } = backtest(prices, { strategy });
+
+    expect(trades).toHaveLength(1);
+    expect(trades[0].entry_time).toBe(3 * DAY);
+    expect(trades[0].entry_price).toBe(104);
+  });
+
+  // Six quiet bars that never reach the levels
+  const quiet = candles(Array.from({ length: 6 }, () => [100, 101, 99, 100] as [number, number, number, number]));
+
+  it('holds one position at a time without pyramiding', () => {
+    const { trades } = backtest(quiet);
+
+    expect(trades).toHaveLength(1);
+    expect(trades[0].entry_time).toBe(DAY);
+  });
+
+  it('opens new positions while others are open up to the pyramiding limit', () => {
+    const { trades } = backtest(quiet, { strategy: { ...everyBar(), pyramiding: true, maxOpenPositions: 3 } });
+
+    expect(trades.map(t => t.entry_time)).toEqual([DAY, 2 * DAY, 3 * DAY]);
+  });
+
+  it('enters again once a position closed', () => {
+    // Each position is held for one bar, so it closes on the next entry's bar
+    const { trades } = backtest(quiet, { strategy: everyBar({ maxHoldingBars: 1 }) });
+
+    expect(trades.map(t => [t.entry_time, t.exit_time])).toEqual([
+      [DAY, 2 * DAY],
+      [3 * DAY, 4 * DAY],
+      [5 * DAY, 5 * DAY]
+    ]);
+  });
+});
+
+describe('warmUpSeconds', () => {
+  it('covers the longest of the ATR period and the strategy lookback', () => {
+    const emaCross = STRATEGY_PRESETS.find(s => s.name === 'EMA 20/50 bullish cross')!;
+
+    expect(warmUpSeconds({ atrPeriod: 14, strategy: everyBar() }, '1d')).toBe(14 * DAY);
+    expect(warmUpSeconds({ atrPeriod: 14, strategy: emaCross }, '1d')).toBe(50 * DAY);
+    expect(warmUpSeconds({ atrPeriod: 14, strategy: emaCross }, '4h')).toBe(50 * 4 * 60 * 60);
+  });
+
+  it('counts the parameters of condition operands', () => {
+    const strategy: Strategy = {
+      ...everyBar(),
+      entryRules: [{
+        type: 'condition',
+        left: { kind: 'indicator', id: 'close', params: [] },
+        operator: 'above',
+        right: { kind: 'indicator', id: 'sma', params: [200] }
+      }]
+    };
+
+    expect(warmUpSeconds({ atrPeriod: 14, strategy }, '1d')).toBe(200 * DAY);
+  });
+});
+
+describe('runBacktest range', () => {
+  it('only trades inside the range and uses the candles before it for warm-up', () => {
+    // Closes rise through 105 before the range starts, so a warmed-up rule fires on its first bar
+    const prices = candles([
+      [100, 101, 99, 100],
+      [100, 107, 99, 106],
+      [106, 107, 105, 106],
+      [106, 108, 105, 107],
+      [107, 108, 106, 107]
+    ]);
+    const strategy: Strategy = {
+      ...everyBar(),
+      entryRules: [{
+        type: 'condition',
+        left: { kind: 'indicator', id: 'sma', params: [2] },
+        operator: 'above',
+        right: { kind: 'value', value: 105 }
+      }]
+    };
+    const result = backtest(prices, { strategy, range: { start: 2 * DAY, end: 4 * DAY } });
+
+    expect(result.period).toEqual({ start: 2 * DAY, end: 4 * DAY });
+    expect(result.trades.map(t => t.entry_time)).toEqual([3 * DAY]);
+  });
+});
@@ -1,4 +1,24 @@
-import { BacktestResult, BacktestTrade, BacktestStatistics, OHLCData } from '../types';
+import {
+  BacktestParams,
+  BacktestResult,
+  BacktestSettings,
+  BacktestTrade,
+  DateRange,
+  FillPolicy,
+  FillResolution,
+  LevelMode,
+  OHLCData,
+  PartialExit,
+  StrategyExits,
+  Timeframe,
+  TradeExitReason
+} from '../types';
+import { computeStatistics } from './statistics';
+import { calculateATR } from './indicators';
+import { timeframeSeconds } from './timeframes';
+import { calculateTradeCosts, ZERO_COST_MODEL } from './costs';
+import { DEFAULT_SIZING, simulateEquity } from './sizing';
+import { compileStrategy, DEFAULT_STRATEGY, strategyLookback, validateStrategy } from './strategy';
 
 function calculateProfitLoss(entryPrice: number, exitPrice: number, direction: 'long' | 'short'): number {
   return direction === 'long'
@@ -6,97 +26,450 @@ function calculateProfitLoss(entryPrice: number, exitPrice: number, direction: '
     : ((entryPrice - exitPrice) / entryPrice) * 100;
 }
 
-export function runBacktest(params: {
-  prices: OHLCData[];
-  takeProfit: number;
-  stopLoss: number;
+/**
+ * Percentage excursions a candle offered relative to the entry, seen from the position:
+ * `favorable` is the best move (≥ 0 when in profit), `adverse` the worst (negative when in loss).
+ */
+function candleExcursions(
+  candle: OHLCData,
+  entryPrice: number,
+  direction: 'long' | 'short'
+): { favorable: number; adverse: number } {
+  const best = direction === 'long' ? candle.high : candle.low;
+  const worst = direction === 'long' ? candle.low : candle.high;
+  return {
+    favorable: calculateProfitLoss(entryPrice, best, direction),
+    adverse: calculateProfitLoss(entryPrice, worst, direction)
+  };
+}
+
+/**
+ * Builds a function that translates the form's TP/SL into levels for a historical entry.
+ *
+ * @param mode - How the form's levels carry over (see `LevelMode`)
+ * @param reference - Entry, TP and SL as set in the form
+ * @param atrAtEntry - ATR known at a given entry index (only used by the `atr` mode)
+ * @param referenceAtr - ATR when the form's levels were set (only used by the `atr` mode)
+ */
+function createLevelTranslator(
+  mode: LevelMode,
+  reference: { entryPrice: number; takeProfit: number; stopLoss: number },
+  atrAtEntry: (index: number) => number,
+  referenceAtr: number
+): (entryPrice: number, index: number) => { takeProfit: number; stopLoss: number } {
+  const { entryPrice, takeProfit, stopLoss } = reference;
+
+  if (mode === 'absolute') {
+    return () => ({ takeProfit, stopLoss });
+  }
+
+  if (mode === 'atr' && referenceAtr > 0) {
+    // Signed distances in ATR multiples, so direction is preserved
+    const tpMultiple = (takeProfit - entryPrice) / referenceAtr;
+    const slMultiple = (stopLoss - entryPrice) / referenceAtr;
+    return (entry, index) => ({
+      takeProfit: entry + tpMultiple * atrAtEntry(index),
+      stopLoss: entry + slMultiple * atrAtEntry(index)
+    });
+  }
+
+  // Signed percentage distances from the entry
+  const tpFraction = (takeProfit - entryPrice) / entryPrice;
+  const slFraction = (stopLoss - entryPrice) / entryPrice;
+  return (entry) => ({
+    takeProfit: entry * (1 + tpFraction),
+    stopLoss: entry * (1 + slFraction)
+  });
+}
+
+/**
+ * Replays a bar on lower-timeframe candles to see whether TP or SL was touched first.
+ *
+ * @param candles - Lower-timeframe candles sorted by time
+ * @param barSeconds - Duration of the bar being replayed
+ * @returns A lookup returning the first level hit inside a bar, or `null` when the
+ *          lower timeframe has no data for the bar or is itself ambiguous
+ */
+function createDrillDown(candles: OHLCData[], barSeconds: number) {
+  return (bar: OHLCData, takeProfit: number, stopLoss: number, direction: 'long' | 'short') => {
+    // Binary search for the first lower candle inside the bar
+    let lo = 0;
+    let hi = candles.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (candles[mid].time < bar.time) lo = mid + 1;
+      else hi = mid;
+    }
+
+    for (let k = lo; k < candles.length && candles[k].time < bar.time + barSeconds; k++) {
+      const { hitsTakeProfit, hitsStopLoss } = levelHits(candles[k], takeProfit, stopLoss, direction);
+      if (hitsTakeProfit && hitsStopLoss) return null;
+      if (hitsTakeProfit) return 'take_profit' as const;
+      if (hitsStopLoss) return 'stop_loss' as const;
+    }
+    return null;
+  };
+}
+
+/**
+ * Which of the two levels a candle's range reached.
+ */
+function levelHits(candle: OHLCData, takeProfit: number, stopLoss: number, direction: 'long' | 'short') {
+  return direction === 'long'
+    ? { hitsTakeProfit: candle.high >= takeProfit, hitsStopLoss: candle.low <= stopLoss }
+    : { hitsTakeProfit: candle.low <= takeProfit, hitsStopLoss: candle.high >= stopLoss };
+}
+
+/**
+ * Whether a bar opened at or beyond a level, e.g. on a gap or under a stop raised above
+ * the open. Such a level is reached at the open rather than at its own price.
+ */
+function openedBeyond(candle: OHLCData, level: number, side: 'target' | 'stop', direction: 'long' | 'short'): boolean {
+  const sign = direction === 'long' ? 1 : -1;
+  return side === 'target' ? sign * (candle.open - level) >= 0 : sign * (candle.open - level) <= 0;
+}
+
+/**
+ * Decides whether a bar closes the position and how.
+ * When the bar reaches both TP and SL its path is unknown, and the fill policy picks the outcome:
+ * - `pessimistic`: SL first. `optimistic`: TP first.
+ * - `open_proximity`: whichever level is closer to the bar's open.
+ * - `lower_timeframe`: replay the bar on lower-timeframe candles, falling back to pessimistic.
+ *
+ * @returns The exit and what resolved it, or `null` if neither level was reached
+ */
+function resolveBarExit(
+  candle: OHLCData,
+  takeProfit: number,
+  stopLoss: number,
+  direction: 'long' | 'short',
+  fillPolicy: FillPolicy,
+  drillDown: ReturnType<typeof createDrillDown> | null
+): { result: 'take_profit' | 'stop_loss'; resolution: FillResolution } | null {
+  const { hitsTakeProfit, hitsStopLoss } = levelHits(candle, takeProfit, stopLoss, direction);
+
+  if (!hitsTakeProfit && !hitsStopLoss) return null;
+  if (!hitsStopLoss) return { result: 'take_profit', resolution: 'unambiguous' };
+  if (!hitsTakeProfit) return { result: 'stop_loss', resolution: 'unambiguous' };
+  // A level the bar opened beyond was reached first
+  if (openedBeyond(candle, stopLoss, 'stop', direction)) return { result: 'stop_loss', resolution: 'unambiguous' };
+  if (openedBeyond(candle, takeProfit, 'target', direction)) return { result: 'take_profit', resolution: 'unambiguous' };
+
+  switch (fillPolicy) {
+    case 'optimistic':
+      return { result: 'take_profit', resolution: 'optimistic' };
+    case 'open_proximity':
+      return Math.abs(candle.open - takeProfit) < Math.abs(candle.open - stopLoss)
+        ? { result: 'take_profit', resolution: 'open_proximity' }
+        : { result: 'stop_loss', resolution: 'open_proximity' };
+    case 'lower_timeframe': {
+      const first = drillDown?.(candle, takeProfit, stopLoss, direction);
+      if (first) return { result: first, resolution: 'lower_timeframe' };
+      return { result: 'stop_loss', resolution: 'pessimistic' };
+    }
+    default:
+      return { result: 'stop_loss', resolution: 'pessimistic' };
+  }
+}
+
+/**
+ * What the position manager needs to know besides the candles.
+ */
+interface PositionContext {
   direction: 'long' | 'short';
-}): BacktestResult {
-  const { prices, takeProfit, stopLoss, direction } = params;
+  fillPolicy: FillPolicy;
+  drillDown: ReturnType<typeof createDrillDown> | null;
+  exits: StrategyExits;
+  exitSignal: (index: number) => boolean; // Strategy exit rules, by index into the candles
+  atrAtBar: (index: number) => number;    // ATR known at the open of a bar
+}
+
+/**
+ * Follows a position bar by bar from its entry until it is fully closed.
+ *
+ * On each bar the stop is the tightest of the stop loss, the break-even stop and the
+ * trailing stop, all computed from prices before the bar. Partial take-profits fill first
+ * (through the fill policy when the bar also reaches the stop), then TP/stop, then the
+ * exit rules and holding period on the close. Levels the bar opened beyond fill at its open. A position still open on the last candle
+ * closes at its close.
+ */
+function managePosition(
+  prices: OHLCData[],
+  entryIndex: number,
+  entryPrice: number,
+  takeProfit: number,
+  stopLoss: number,
+  context: PositionContext
+) {
+  const { direction, fillPolicy, drillDown, exits, exitSignal, atrAtBar } = context;
+  const { trailingStop = null, breakEvenAt = null, maxHoldingBars = null, partialTakeProfits = [] } = exits;
+  const sign = direction === 'long' ? 1 : -1;
+  const isTighter = (level: number, than: number) => sign * (level - than) > 0;
+  const fillPrice = (candle: OHLCData, level: number, side: 'target' | 'stop') =>
+    openedBeyond(candle, level, side, direction) ? candle.open : level;
+
+  // Partial levels in the order price reaches them
+  const partialLevels = [...partialTakeProfits]
+    .sort((a, b) => a.gain - b.gain)
+    .map(partial => ({ price: entryPrice * (1 + sign * partial.gain / 100), fraction: partial.fraction }));
+
+  const partialExits: PartialExit[] = [];
+  let remaining = 100; // % of the position still open
+  let bestPrice = entryPrice; // Best price reached before the current bar
+  let maxFavorable = 0; // Best unrealised % move while the position was open
+  let maxAdverse = 0;   // Worst unrealised % move while the position was open
+
+  for (let j = entryIndex; j < prices.length; j++) {
+    const candle = prices[j];
+
+    // Tightest stop available at this bar's open
+    let activeStop = stopLoss;
+    let stopReason: TradeExitReason = 'stop_loss';
+    if (breakEvenAt !== null && sign * (bestPrice - entryPrice) / entryPrice * 100 >= breakEvenAt && isTighter(entryPrice, activeStop)) {
+      activeStop = entryPrice;
+      stopReason = 'break_even';
+    }
+    if (trailingStop) {
+      const distance = trailingStop.mode === 'atr'
+        ? trailingStop.distance * atrAtBar(j)
+        : bestPrice * trailingStop.distance / 100;
+      const trailLevel = bestPrice - sign * distance;
+      if (isTighter(trailLevel, activeStop)) {
+        activeStop = trailLevel;
+        stopReason = 'trailing_stop';
+      }
+    }
+
+    // Partial take-profits, lowest first, as long as each one came before the stop
+    while (partialLevels.length > 0 && remaining > 0) {
+      const partial = resolveBarExit(candle, partialLevels[0].price, activeStop, direction, fillPolicy, drillDown);
+      if (partial?.result !== 'take_profit') break;
+      const fraction = Math.min(partialLevels[0].fraction, remaining);
+      partialExits.push({ time: candle.time, price: fillPrice(candle, partialLevels[0].price, 'target'), fraction });
+      remaining -= fraction;
+      partialLevels.shift();
+    }
+
+    let exit: { price: number; result: TradeExitReason; resolution?: FillResolution } | null = null;
+    if (remaining <= 0) {
+      exit = { price: partialExits[partialExits.length - 1].price, result: 'partial_take_profit' };
+    } else {
+      const outcome = resolveBarExit(candle, takeProfit, activeStop, direction, fillPolicy, drillDown);
+      if (outcome) {
+        exit = outcome.result === 'take_profit'
+          ? { price: fillPrice(candle, takeProfit, 'target'), result: 'take_profit', resolution: outcome.resolution }
+          : { price: fillPrice(candle, activeStop, 'stop'), result: stopReason, resolution: outcome.resolution };
+      } else if (exitSignal(j)) {
+        // Exit rules are checked on the close
+        exit = { price: candle.close, result: 'exit_signal' };
+      } else if (maxHoldingBars !== null && j - entryIndex >= maxHoldingBars) {
+        exit = { price: candle.close, result: 'time_exit' };
+      } else if (j === prices.length - 1) {
+        exit = { price: candle.close, result: 'end_of_data' };
+      }
+    }
+
+    // Track excursions bar by bar; on the exit bar the move stops at the exit level
+    const excursion = candleExcursions(candle, entryPrice, direction);
+    if (exit) {
+      const exitMove = calculateProfitLoss(entryPrice, exit.price, direction);
+      if (exit.result === 'take_profit' || exit.result === 'partial_take_profit') {
+        excursion.favorable = Math.min(excursion.favorable, exitMove);
+      } else if (exit.result === 'stop_loss' || exit.result === 'trailing_stop' || exit.result === 'break_even') {
+        excursion.adverse = Math.max(excursion.adverse, exitMove);
+      }
+    }
+    maxFavorable = Math.max(maxFavorable, excursion.favorable);
+    maxAdverse = Math.min(maxAdverse, excursion.adverse);
+    bestPrice = direction === 'long' ? Math.max(bestPrice, candle.high) : Math.min(bestPrice, candle.low);
+
+    if (exit) {
+      // Average fill across the partial exits and what was left at the final exit
+      const filled = partialExits.reduce((sum, partial) => sum + partial.price * partial.fraction, 0);
+      return {
+        exitIndex: j,
+        exitPrice: (filled + exit.price * Math.max(0, remaining)) / 100,
+        result: exit.result,
+        fillResolution: exit.resolution,
+        partialExits,
+        maxFavorable,
+        maxAdverse
+      };
+    }
+  }
+
+  // Only reached when the entry is past the last candle, which the caller never does
+  return null;
+}
+
+/**
+ * Candles inside a backtest's period, or all of them when it has none.
+ */
+export const candlesInRange = (prices: OHLCData[], range?: DateRange): OHLCData[] =>
+  range ? prices.filter(c => c.time >= range.start && c.time <= range.end) : prices;
+
+/**
+ * How long before a backtest's period candles are needed for its indicators to be warmed
+ * up at the start: the longest of the ATR period and the strategy's lookback, in bars.
+ *
+ * @param settings - Backtest settings, defaulted like `runBacktest` does
+ * @param timeframe - Timeframe of the candles
+ * @returns The margin in seconds
+ */
+export function warmUpSeconds(
+  { atrPeriod = 14, strategy = DEFAULT_STRATEGY }: Partial<BacktestSettings>,
+  timeframe: Timeframe
+): number {
+  return Math.max(atrPeriod, strategyLookback(strategy)) * timeframeSeconds(timeframe);
+}
+
+/**
+ * Simulates the strategy over the candles in the requested period.
+ * Entry rules are checked on each bar's close and fill at the next bar's open; each
+ * position is then followed by `managePosition` until it exits.
+ *
+ * @param params - Candles, reference levels and backtest settings
+ * @param onProgress - Called after each bar with the number of bars done and the total
+ */
+export function runBacktest(
+  params: BacktestParams,
+  onProgress?: (done: number, total: number) => void
+): BacktestResult {
+  const {
+    direction,
+    timeframe = '1d',
+    range,
+    levelMode = 'percent',
+    atrPeriod = 14,
+    fillPolicy = 'pessimistic',
+    costModel = ZERO_COST_MODEL,
+    sizing = DEFAULT_SIZING,
+    strategy = DEFAULT_STRATEGY,
+    intrabarPrices
+  } = params;
+
+  // Lower-timeframe replay is only possible when those candles were supplied
+  const drillDown = fillPolicy === 'lower_timeframe' && intrabarPrices?.length
+    ? createDrillDown(intrabarPrices, timeframeSeconds(timeframe))
+    : null;
+
+  // Only simulate on candles inside the requested period, when one is given
+  const offset = range ? Math.max(0, params.prices.findIndex(c => c.time >= range.start)) : 0;
+  const prices = candlesInRange(params.prices, range);
+
+  // ATR runs over the full history, including the `warmUpSeconds` before the range, so
+  // entries at the start of the range are warmed up.
+  // Entries use the previous bar's ATR, the entry bar's range isn't known yet at its open.
+  const atr = calculateATR(params.prices, atrPeriod);
+  const atrAtBar = (index: number) => atr[Math.max(0, offset + index - 1)];
+  const translateLevels = createLevelTranslator(levelMode, params, atrAtBar, atr[atr.length - 1] ?? 0);
 
   if (prices.length < 2) {
     return {
       success: false,
       message: "Not enough price data",
       trades: [],
-      statistics: null
+      statistics: null,
+      timeframe
     };
   }
 
+  const strategyErrors = validateStrategy(strategy);
+  if (strategyErrors.length > 0) {
+    return {
+      success: false,
+      message: `Invalid strategy: ${strategyErrors.join('; ')}`,
+      trades: [],
+      statistics: null,
+      timeframe
+    };
+  }
+
+  const strategySignals = compileStrategy(strategy, params.prices, {
+    direction,
+    timeframe,
+    levelsAt: (price, index) => translateLevels(price, index - offset)
+  });
+  const positionContext: PositionContext = {
+    direction,
+    fillPolicy,
+    drillDown,
+    exits: strategy.exits,
+    exitSignal: (index) => strategySignals.exit(offset + index),
+    atrAtBar
+  };
+
   const trades: BacktestTrade[] = [];
-  
-  // Start from the most recent 90 days of data
-  const startIndex = Math.max(0, prices.length - 90);
-  
-  for (let i = startIndex; i < prices.length - 1; i++) { // Prevent out-of-bounds errors
-    const currentCandle = prices[i];
-    const nextCandle = prices[i + 1]; // Next day's data
+  let openExitBars: number[] = []; // Exit bar of every position still open
+  const maxOpen = strategy.pyramiding ? Math.max(1, strategy.maxOpenPositions) : 1;
+
+  // A signal on the close of bar i enters at the open of bar i + 1
+  for (let i = 0; i < prices.length - 1; i++) { // Prevent out-of-bounds errors
+    onProgress?.(i + 1, prices.length - 1);
+    if (!strategySignals.entry(offset + i)) continue;
+
+    // Positions still open on the entry bar; without pyramiding only one is allowed
+    const entryIndex = i + 1;
+    openExitBars = openExitBars.filter(exitBar => exitBar >= entryIndex);
+    if (openExitBars.length >= maxOpen) continue;
 
+    const currentCandle = prices[entryIndex];
     const entryPrice = currentCandle.open ?? 0;
+    const { takeProfit, stopLoss } = translateLevels(entryPrice, entryIndex);
     const highPrice = currentCandle.high ?? 0; // ✅ Ensure correct high price
     const lowPrice = currentCandle.low ?? 0;   // ✅ Ensure correct low price
-    let exitPrice = nextCandle.close ?? 0;
-    let exitTime = nextCandle.time ?? 0;
-    let tradeResult: 'take_profit' | 'stop_loss' = 'stop_loss';
-    let exitFound = false;
-
-    // **Debugging: Log the extracted values to confirm correct data**
-    console.log(`Day ${new Date(currentCandle.time * 1000).toLocaleDateString()}:`);
-    console.log(`Open: ${entryPrice}, High: ${highPrice}, Low: ${lowPrice}, Close: ${exitPrice}`);
-
-    // Look forward from each entry point
-    for (let j = i + 1; j < prices.length && !exitFound; j++) {
-      const candle = prices[j];
-
-      if (direction === 'long') {
-        if (candle.high >= takeProfit) {
-          exitPrice = takeProfit;
-          tradeResult = 'take_profit';
-          exitTime = candle.time ?? 0;
-          exitFound = true;
-        } else if (candle.low <= stopLoss) {
-          exitPrice = stopLoss;
-          tradeResult = 'stop_loss';
-          exitTime = candle.time ?? 0;
-          exitFound = true;
-        }
-      } else {
-        if (candle.low <= takeProfit) {
-          exitPrice = takeProfit;
-          tradeResult = 'take_profit';
-          exitTime = candle.time ?? 0;
-          exitFound = true;
-        } else if (candle.high >= stopLoss) {
-          exitPrice = stopLoss;
-          tradeResult = 'stop_loss';
-          exitTime = candle.time ?? 0;
-          exitFound = true;
-        }
-      }
-    }
 
-    if (!exitFound) {
-      exitPrice = nextCandle.close ?? 0;
-      exitTime = nextCandle.time ?? 0;
-      tradeResult = 'stop_loss';
-    }
+    const position = managePosition(prices, entryIndex, entryPrice, takeProfit, stopLoss, positionContext);
+    if (!position) continue;
+
+    const { exitIndex, exitPrice, maxFavorable, maxAdverse } = position;
+    openExitBars.push(exitIndex);
 
-    const profitLoss = calculateProfitLoss(entryPrice, exitPrice, direction);
+    const grossProfitLoss = calculateProfitLoss(entryPrice, exitPrice, direction);
+    const costs = calculateTradeCosts(costModel, {
+      entryPrice,
+      exitPrice,
+      entryAtr: atrAtBar(entryIndex),
+      exitAtr: atrAtBar(exitIndex),
+      barsHeld: exitIndex - entryIndex,
+      direction
+    });
+    const risk = Math.abs(entryPrice - stopLoss);
 
     trades.push({
       entry_time: currentCandle.time ?? 0,
-      exit_time: exitTime,
+      exit_time: prices[exitIndex].time,
       entry_price: entryPrice,
       high_price: highPrice, // ✅ Fixing the high price assignment
       low_price: lowPrice,   // ✅ Fixing the low price assignment
       exit_price: exitPrice,
-      profit_loss: profitLoss,
+      result: position.result,
+      fill_resolution: position.fillResolution,
+      partial_exits: position.partialExits.length > 0 ? position.partialExits : undefined,
+      gross_profit_loss: grossProfitLoss,
+      profit_loss: grossProfitLoss - costs.total,
+      costs,
+      metrics: {
+        maxFavorableExcursion: maxFavorable,
+        maxAdverseExcursion: maxAdverse,
+        timeToExit: exitIndex - entryIndex, // Bars from entry to exit
+        riskRewardRatio: risk > 0 ? Math.abs(takeProfit - entryPrice) / risk : 0
+      },
+      stopLoss,
+      takeProfit
     });
   }
 
+  const equity = simulateEquity(trades, sizing, prices[0].time);
+
   return {
     success: true,
-    trades,
-    statistics: null
+    trades: equity.trades,
+    statistics: computeStatistics(equity.trades),
+    period: { start: prices[0].time, end: prices[prices.length - 1].time },
+    timeframe,
+    startingBalance: sizing.startingBalance,
+    finalEquity: equity.finalEquity,
+    equityCurve: equity.equityCurve
   };
 }
@@ -0,0 +1,67 @@
+/**
+ * costs.ts
+ *
+ * Trading cost model for the backtester.
+ *
+ * - Per-side exchange fees and half the bid/ask spread on each fill.
+ * - Slippage as fixed basis points, or scaled by the ATR at the time of the fill.
+ * - Optional perpetual funding charged (or paid) for every bar the position is held.
+ *
+ * Costs are expressed in % of the position's notional, so they can be subtracted
+ * directly from a trade's gross % return.
+ */
+
+import { CostModel, TradeCosts } from '../types';
+
+// No costs: the backtest reports pure price-difference returns
+export const ZERO_COST_MODEL: CostModel = {
+  entryFeeBps: 0,
+  exitFeeBps: 0,
+  spreadBps: 0,
+  slippage: { mode: 'fixed', bps: 0 },
+  fundingRatePerBar: 0
+};
+
+/**
+ * Slippage of one fill in basis points.
+ *
+ * @param model - The cost model
+ * @param price - Fill price
+ * @param atr - ATR known at the time of the fill
+ */
+const slippageBps = (model: CostModel, price: number, atr: number): number =>
+  model.slippage.mode === 'fixed'
+    ? model.slippage.bps
+    : price > 0 ? model.slippage.atrFraction * atr / price * 10000 : 0;
+
+/**
+ * Calculates the costs of a round-trip trade.
+ *
+ * @param model - The cost model
+ * @param trade - Entry/exit prices, the ATR at each fill, bars held and direction
+ * @returns Each cost component in % of notional, plus their total
+ */
+export function calculateTradeCosts(
+  model: CostModel,
+  trade: {
+    entryPrice: number;
+    exitPrice: number;
+    entryAtr: number;
+    exitAtr: number;
+    barsHeld: number;
+    direction: 'long' | 'short';
+  }
+): TradeCosts {
+  const fees = (model.entryFeeBps + model.exitFeeBps) / 100;
+  const spread = model.spreadBps / 100; // Half on entry plus half on exit
+  const slippage = (slippageBps(model, trade.entryPrice, trade.entryAtr) + slippageBps(model, trade.exitPrice, trade.exitAtr)) / 100;
+  const funding = model.fundingRatePerBar * trade.barsHeld * (trade.direction === 'long' ? 1 : -1);
+
+  return {
+    fees,
+    spread,
+    slippage,
+    funding,
+    total: fees + spread + slippage + funding
+  };
+}
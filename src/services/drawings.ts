@@ -0,0 +1,57 @@
+/**
+ * drawings.ts
+ *
+ * Chart annotations: trendlines, horizontal rays, rectangles and Fibonacci retracements.
+ *
+ * - `DRAWING_TOOLS` lists the tools and how many clicks each one takes to place.
+ * - `fibonacciLevels` gives the retracement prices of a swing.
+ * - `drawingLevels` collects the horizontal prices marked on the chart, which the trade
+ *   form offers as take-profit and stop-loss candidates.
+ */
+
+import { ChartDrawing, ChartPoint, DrawingTool, PriceLevel } from '../types';
+
+export const DRAWING_TOOLS: { id: DrawingTool; label: string; points: number }[] = [
+  { id: 'trendline', label: 'Trendline', points: 2 },
+  { id: 'horizontal', label: 'Horizontal ray', points: 1 },
+  { id: 'rectangle', label: 'Rectangle', points: 2 },
+  { id: 'fibonacci', label: 'Fib retracement', points: 2 }
+];
+
+// Retracement ratios, 0 at the end of the swing and 1 back at its start
+export const FIB_RATIOS = [0, 0.236, 0.382, 0.5, 0.618, 0.786, 1];
+
+/**
+ * A new drawing with a unique id.
+ */
+export const createDrawing = (tool: DrawingTool, points: ChartPoint[]): ChartDrawing => ({
+  id: `${tool}_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+  tool,
+  points
+});
+
+/**
+ * Retracement prices of the swing from the drawing's first point to its second.
+ */
+export function fibonacciLevels(drawing: ChartDrawing): { ratio: number; price: number }[] {
+  const [start, end] = drawing.points;
+  if (!start || !end) return [];
+  return FIB_RATIOS.map(ratio => ({ ratio, price: end.price - (end.price - start.price) * ratio }));
+}
+
+/**
+ * Horizontal prices marked on the chart: horizontal rays and Fibonacci levels, lowest first.
+ */
+export function drawingLevels(drawings: ChartDrawing[]): PriceLevel[] {
+  return drawings
+    .flatMap(drawing => {
+      if (drawing.tool === 'horizontal' && drawing.points[0]) {
+        return [{ label: 'Level', price: drawing.points[0].price }];
+      }
+      if (drawing.tool === 'fibonacci') {
+        return fibonacciLevels(drawing).map(({ ratio, price }) => ({ label: `Fib ${(ratio * 100).toFixed(1)}%`, price }));
+      }
+      return [];
+    })
+    .sort((a, b) => a.price - b.price);
+}
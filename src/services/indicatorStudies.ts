@@ -0,0 +1,362 @@
+/**
+ * indicatorStudies.ts
+ *
+ * Chart studies built on the indicators in `indicators.ts`.
+ *
+ * - Each study lists its parameters, the lines it draws (aligned with the candles) and
+ *   whether it sits over the candles or in its own pane below them.
+ * - Studies with a `score` also confirm or contradict a planned trade in `analyzeTrade`.
+ *   Scores run from 0 (against the trade's direction) to 100 (for it), from the last candle.
+ * - The volume study scores the share of recent volume on up candles, and a volume spike on
+ *   the last candle pushes the score towards that candle's direction.
+ * - EMA, Bollinger Bands and RSI are already part of `analyzeTrade`'s own scores, and ATR
+ *   has no direction, so they are drawn but not scored.
+ */
+
+import { IndicatorConfirmation, IndicatorParamSpec, IndicatorStudy, OHLCData, StudyId, StudyScore, StudySelection } from '../types';
+import {
+  alignToCandles,
+  calculateADX,
+  calculateATR,
+  calculateBollingerBands,
+  calculateEMA,
+  calculateIchimoku,
+  calculateMACD,
+  calculateOBV,
+  calculateRSI,
+  calculateRelativeVolume,
+  calculateSMA,
+  calculateStochastic,
+  calculateSupertrend,
+  calculateVolumeSMA,
+  calculateVWAP,
+  calculateWMA
+} from './indicators';
+
+const param = (name: string, defaultValue: number, integer = true, min = 1, max = 500): IndicatorParamSpec =>
+  ({ name, defaultValue, min, max, integer });
+
+const closesOf = (candles: OHLCData[]) => candles.map(c => c.close);
+const last = (values: number[]) => values[values.length - 1];
+const clampScore = (score: number) => Math.max(0, Math.min(100, score));
+
+// Scores are worked out for a long trade; a short trade is scored the other way round
+const forDirection = (longScore: number, direction: 'long' | 'short') =>
+  clampScore(direction === 'long' ? longScore : 100 - longScore);
+
+/**
+ * Score of the last close against a moving line: +/- 1% away moves the score by 10.
+ */
+const scoreAgainstLine = (
+  candles: OHLCData[],
+  line: number[],
+  label: string,
+  direction: 'long' | 'short'
+): StudyScore | null => {
+  const close = candles[candles.length - 1]?.close;
+  const value = last(line);
+  if (close === undefined || !Number.isFinite(value) || value === 0) return null;
+
+  const difference = (close - value) / value * 100;
+  return {
+    score: forDirection(50 + difference * 10, direction),
+    explanation: `Price is ${Math.abs(difference).toFixed(1)}% ${difference >= 0 ? 'above' : 'below'} the ${label}.`
+  };
+};
+
+export const INDICATOR_STUDIES: IndicatorStudy[] = [
+  {
+    id: 'ema',
+    label: 'EMA',
+    pane: 'price',
+    params: [param('Period', 20)],
+    lines: (candles, [period]) => [
+      { name: `EMA ${period}`, values: calculateEMA(closesOf(candles), period), color: '#2962FF' }
+    ]
+  },
+  {
+    id: 'sma',
+    label: 'SMA',
+    pane: 'price',
+    params: [param('Period', 50)],
+    lines: (candles, [period]) => [{ name: `SMA ${period}`, values: calculateSMA(candles, period), color: '#F59E0B' }],
+    score: (candles, [period], direction) =>
+      scoreAgainstLine(candles, calculateSMA(candles, period), `${period}-bar SMA`, direction)
+  },
+  {
+    id: 'wma',
+    label: 'WMA',
+    pane: 'price',
+    params: [param('Period', 20)],
+    lines: (candles, [period]) => [{ name: `WMA ${period}`, values: calculateWMA(candles, period), color: '#10B981' }],
+    score: (candles, [period], direction) =>
+      scoreAgainstLine(candles, calculateWMA(candles, period), `${period}-bar WMA`, direction)
+  },
+  {
+    id: 'bollinger',
+    label: 'Bollinger Bands',
+    pane: 'price',
+    params: [param('Period', 20), param('Std dev', 2, false, 0.1, 10)],
+    lines: (candles, [period, stdDev]) => {
+      const bands = calculateBollingerBands(closesOf(candles), period, stdDev);
+      return (['upper', 'middle', 'lower'] as const).map(band => ({
+        name: `BB ${band}`,
+        values: alignToCandles(bands[band], candles.length),
+        color: 'rgba(41, 98, 255, 0.2)'
+      }));
+    }
+  },
+  {
+    id: 'vwap',
+    label: 'VWAP',
+    pane: 'price',
+    params: [param('Period (0 = daily)', 0, true, 0)],
+    lines: (candles, [period]) => [{ name: 'VWAP', values: calculateVWAP(candles, period), color: '#EC4899' }],
+    score: (candles, [period], direction) =>
+      scoreAgainstLine(candles, calculateVWAP(candles, period), 'VWAP', direction)
+  },
+  {
+    id: 'ichimoku',
+    label: 'Ichimoku',
+    pane: 'price',
+    params: [param('Conversion', 9), param('Base', 26), param('Span B', 52), param('Displacement', 26)],
+    lines: (candles, params) => {
+      const ichimoku = calculateIchimoku(candles, params[0], params[1], params[2], params[3]);
+      return [
+        { name: 'Tenkan', values: ichimoku.conversion, color: '#2563EB' },
+        { name: 'Kijun', values: ichimoku.base, color: '#DC2626' },
+        { name: 'Span A', values: ichimoku.spanA, color: '#16A34A' },
+        { name: 'Span B', values: ichimoku.spanB, color: '#F97316' },
+        { name: 'Chikou', values: ichimoku.lagging, color: '#9CA3AF' }
+      ];
+    },
+    score: (candles, params, direction) => {
+      const ichimoku = calculateIchimoku(candles, params[0], params[1], params[2], params[3]);
+      const close = candles[candles.length - 1]?.close;
+      const top = Math.max(last(ichimoku.spanA), last(ichimoku.spanB));
+      const bottom = Math.min(last(ichimoku.spanA), last(ichimoku.spanB));
+      if (close === undefined || !Number.isFinite(top) || !Number.isFinite(bottom)) return null;
+
+      const position = close > top ? 'above' : close < bottom ? 'below' : 'inside';
+      const tkBullish = last(ichimoku.conversion) > last(ichimoku.base);
+      const longScore = (position === 'above' ? 80 : position === 'below' ? 20 : 50) + (tkBullish ? 10 : -10);
+      return {
+        score: forDirection(longScore, direction),
+        explanation: `Price is ${position} the cloud, Tenkan ${tkBullish ? 'above' : 'below'} Kijun.`
+      };
+    }
+  },
+  {
+    id: 'supertrend',
+    label: 'Supertrend',
+    pane: 'price',
+    params: [param('Period', 10), param('Multiplier', 3, false, 0.1, 20)],
+    lines: (candles, [period, multiplier]) => [
+      { name: 'Supertrend', values: calculateSupertrend(candles, period, multiplier).supertrend, color: '#0D9488' }
+    ],
+    score: (candles, [period, multiplier], direction) => {
+      const trend = last(calculateSupertrend(candles, period, multiplier).direction);
+      if (!Number.isFinite(trend)) return null;
+      return {
+        score: forDirection(trend === 1 ? 80 : 20, direction),
+        explanation: `Supertrend is in a${trend === 1 ? 'n uptrend' : ' downtrend'}.`
+      };
+    }
+  },
+  {
+    id: 'rsi',
+    label: 'RSI',
+    pane: 'separate',
+    params: [param('Period', 14)],
+    levels: [30, 70],
+    lines: (candles, [period]) => [
+      { name: `RSI (${period})`, values: alignToCandles(calculateRSI(closesOf(candles), period), candles.length), color: '#7B1FA2' }
+    ]
+  },
+  {
+    id: 'macd',
+    label: 'MACD',
+    pane: 'separate',
+    params: [param('Fast', 12), param('Slow', 26), param('Signal', 9)],
+    lines: (candles, params) => {
+      const macd = calculateMACD(candles, params[0], params[1], params[2]);
+      return [
+        { name: 'Histogram', values: macd.histogram, color: '#9CA3AF', histogram: true },
+        { name: 'MACD', values: macd.macd, color: '#2563EB' },
+        { name: 'Signal', values: macd.signal, color: '#F97316' }
+      ];
+    },
+    score: (candles, params, direction) => {
+      const { histogram } = calculateMACD(candles, params[0], params[1], params[2]);
+      if (histogram.length < 2) return null;
+
+      const current = last(histogram);
+      const rising = current > histogram[histogram.length - 2];
+      const longScore = current > 0 ? (rising ? 85 : 65) : current < 0 ? (rising ? 35 : 15) : 50;
+      return {
+        score: forDirection(longScore, direction),
+        explanation: `MACD histogram is ${current >= 0 ? 'positive' : 'negative'} and ${rising ? 'rising' : 'falling'}.`
+      };
+    }
+  },
+  {
+    id: 'stochastic',
+    label: 'Stochastic',
+    pane: 'separate',
+    params: [param('%K period', 14), param('%D period', 3), param('Smoothing', 3)],
+    levels: [20, 80],
+    lines: (candles, params) => {
+      const stochastic = calculateStochastic(candles, params[0], params[1], params[2]);
+      return [
+        { name: '%K', values: stochastic.k, color: '#2563EB' },
+        { name: '%D', values: stochastic.d, color: '#F97316' }
+      ];
+    },
+    score: (candles, params, direction) => {
+      const { k, d } = calculateStochastic(candles, params[0], params[1], params[2]);
+      const currentK = last(k);
+      const currentD = last(d);
+      if (!Number.isFinite(currentK) || !Number.isFinite(currentD)) return null;
+
+      const longScore = currentK < 20 ? 80 : currentK > 80 ? 20 : currentK > currentD ? 60 : 40;
+      const zone = currentK < 20 ? 'oversold' : currentK > 80 ? 'overbought' : `%K ${currentK > currentD ? 'above' : 'below'} %D`;
+      return { score: forDirection(longScore, direction), explanation: `Stochastic %K at ${currentK.toFixed(0)}, ${zone}.` };
+    }
+  },
+  {
+    id: 'adx',
+    label: 'ADX / DMI',
+    pane: 'separate',
+    params: [param('Period', 14)],
+    levels: [25],
+    lines: (candles, [period]) => {
+      const adx = calculateADX(candles, period);
+      return [
+        { name: 'ADX', values: adx.adx, color: '#111827' },
+        { name: '+DI', values: adx.plusDI, color: '#16A34A' },
+        { name: '−DI', values: adx.minusDI, color: '#DC2626' }
+      ];
+    },
+    score: (candles, [period], direction) => {
+      const adx = calculateADX(candles, period);
+      const strength = last(adx.adx);
+      const plus = last(adx.plusDI);
+      const minus = last(adx.minusDI);
+      if (!Number.isFinite(strength) || !Number.isFinite(plus) || !Number.isFinite(minus)) return null;
+
+      // A strong trend pushes the score towards the side the DI lines point to
+      const longScore = 50 + (plus > minus ? 1 : -1) * 50 * Math.min(1, strength / 50);
+      return {
+        score: forDirection(longScore, direction),
+        explanation: `ADX ${strength.toFixed(0)} (${strength >= 25 ? 'trending' : 'weak trend'}), +DI ${plus > minus ? 'above' : 'below'} −DI.`
+      };
+    }
+  },
+  {
+    id: 'atr',
+    label: 'ATR',
+    pane: 'separate',
+    params: [param('Period', 14)],
+    lines: (candles, [period]) => [{ name: `ATR (${period})`, values: calculateATR(candles, period), color: '#6B7280' }]
+  },
+  {
+    id: 'volume',
+    label: 'Volume',
+    pane: 'separate',
+    params: [param('MA period', 20), param('Spike ×', 2, false, 1, 20)],
+    lines: (candles, [period, spike]) => {
+      const relative = calculateRelativeVolume(candles, period);
+      return [
+        {
+          name: 'Volume',
+          values: candles.map(c => c.volume ?? NaN),
+          color: '#9CA3AF',
+          histogram: true,
+          // Spikes are drawn solid
+          barColors: candles.map((c, i) => {
+            const alpha = relative[i] >= spike ? 1 : 0.4;
+            return c.close >= c.open ? `rgba(38, 166, 154, ${alpha})` : `rgba(239, 83, 80, ${alpha})`;
+          })
+        },
+        { name: `Volume MA ${period}`, values: calculateVolumeSMA(candles, period), color: '#F59E0B' }
+      ];
+    },
+    score: (candles, [period, spike], direction) => {
+      const recent = candles.slice(-period);
+      if (recent.length < period || recent.some(c => c.volume === undefined)) return null;
+
+      const total = recent.reduce((sum, c) => sum + c.volume!, 0);
+      const upVolume = recent.reduce((sum, c) => sum + (c.close >= c.open ? c.volume! : 0), 0);
+      if (total === 0) return null;
+
+      const upShare = upVolume / total * 100;
+      const relative = last(calculateRelativeVolume(candles, period));
+      const lastCandle = candles[candles.length - 1];
+      const spiking = relative >= spike;
+      const longScore = upShare + (spiking ? (lastCandle.close >= lastCandle.open ? 15 : -15) : 0);
+
+      return {
+        score: forDirection(longScore, direction),
+        explanation: `${upShare.toFixed(0)}% of the last ${period} bars' volume was on up candles` +
+          (spiking ? `, last bar is a ${relative.toFixed(1)}× volume spike on ${lastCandle.close >= lastCandle.open ? 'an up' : 'a down'} candle.` : '.')
+      };
+    }
+  },
+  {
+    id: 'obv',
+    label: 'OBV',
+    pane: 'separate',
+    params: [],
+    lines: (candles) => [{ name: 'OBV', values: calculateOBV(candles), color: '#0EA5E9' }],
+    score: (candles, _params, direction) => {
+      const obv = calculateOBV(candles);
+      if (obv.length < 21) return null;
+
+      // Volume flow over the last 20 bars
+      const change = last(obv) - obv[obv.length - 21];
+      return {
+        score: forDirection(change > 0 ? 70 : change < 0 ? 30 : 50, direction),
+        explanation: `On-balance volume is ${change > 0 ? 'rising' : change < 0 ? 'falling' : 'flat'} over the last 20 bars.`
+      };
+    }
+  }
+];
+
+/**
+ * Looks up a study.
+ */
+export function getStudy(id: StudyId): IndicatorStudy | undefined {
+  return INDICATOR_STUDIES.find(study => study.id === id);
+}
+
+/**
+ * A study with its default parameters.
+ */
+export const defaultSelection = (study: IndicatorStudy): StudySelection =>
+  ({ id: study.id, params: study.params.map(p => p.defaultValue) });
+
+// Studies on the chart before the user picks any
+export const DEFAULT_CHART_STUDIES: StudySelection[] = (['ema', 'bollinger', 'volume', 'rsi'] as StudyId[])
+  .map(id => defaultSelection(getStudy(id)!));
+
+/**
+ * Scores the selected studies for a planned trade. Studies without a score, or without
+ * enough candles yet, are left out.
+ *
+ * @param candles - Candles up to now
+ * @param selections - Studies to score; every scoring study with its defaults when omitted
+ * @param direction - Direction of the planned trade
+ */
+export function scoreStudies(
+  candles: OHLCData[],
+  selections: StudySelection[] | undefined,
+  direction: 'long' | 'short'
+): IndicatorConfirmation[] {
+  const chosen = selections ?? INDICATOR_STUDIES.filter(study => study.score).map(defaultSelection);
+
+  return chosen.flatMap(selection => {
+    const study = getStudy(selection.id);
+    const result = study?.score?.(candles, selection.params, direction);
+    return study && result ? [{ id: study.id, label: study.label, ...result }] : [];
+  });
+}
@@ -0,0 +1,409 @@
+/**
+ * indicators.ts
+ *
+ * Batch technical indicators.
+ *
+ * - `calculateEMA`, `calculateRSI` and `calculateBollingerBands` take closes and return
+ *   series that end on the last close (use `alignToCandles` to line them up with candles).
+ * - Every other indicator takes the candles first, then its parameters, and returns series
+ *   aligned with the candles: index `i` is the value at the close of candle `i`, and `NaN`
+ *   while the indicator is warming up. Multi-line indicators return one such series per line.
+ * - Candles without volume count with a volume of 1 in VWAP and OBV, and are `NaN` in the
+ *   volume average and relative volume.
+ */
+
+import { OHLCData } from '../types';
+
+const closesOf = (candles: OHLCData[]) => candles.map(c => c.close);
+
+/**
+ * Mean of the last `period` values, `NaN` until `period` values are available or when
+ * the window holds a `NaN`.
+ */
+const rollingMean = (values: number[], period: number): number[] =>
+  values.map((_, i) => {
+    if (i < period - 1) return NaN;
+    let sum = 0;
+    for (let j = i - period + 1; j <= i; j++) sum += values[j];
+    return sum / period;
+  });
+
+/**
+ * Midpoint of the highest high and lowest low of the last `period` candles.
+ */
+const rangeMidpoint = (candles: OHLCData[], i: number, period: number): number => {
+  if (i < period - 1) return NaN;
+  let high = -Infinity;
+  let low = Infinity;
+  for (let j = i - period + 1; j <= i; j++) {
+    high = Math.max(high, candles[j].high);
+    low = Math.min(low, candles[j].low);
+  }
+  return (high + low) / 2;
+};
+
+export function calculateEMA(prices: number[], period: number): number[] {
+  const multiplier = 2 / (period + 1);
+  const ema: number[] = [prices[0]];
+
+  for (let i = 1; i < prices.length; i++) {
+    const currentEMA = (prices[i] - ema[i - 1]) * multiplier + ema[i - 1];
+    ema.push(currentEMA);
+  }
+
+  return ema;
+}
+
+export function calculateRSI(prices: number[], period: number = 14): number[] {
+  const rsi: number[] = [];
+  const gains: number[] = [];
+  const losses: number[] = [];
+
+  for (let i = 1; i < prices.length; i++) {
+    const change = prices[i] - prices[i - 1];
+    gains.push(change > 0 ? change : 0);
+    losses.push(change < 0 ? -change : 0);
+  }
+
+  let avgGain = gains.slice(0, period).reduce((a, b) => a + b, 0) / period;
+  let avgLoss = losses.slice(0, period).reduce((a, b) => a + b, 0) / period;
+
+  rsi.push(100 - (100 / (1 + avgGain / avgLoss)));
+
+  for (let i = period; i < prices.length - 1; i++) {
+    avgGain = ((avgGain * (period - 1)) + gains[i]) / period;
+    avgLoss = ((avgLoss * (period - 1)) + losses[i]) / period;
+    rsi.push(100 - (100 / (1 + avgGain / avgLoss)));
+  }
+
+  return rsi;
+}
+
+export function calculateBollingerBands(
+  prices: number[], 
+  period: number = 20, 
+  stdDev: number = 2,
+  lookback: number = 100
+): {
+  upper: number[];
+  middle: number[];
+  lower: number[];
+  bandWidths: number[];
+  averageBandWidth: number;
+} {
+  const bands = {
+    upper: [] as number[],
+    middle: [] as number[],
+    lower: [] as number[],
+    bandWidths: [] as number[],
+    averageBandWidth: 0
+  };
+
+  for (let i = period - 1; i < prices.length; i++) {
+    const slice = prices.slice(i - period + 1, i + 1);
+    const sma = slice.reduce((a, b) => a + b) / period;
+    
+    const squaredDiffs = slice.map(price => Math.pow(price - sma, 2));
+    const variance = squaredDiffs.reduce((a, b) => a + b) / period;
+    const standardDeviation = Math.sqrt(variance);
+
+    bands.middle.push(sma);
+    bands.upper.push(sma + (standardDeviation * stdDev));
+    bands.lower.push(sma - (standardDeviation * stdDev));
+    
+    const bandWidth = ((sma + (standardDeviation * stdDev)) - (sma - (standardDeviation * stdDev))) / sma * 100;
+    bands.bandWidths.push(bandWidth);
+  }
+
+  const recentBandWidths = bands.bandWidths.slice(-lookback);
+  bands.averageBandWidth = recentBandWidths.reduce((a, b) => a + b, 0) / recentBandWidths.length;
+
+  return bands;
+}
+
+/**
+ * Average True Range using Wilder's smoothing.
+ * The output is aligned with `candles`; before `period` candles are available
+ * each value is the plain average of the true ranges seen so far.
+ */
+export function calculateATR(candles: OHLCData[], period: number = 14): number[] {
+  const atr: number[] = [];
+
+  for (let i = 0; i < candles.length; i++) {
+    const { high, low } = candles[i];
+    const prevClose = i > 0 ? candles[i - 1].close : candles[i].close;
+    const trueRange = Math.max(high - low, Math.abs(high - prevClose), Math.abs(low - prevClose));
+
+    if (i < period) {
+      atr.push(i === 0 ? trueRange : (atr[i - 1] * i + trueRange) / (i + 1));
+    } else {
+      atr.push((atr[i - 1] * (period - 1) + trueRange) / period);
+    }
+  }
+
+  return atr;
+}
+
+/**
+ * Pads an indicator series that starts late with `NaN`, so index `i` matches candle `i`.
+ * The close-based indicators above all end on the last candle.
+ */
+export function alignToCandles(values: number[], length: number): number[] {
+  return [...new Array(Math.max(0, length - values.length)).fill(NaN), ...values.slice(-length)];
+}
+
+/**
+ * Simple moving average of closes.
+ */
+export function calculateSMA(candles: OHLCData[], period: number = 20): number[] {
+  return rollingMean(closesOf(candles), period);
+}
+
+/**
+ * Linearly weighted moving average of closes; the newest close has weight `period`.
+ */
+export function calculateWMA(candles: OHLCData[], period: number = 20): number[] {
+  const weightSum = period * (period + 1) / 2;
+  return candles.map((_, i) => {
+    if (i < period - 1) return NaN;
+    let sum = 0;
+    for (let k = 1; k <= period; k++) sum += candles[i - period + k].close * k;
+    return sum / weightSum;
+  });
+}
+
+/**
+ * MACD line (fast EMA − slow EMA), its signal EMA and the histogram between them.
+ * The EMAs are seeded with the first close, so every line starts on the first candle.
+ */
+export function calculateMACD(
+  candles: OHLCData[],
+  fastPeriod: number = 12,
+  slowPeriod: number = 26,
+  signalPeriod: number = 9
+): { macd: number[]; signal: number[]; histogram: number[] } {
+  if (candles.length === 0) return { macd: [], signal: [], histogram: [] };
+
+  const closes = closesOf(candles);
+  const fast = calculateEMA(closes, fastPeriod);
+  const slow = calculateEMA(closes, slowPeriod);
+  const macd = closes.map((_, i) => fast[i] - slow[i]);
+  const signal = calculateEMA(macd, signalPeriod);
+
+  return { macd, signal, histogram: macd.map((value, i) => value - signal[i]) };
+}
+
+/**
+ * Slow stochastic oscillator: %K is the close's position in the last `kPeriod` candles'
+ * range (0 to 100), smoothed over `smoothing` candles; %D is the mean of %K over `dPeriod`.
+ */
+export function calculateStochastic(
+  candles: OHLCData[],
+  kPeriod: number = 14,
+  dPeriod: number = 3,
+  smoothing: number = 3
+): { k: number[]; d: number[] } {
+  const raw = candles.map((candle, i) => {
+    if (i < kPeriod - 1) return NaN;
+    let high = -Infinity;
+    let low = Infinity;
+    for (let j = i - kPeriod + 1; j <= i; j++) {
+      high = Math.max(high, candles[j].high);
+      low = Math.min(low, candles[j].low);
+    }
+    return high === low ? 50 : (candle.close - low) / (high - low) * 100;
+  });
+
+  const k = rollingMean(raw, smoothing);
+  return { k, d: rollingMean(k, dPeriod) };
+}
+
+/**
+ * Average Directional Index with the +DI and −DI lines, using Wilder's smoothing.
+ * The DI lines start after `period` candles, ADX after `2 × period`.
+ */
+export function calculateADX(
+  candles: OHLCData[],
+  period: number = 14
+): { adx: number[]; plusDI: number[]; minusDI: number[] } {
+  const adx: number[] = new Array(candles.length).fill(NaN);
+  const plusDI: number[] = new Array(candles.length).fill(NaN);
+  const minusDI: number[] = new Array(candles.length).fill(NaN);
+
+  let smoothedTR = 0;
+  let smoothedPlus = 0;
+  let smoothedMinus = 0;
+  let dxSum = 0;
+
+  for (let i = 1; i < candles.length; i++) {
+    const { high, low } = candles[i];
+    const previous = candles[i - 1];
+    const trueRange = Math.max(high - low, Math.abs(high - previous.close), Math.abs(low - previous.close));
+    const upMove = high - previous.high;
+    const downMove = previous.low - low;
+    const plusDM = upMove > downMove && upMove > 0 ? upMove : 0;
+    const minusDM = downMove > upMove && downMove > 0 ? downMove : 0;
+
+    // Wilder's smoothing starts from the plain sum of the first `period` values
+    if (i <= period) {
+      smoothedTR += trueRange;
+      smoothedPlus += plusDM;
+      smoothedMinus += minusDM;
+      if (i < period) continue;
+    } else {
+      smoothedTR = smoothedTR - smoothedTR / period + trueRange;
+      smoothedPlus = smoothedPlus - smoothedPlus / period + plusDM;
+      smoothedMinus = smoothedMinus - smoothedMinus / period + minusDM;
+    }
+
+    plusDI[i] = smoothedTR > 0 ? smoothedPlus / smoothedTR * 100 : 0;
+    minusDI[i] = smoothedTR > 0 ? smoothedMinus / smoothedTR * 100 : 0;
+    const diSum = plusDI[i] + minusDI[i];
+    const dx = diSum > 0 ? Math.abs(plusDI[i] - minusDI[i]) / diSum * 100 : 0;
+
+    // ADX averages the first `period` DX values, then smooths them
+    const dxCount = i - period + 1;
+    if (dxCount < period) {
+      dxSum += dx;
+    } else if (dxCount === period) {
+      adx[i] = (dxSum + dx) / period;
+    } else {
+      adx[i] = (adx[i - 1] * (period - 1) + dx) / period;
+    }
+  }
+
+  return { adx, plusDI, minusDI };
+}
+
+/**
+ * Volume-weighted average of the typical price (high + low + close) / 3.
+ *
+ * @param period - Bars in a rolling window, or 0 to restart the average each UTC day
+ */
+export function calculateVWAP(candles: OHLCData[], period: number = 0): number[] {
+  const typical = candles.map(c => (c.high + c.low + c.close) / 3);
+  const volumes = candles.map(c => c.volume ?? 1);
+
+  if (period > 0) {
+    return candles.map((_, i) => {
+      if (i < period - 1) return NaN;
+      let weighted = 0;
+      let volume = 0;
+      for (let j = i - period + 1; j <= i; j++) {
+        weighted += typical[j] * volumes[j];
+        volume += volumes[j];
+      }
+      return volume > 0 ? weighted / volume : typical[i];
+    });
+  }
+
+  let weighted = 0;
+  let volume = 0;
+  return candles.map((candle, i) => {
+    if (i > 0 && Math.floor(candle.time / 86400) !== Math.floor(candles[i - 1].time / 86400)) {
+      weighted = 0;
+      volume = 0;
+    }
+    weighted += typical[i] * volumes[i];
+    volume += volumes[i];
+    return volume > 0 ? weighted / volume : typical[i];
+  });
+}
+
+/**
+ * On-balance volume: running total of volume, added on up closes and subtracted on down closes.
+ */
+export function calculateOBV(candles: OHLCData[]): number[] {
+  let obv = 0;
+  return candles.map((candle, i) => {
+    if (i > 0) {
+      const change = candle.close - candles[i - 1].close;
+      obv += change > 0 ? candle.volume ?? 1 : change < 0 ? -(candle.volume ?? 1) : 0;
+    }
+    return obv;
+  });
+}
+
+/**
+ * Simple moving average of volume.
+ */
+export function calculateVolumeSMA(candles: OHLCData[], period: number = 20): number[] {
+  return rollingMean(candles.map(c => c.volume ?? NaN), period);
+}
+
+/**
+ * Relative volume: each candle's volume over the mean volume of the `period` candles before
+ * it, so 2 is twice the usual volume. Use it to spot volume spikes.
+ */
+export function calculateRelativeVolume(candles: OHLCData[], period: number = 20): number[] {
+  const average = calculateVolumeSMA(candles, period);
+  return candles.map((candle, i) => i > 0 && average[i - 1] > 0 ? (candle.volume ?? NaN) / average[i - 1] : NaN);
+}
+
+/**
+ * Ichimoku Kinko Hyo lines.
+ *
+ * The leading spans are shifted forward by `displacement` onto the candle they are drawn
+ * at, so span values past the last candle are not returned. The lagging span is the close
+ * drawn `displacement` candles back, i.e. it reads later closes: use it for charts only.
+ */
+export function calculateIchimoku(
+  candles: OHLCData[],
+  conversionPeriod: number = 9,
+  basePeriod: number = 26,
+  spanBPeriod: number = 52,
+  displacement: number = 26
+): { conversion: number[]; base: number[]; spanA: number[]; spanB: number[]; lagging: number[] } {
+  const conversion = candles.map((_, i) => rangeMidpoint(candles, i, conversionPeriod));
+  const base = candles.map((_, i) => rangeMidpoint(candles, i, basePeriod));
+
+  return {
+    conversion,
+    base,
+    spanA: candles.map((_, i) =>
+      i >= displacement ? (conversion[i - displacement] + base[i - displacement]) / 2 : NaN),
+    spanB: candles.map((_, i) =>
+      i >= displacement ? rangeMidpoint(candles, i - displacement, spanBPeriod) : NaN),
+    lagging: candles.map((_, i) => candles[i + displacement]?.close ?? NaN)
+  };
+}
+
+/**
+ * Supertrend: an ATR band below price in an uptrend and above it in a downtrend, which
+ * flips when a close crosses it. `direction` is 1 in an uptrend and -1 in a downtrend.
+ */
+export function calculateSupertrend(
+  candles: OHLCData[],
+  period: number = 10,
+  multiplier: number = 3
+): { supertrend: number[]; direction: number[] } {
+  const atr = calculateATR(candles, period);
+  const supertrend: number[] = new Array(candles.length).fill(NaN);
+  const direction: number[] = new Array(candles.length).fill(NaN);
+
+  let upper = Infinity;
+  let lower = -Infinity;
+  let trend = 1;
+
+  for (let i = 0; i < candles.length; i++) {
+    const { high, low, close } = candles[i];
+    const middle = (high + low) / 2;
+    const basicUpper = middle + multiplier * atr[i];
+    const basicLower = middle - multiplier * atr[i];
+    const previousClose = i > 0 ? candles[i - 1].close : close;
+
+    // Bands only move towards price, unless the previous close broke through them
+    upper = basicUpper < upper || previousClose > upper ? basicUpper : upper;
+    lower = basicLower > lower || previousClose < lower ? basicLower : lower;
+
+    if (trend === 1 && close < lower) trend = -1;
+    else if (trend === -1 && close > upper) trend = 1;
+
+    if (i >= period - 1) {
+      supertrend[i] = trend === 1 ? lower : upper;
+      direction[i] = trend;
+    }
+  }
+
+  return { supertrend, direction };
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { runMonteCarlo, tradeReturns } from './monteCarlo';
+import { BacktestResult, BacktestTrade, MonteCarloConfig } from '../types';
+
+// A backtest whose trades returned the given %s, one per hour
+const backtest = (returns: number[]): BacktestResult => ({
+  success: true,
+  startingBalance: 10000,
+  trades: returns.map((profitLoss, i) => ({ entry_time: i * 3600, exit_time: (i + 1) * 3600, profit_loss: profitLoss }) as BacktestTrade)
+} as BacktestResult);
+
+const RETURNS = [3, -2, 1.5, -1, 4, -3, 2, -0.5, 1, -2.5, 2.5, -1.5];
+
+const config = (overrides: Partial<MonteCarloConfig> = {}): MonteCarloConfig => ({ runs: 500, method: 'bootstrap', ruinDrawdown: 5, ...overrides });
+
+describe('runMonteCarlo', () => {
+  it('gives the same result for the same seed', () => {
+    expect(runMonteCarlo(backtest(RETURNS), config(), 7)).toEqual(runMonteCarlo(backtest(RETURNS), config(), 7));
+  });
+
+  it('draws new samples for a new seed', () => {
+    const first = runMonteCarlo(backtest(RETURNS), config(), 1)!;
+    const second = runMonteCarlo(backtest(RETURNS), config(), 2)!;
+
+    expect(second.finalEquity).not.toEqual(first.finalEquity);
+    expect(second.actualEquity).toEqual(first.actualEquity);
+  });
+
+  it('keeps the final equity of every shuffled run', () => {
+    const result = runMonteCarlo(backtest(RETURNS), config({ method: 'shuffle' }), 3)!;
+    const final = result.actualEquity[result.actualEquity.length - 1];
+
+    expect(result.finalEquity.p5).toBeCloseTo(final);
+    expect(result.finalEquity.p95).toBeCloseTo(final);
+    expect(result.maxDrawdown.p95).toBeGreaterThan(result.maxDrawdown.p5);
+  });
+
+  it('reports progress after each run', () => {
+    const progress: number[] = [];
+    runMonteCarlo(backtest(RETURNS), config({ runs: 20 }), 0, (done, total) => {
+      expect(total).toBe(20);
+      progress.push(done);
+    });
+
+    expect(progress).toEqual(Array.from({ length: 20 }, (_, i) => i + 1));
+  });
+
+  it('returns null without trades', () => {
+    expect(runMonteCarlo(backtest([]), config(), 0)).toBeNull();
+    expect(tradeReturns(backtest([1, -1]))).toEqual([0.01, -0.01]);
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * monteCarlo.ts
+ *
+ * Monte Carlo resampling of backtest trades.
+ *
+ * - Replays the backtest's trade returns in thousands of random orders (shuffle) or
+ *   draws them with replacement (bootstrap), compounding each run from the starting balance.
+ * - Reports percentile bands of the equity after each trade, of the final equity and of
+ *   the max drawdown, and the risk of ruin: the share of runs whose drawdown reached a threshold.
+ *
+ * Each trade's return is its $ P/L over the equity before it closed, so a run keeps the
+ * backtest's sizing as a fraction of equity rather than its dollar amounts.
+ *
+ * Samples come from a seeded generator: the same seed always gives the same result,
+ * a new seed draws a fresh set of runs.
+ */
+
+import { BacktestResult, MonteCarloConfig, MonteCarloResult, PercentileBands } from '../types';
+
+// Upper bound on runs, and on the points of the equity fan kept per run
+export const MAX_MONTE_CARLO_RUNS = 20000;
+const MAX_BAND_POINTS = 100;
+
+export const DEFAULT_MONTE_CARLO: MonteCarloConfig = {
+  runs: 2000,
+  method: 'shuffle',
+  ruinDrawdown: 50
+};
+
+/**
+ * Seeded random numbers in [0, 1) (mulberry32).
+ */
+const seededRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * Percentile of sorted values, interpolated between the closest ranks.
+ */
+const percentile = (sorted: ArrayLike<number>, p: number): number => {
+  if (sorted.length === 0) return 0;
+  const rank = (sorted.length - 1) * p;
+  const low = Math.floor(rank);
+  const high = Math.min(low + 1, sorted.length - 1);
+  return sorted[low] + (sorted[high] - sorted[low]) * (rank - low);
+};
+
+const percentileBands = (values: Float64Array): PercentileBands => {
+  const sorted = values.slice().sort();
+  return {
+    p5: percentile(sorted, 0.05),
+    p25: percentile(sorted, 0.25),
+    p50: percentile(sorted, 0.5),
+    p75: percentile(sorted, 0.75),
+    p95: percentile(sorted, 0.95)
+  };
+};
+
+/**
+ * Account returns (fractions) of a backtest's trades, in the order they closed.
+ * Falls back to the trade's own % return when it wasn't sized.
+ */
+export const tradeReturns = (result: BacktestResult): number[] =>
+  [...result.trades]
+    .sort((a, b) => a.exit_time - b.exit_time)
+    .map(trade => {
+      if (trade.pnl === undefined || trade.equity_after === undefined) return trade.profit_loss / 100;
+      const equityBefore = trade.equity_after - trade.pnl;
+      return equityBefore > 0 ? trade.pnl / equityBefore : 0;
+    });
+
+/**
+ * Runs the Monte Carlo simulation.
+ *
+ * @param result - Backtest whose trades are resampled
+ * @param config - Number of runs, resampling method and ruin threshold
+ * @param seed - Seed of the random samples
+ * @param onProgress - Called after each run
+ * @returns Percentile bands and risk of ruin, or null when the backtest has no trades
+ */
+export function runMonteCarlo(
+  result: BacktestResult,
+  config: MonteCarloConfig,
+  seed: number,
+  onProgress?: (done: number, total: number) => void
+): MonteCarloResult | null {
+  const returns = tradeReturns(result);
+  const n = returns.length;
+  if (n === 0) return null;
+
+  const runs = Math.max(1, Math.min(MAX_MONTE_CARLO_RUNS, Math.floor(config.runs)));
+  const startingBalance = result.startingBalance ?? 10000;
+
+  // Trade counts at which the equity fan is sampled, always including the first and last
+  const step = Math.max(1, Math.ceil(n / MAX_BAND_POINTS));
+  const bandTrades: number[] = [];
+  for (let k = 0; k < n; k += step) bandTrades.push(k);
+  bandTrades.push(n);
+
+  const bandEquity = bandTrades.map(() => new Float64Array(runs));
+  const finalEquity = new Float64Array(runs);
+  const maxDrawdown = new Float64Array(runs);
+  const order = returns.slice();
+  const random = seededRandom(seed);
+  let ruined = 0;
+
+  for (let run = 0; run < runs; run++) {
+    if (config.method === 'shuffle') {
+      for (let i = n - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [order[i], order[j]] = [order[j], order[i]];
+      }
+    } else {
+      for (let i = 0; i < n; i++) order[i] = returns[Math.floor(random() * n)];
+    }
+
+    let equity = startingBalance;
+    let peak = equity;
+    let drawdown = 0;
+    let band = 0;
+    for (let i = 0; i <= n; i++) {
+      if (bandTrades[band] === i) bandEquity[band++][run] = equity;
+      if (i === n) break;
+      equity = Math.max(0, equity * (1 + order[i]));
+      peak = Math.max(peak, equity);
+      drawdown = Math.max(drawdown, peak > 0 ? (peak - equity) / peak * 100 : 0);
+    }
+
+    finalEquity[run] = equity;
+    maxDrawdown[run] = drawdown;
+    if (drawdown >= config.ruinDrawdown) ruined++;
+    onProgress?.(run + 1, runs);
+  }
+
+  // The backtest's own path, for comparison with the fan
+  const actualEquity = [startingBalance];
+  returns.forEach(r => actualEquity.push(Math.max(0, actualEquity[actualEquity.length - 1] * (1 + r))));
+
+  return {
+    runs,
+    startingBalance,
+    equityBands: bandTrades.map((trade, index) => ({ trade, ...percentileBands(bandEquity[index]) })),
+    actualEquity,
+    finalEquity: percentileBands(finalEquity),
+    maxDrawdown: percentileBands(maxDrawdown),
+    riskOfRuin: ruined / runs
+  };
+}
@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_PARAMETER_SETS, parameterSets, runOptimization } from './optimizer';
+import { DEFAULT_SIZING } from './sizing';
+import { NO_EXTRA_EXITS } from './strategy';
+import { BacktestParams, OHLCData, OptimizationConfig } from '../types';
+
+const DAY = 24 * 60 * 60;
+
+const config = (overrides: Partial<OptimizationConfig>): OptimizationConfig => ({
+  takeProfit: { min: 2, max: 4, step: 2 },
+  stopLoss: { min: 2, max: 2, step: 1 },
+  period: null,
+  method: 'grid',
+  samples: 10,
+  objective: 'net_profit',
+  minTrades: 1,
+  ...overrides
+});
+
+// Enters at 100 on the second bar, which reaches 103 before the close settles at 101
+const prices: OHLCData[] = [
+  [100, 100, 100, 100],
+  [100, 103, 99.5, 101],
+  [101, 101, 101, 101],
+  [101, 101, 101, 101]
+].map(([open, high, low, close], i) => ({ time: i * DAY, open, high, low, close }));
+
+const params: BacktestParams = {
+  prices,
+  entryPrice: 100,
+  takeProfit: 102,
+  stopLoss: 98,
+  direction: 'long',
+  sizing: { ...DEFAULT_SIZING, mode: 'fixed_notional', notional: 1000 },
+  strategy: {
+    name: 'Test',
+    entryRules: [{ type: 'every_bar' }],
+    exitRules: [],
+    exits: NO_EXTRA_EXITS,
+    pyramiding: false,
+    maxOpenPositions: 1
+  }
+};
+
+describe('parameterSets', () => {
+  it('covers every grid point', () => {
+    const sets = parameterSets(config({ takeProfit: { min: 1, max: 3, step: 1 }, stopLoss: { min: 0.5, max: 1, step: 0.5 } }));
+
+    expect(sets).toHaveLength(6);
+    expect(sets.map(s => [s.tp, s.sl])).toEqual([[1, 0.5], [1, 1], [2, 0.5], [2, 1], [3, 0.5], [3, 1]]);
+  });
+
+  it('samples distinct grid points for random search', () => {
+    const grid = config({ takeProfit: { min: 1, max: 10, step: 1 }, stopLoss: { min: 1, max: 10, step: 1 } });
+    const sets = parameterSets({ ...grid, method: 'random', samples: 15 });
+
+    expect(sets).toHaveLength(15);
+    expect(new Set(sets.map(s => `${s.tp}/${s.sl}`)).size).toBe(15);
+    sets.forEach(s => expect(parameterSets(grid)).toContainEqual(s));
+  });
+
+  it('tries the whole grid when asked for more samples than it has', () => {
+    expect(parameterSets(config({ method: 'random', samples: 50 }))).toHaveLength(2);
+  });
+});
+
+describe('runOptimization', () => {
+  it('ranks the parameter sets by net profit', () => {
+    const results = runOptimization(params, config({}));
+
+    // TP 2% is taken on the entry bar, TP 4% never and closes at 101 on the last bar
+    expect(results.map(r => r.takeProfitPercent)).toEqual([2, 4]);
+    expect(results[0].netProfit).toBeCloseTo(20);
+    expect(results[1].netProfit).toBeCloseTo(10);
+    expect(results.map(r => r.score)).toEqual(results.map(r => r.netProfit));
+  });
+
+  it('scores by the chosen objective, best first', () => {
+    const sweep = config({ takeProfit: { min: 0.5, max: 3, step: 0.5 }, stopLoss: { min: 0.25, max: 1, step: 0.25 } });
+    const results = runOptimization(params, { ...sweep, objective: 'sharpe' });
+
+    results.forEach(r => expect(r.score).toBe(r.statistics?.sharpe_ratio));
+    results.slice(1).forEach((r, i) => expect(r.score!).toBeLessThanOrEqual(results[i].score!));
+  });
+
+  it('leaves sets with too few trades unranked, after the ranked ones', () => {
+    // TP 2% trades twice, TP 4% once
+    const results = runOptimization(params, config({ minTrades: 2 }));
+
+    expect(results.map(r => [r.takeProfitPercent, r.score === null])).toEqual([[2, false], [4, true]]);
+  });
+
+  it('refuses sweeps above the parameter set cap', () => {
+    const huge = config({ takeProfit: { min: 1, max: 50, step: 1 }, stopLoss: { min: 1, max: 50, step: 1 } });
+    expect(parameterSets(huge).length).toBeGreaterThan(MAX_PARAMETER_SETS);
+
+    let backtests = 0;
+    expect(() => runOptimization(params, huge, () => backtests++)).toThrow('2500 parameter sets is too many');
+    expect(backtests).toBe(0);
+
+    // A random sample of the same grid stays under the cap
+    expect(runOptimization(params, { ...huge, method: 'random', samples: 5 })).toHaveLength(5);
+  });
+
+  it('reports progress after each backtest', () => {
+    const progress: [number, number][] = [];
+    runOptimization(params, config({}), (done, total) => progress.push([done, total]));
+
+    expect(progress).toEqual([[1, 2], [2, 2]]);
+  });
+});
@@ -0,0 +1,238 @@
+/**
+ * optimizer.ts
+ *
+ * Parameter optimisation for the backtester.
+ *
+ * - Sweeps TP %, SL % and optionally one indicator period of the strategy,
+ *   over a full grid or a random sample of it.
+ * - Runs `runBacktest` for every parameter set and ranks the results by net profit,
+ *   Sharpe ratio or profit factor.
+ * - `startOptimization` and `startWalkForward` run in a Web Worker so the UI stays
+ *   responsive, with progress reports and cancellation.
+ */
+
+import {
+  BacktestParams,
+  BacktestResult,
+  OptimizationConfig,
+  OptimizationResult,
+  OptimizerRequest,
+  OptimizerResponse,
+  ParameterRange,
+  PeriodTarget,
+  Strategy,
+  StrategyRule,
+  WalkForwardConfig,
+  WalkForwardResult
+} from '../types';
+import { runBacktest } from './backtesting';
+import { DEFAULT_STRATEGY } from './strategy';
+import { getIndicatorSpec } from './technicalAnalysis';
+import { runInWorker, WorkerTask } from './workerClient';
+
+// Upper bound on backtests in one sweep, beyond that random search should be used
+export const MAX_PARAMETER_SETS = 2000;
+
+/**
+ * Values of a range, rounded to avoid floating point drift (e.g. 0.30000000000000004).
+ */
+export const rangeValues = (range: ParameterRange): number[] => {
+  if (!(range.step > 0) || range.max < range.min) return [range.min];
+
+  const values: number[] = [];
+  for (let k = 0; range.min + k * range.step <= range.max + 1e-9; k++) {
+    values.push(Math.round((range.min + k * range.step) * 1e6) / 1e6);
+  }
+  return values;
+};
+
+/**
+ * Periods in a strategy's rules that the optimiser can vary.
+ */
+export function listPeriodTargets(strategy: Strategy): PeriodTarget[] {
+  const targets: PeriodTarget[] = [];
+
+  (['entryRules', 'exitRules'] as const).forEach(list => {
+    strategy[list].forEach((rule, ruleIndex) => {
+      const prefix = `${list === 'entryRules' ? 'Entry' : 'Exit'} ${ruleIndex + 1}`;
+      const add = (field: string, label: string) => targets.push({ list, ruleIndex, field, label: `${prefix}: ${label}` });
+
+      switch (rule.type) {
+        case 'ema_cross':
+          add('fastPeriod', 'fast EMA period');
+          add('slowPeriod', 'slow EMA period');
+          break;
+        case 'rsi':
+          add('period', 'RSI period');
+          break;
+        case 'bollinger_touch':
+          add('period', 'BB period');
+          break;
+        case 'condition':
+          (['left', 'right'] as const).forEach(side => {
+            const operand = rule[side];
+            if (operand.kind !== 'indicator') return;
+            getIndicatorSpec(operand.id)?.params.forEach((param, index) => {
+              if (param.integer) add(`${side}.${index}`, `${getIndicatorSpec(operand.id)!.label} ${param.name.toLowerCase()}`);
+            });
+          });
+          break;
+      }
+    });
+  });
+
+  return targets;
+}
+
+/**
+ * Copy of the strategy with one rule period replaced.
+ */
+export function applyPeriod(strategy: Strategy, target: PeriodTarget, value: number): Strategy {
+  const rules = strategy[target.list].map((rule, index): StrategyRule => {
+    if (index !== target.ruleIndex) return rule;
+
+    const [side, paramIndex] = target.field.split('.');
+    if (rule.type === 'condition' && (side === 'left' || side === 'right')) {
+      const operand = rule[side];
+      if (operand.kind !== 'indicator') return rule;
+      const params = operand.params.map((param, i) => i === Number(paramIndex) ? value : param);
+      return { ...rule, [side]: { ...operand, params } };
+    }
+    return { ...rule, [target.field]: value };
+  });
+
+  return { ...strategy, [target.list]: rules };
+}
+
+/**
+ * The parameter sets a sweep will try.
+ */
+export function parameterSets(config: OptimizationConfig): { tp: number; sl: number; period: number | null }[] {
+  const periods = config.period ? rangeValues(config.period.range) : [null];
+  const grid = rangeValues(config.takeProfit).flatMap(tp =>
+    rangeValues(config.stopLoss).flatMap(sl => periods.map(period => ({ tp, sl, period }))));
+
+  if (config.method === 'grid') return grid;
+
+  // Random search: a random subset of the grid points, without repeats
+  for (let i = grid.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [grid[i], grid[j]] = [grid[j], grid[i]];
+  }
+  return grid.slice(0, Math.max(1, config.samples));
+}
+
+/**
+ * Backtests one parameter set.
+ *
+ * @param params - Base backtest; its entry price and direction anchor the TP/SL percentages
+ * @param set - TP %, SL % and the value of the swept period, if any
+ * @param periodTarget - Strategy period the set's `period` replaces
+ */
+export function runParameterSet(
+  params: BacktestParams,
+  set: { tp: number; sl: number; period: number | null },
+  periodTarget: PeriodTarget | null
+): BacktestResult {
+  const sign = params.direction === 'long' ? 1 : -1;
+  const strategy = params.strategy ?? DEFAULT_STRATEGY;
+
+  return runBacktest({
+    ...params,
+    takeProfit: params.entryPrice * (1 + sign * set.tp / 100),
+    stopLoss: params.entryPrice * (1 - sign * set.sl / 100),
+    strategy: periodTarget && set.period !== null ? applyPeriod(strategy, periodTarget, set.period) : strategy
+  });
+}
+
+/**
+ * Runs the sweep synchronously. Used by the worker; call `startOptimization` from the UI.
+ *
+ * @param params - Base backtest; its entry price and direction anchor the TP/SL percentages
+ * @param config - What to sweep and how to rank it
+ * @param onProgress - Called after each backtest with the number done and the total
+ * @returns Results ranked best first, unranked sets (too few trades) last
+ */
+export function runOptimization(
+  params: BacktestParams,
+  config: OptimizationConfig,
+  onProgress?: (done: number, total: number) => void
+): OptimizationResult[] {
+  const sets = parameterSets(config);
+  if (sets.length > MAX_PARAMETER_SETS) {
+    throw new Error(`${sets.length} parameter sets is too many, narrow the ranges or use random search`);
+  }
+
+  const startingBalance = params.sizing?.startingBalance ?? 0;
+
+  const results = sets.map((set, index) => {
+    const { tp, sl, period } = set;
+    const result = runParameterSet(params, set, config.period?.target ?? null);
+    onProgress?.(index + 1, sets.length);
+
+    const statistics = result.statistics;
+    const totalTrades = statistics?.total_trades ?? 0;
+    const netProfit = (result.finalEquity ?? startingBalance) - (result.startingBalance ?? startingBalance);
+    const objectives = {
+      net_profit: netProfit,
+      sharpe: statistics?.sharpe_ratio ?? 0,
+      profit_factor: statistics?.profit_factor ?? 0
+    };
+
+    return {
+      takeProfitPercent: tp,
+      stopLossPercent: sl,
+      period,
+      score: result.success && totalTrades >= config.minTrades ? objectives[config.objective] : null,
+      totalTrades,
+      netProfit,
+      statistics
+    };
+  });
+
+  // Compared rather than subtracted, a profit factor can be Infinity
+  const rank = (result: OptimizationResult) => result.score ?? -Infinity;
+  return results.sort((a, b) => rank(a) === rank(b) ? 0 : rank(b) > rank(a) ? 1 : -1);
+}
+
+// Each run gets its own worker, a cancelled run terminates it
+const createOptimizerWorker = () =>
+  new Worker(new URL('../workers/optimizer.worker.ts', import.meta.url), { type: 'module' });
+
+/**
+ * Runs a sweep in a Web Worker.
+ *
+ * @param params - Base backtest (see `runOptimization`)
+ * @param config - What to sweep and how to rank it
+ * @param onProgress - Called as backtests complete
+ * @returns The ranked results once done, and a function that stops the worker
+ */
+export const startOptimization = (
+  params: BacktestParams,
+  config: OptimizationConfig,
+  onProgress: (done: number, total: number) => void
+): WorkerTask<OptimizationResult[]> => runInWorker<OptimizerRequest, OptimizerResponse, OptimizationResult[]>(
+  createOptimizerWorker,
+  { type: 'run', params, config },
+  onProgress,
+  (message) => message.type === 'done' ? message.results : undefined
+);
+
+/**
+ * Runs a walk-forward validation in a Web Worker.
+ *
+ * @param params - Base backtest (see `runWalkForward`)
+ * @param config - Window lengths and the sweep run on each in-sample window
+ * @param onProgress - Called as backtests complete
+ * @returns The walk-forward result once done, and a function that stops the worker
+ */
+export const startWalkForward = (
+  params: BacktestParams,
+  config: WalkForwardConfig,
+  onProgress: (done: number, total: number) => void
+): WorkerTask<WalkForwardResult> => runInWorker<OptimizerRequest, OptimizerResponse, WalkForwardResult>(
+  createOptimizerWorker,
+  { type: 'walk_forward', params, config },
+  onProgress,
+  (message) => message.type === 'walk_forward_done' ? message.result : undefined
+);
@@ -0,0 +1,144 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_PORTFOLIO, runPortfolioBacktest } from './portfolio';
+import { NO_EXTRA_EXITS } from './strategy';
+import { BacktestParams, OHLCData, PortfolioAsset, PortfolioConfig } from '../types';
+
+const DAY = 24 * 60 * 60;
+
+// Daily candles swinging around `base`
+const candles = (base: number, count: number): OHLCData[] =>
+  Array.from({ length: count }, (_, i) => {
+    const close = base * (1 + 0.1 * Math.sin(i / 5));
+    return { time: i * DAY, open: close * 0.99, high: close * 1.02, low: close * 0.97, close, volume: 1000 };
+  });
+
+const assets: PortfolioAsset[] = [
+  { coin: 'bitcoin', prices: candles(60000, 200) },
+  { coin: 'ethereum', prices: candles(3000, 150) }
+];
+
+const params: BacktestParams = {
+  prices: assets[0].prices,
+  entryPrice: 60000,
+  takeProfit: 63000,
+  stopLoss: 58000,
+  direction: 'long'
+};
+
+describe('runPortfolioBacktest', () => {
+  it('reports progress over the bars of every coin', () => {
+    const progress: [number, number][] = [];
+    runPortfolioBacktest(params, assets, { ...DEFAULT_PORTFOLIO, coins: ['bitcoin', 'ethereum'] }, (done, total) => progress.push([done, total]));
+
+    const total = 199 + 149;
+    expect(progress.length).toBeGreaterThan(0);
+    progress.forEach(([, t]) => expect(t).toBe(total));
+    progress.slice(1).forEach(([done], i) => expect(done).toBeGreaterThan(progress[i][0]));
+    expect(progress[progress.length - 1][0]).toBe(total);
+  });
+
+  it('counts only the bars inside the range towards progress', () => {
+    // Bars 50 to 139 of each coin, the ones before only warm up the indicators
+    const range = { start: 50 * DAY, end: 139 * DAY };
+    const progress: [number, number][] = [];
+    runPortfolioBacktest({ ...params, range }, assets, { ...DEFAULT_PORTFOLIO, coins: ['bitcoin', 'ethereum'] }, (done, total) => progress.push([done, total]));
+
+    const total = 89 + 89;
+    progress.forEach(([, t]) => expect(t).toBe(total));
+    expect(progress[progress.length - 1][0]).toBe(total);
+  });
+});
+
+describe('runPortfolioBacktest allocation', () => {
+  // Flat at 100 until the last bar closes at `close`; every coin enters at 100 on bar 1
+  // and is still open at the end, so each makes `close - 100` %
+  const settling = (coin: string, close: number): PortfolioAsset => ({
+    coin,
+    prices: [
+      ...Array.from({ length: 3 }, (_, i) => ({ time: i * DAY, open: 100, high: 100, low: 100, close: 100 })),
+      { time: 3 * DAY, open: 100, high: Math.max(100, close), low: Math.min(100, close), close }
+    ]
+  });
+  const basket = [settling('a', 104), settling('b', 98), settling('c', 102)];
+
+  // Longs on every bar with TP 10% and SL 5% away, neither of which is reached
+  const levels: BacktestParams = {
+    prices: basket[0].prices,
+    entryPrice: 100,
+    takeProfit: 110,
+    stopLoss: 95,
+    direction: 'long',
+    strategy: {
+      name: 'Test',
+      entryRules: [{ type: 'every_bar' }],
+      exitRules: [],
+      exits: NO_EXTRA_EXITS,
+      pyramiding: false,
+      maxOpenPositions: 1
+    }
+  };
+
+  const run = (overrides: Partial<PortfolioConfig>) =>
+    runPortfolioBacktest(levels, basket, { ...DEFAULT_PORTFOLIO, coins: ['a', 'b', 'c'], ...overrides });
+  const byCoin = (result: ReturnType<typeof run>) => Object.fromEntries(result.trades.map(t => [t.coin, t.notional]));
+
+  it('splits equity into equal slots and skips signals beyond the position limit', () => {
+    const result = run({ allocation: 'equal_slots', maxConcurrentPositions: 2 });
+
+    expect(byCoin(result)).toEqual({ a: 5000, b: 5000 });
+    expect(result.maxConcurrentUsed).toBe(2);
+    expect(result.assets.map(a => [a.coin, a.trades, a.skippedTrades])).toEqual([['a', 1, 0], ['b', 1, 0], ['c', 0, 1]]);
+    // +4% and -2% on $5,000 each
+    expect(result.finalEquity).toBeCloseTo(10100);
+  });
+
+  it('frees a position slot once a trade closed', () => {
+    // a takes profit on its entry bar and enters again on the next one
+    const early: PortfolioAsset = {
+      coin: 'a',
+      prices: basket[0].prices.map((c, i) => i === 1 ? { ...c, high: 111, close: 110 } : { ...c, close: 100, high: 100, low: 100 })
+    };
+    const result = runPortfolioBacktest(levels, [early, basket[1]], { ...DEFAULT_PORTFOLIO, coins: ['a', 'b'], maxConcurrentPositions: 1 });
+
+    expect(result.trades.map(t => [t.coin, t.entry_time / DAY])).toEqual([['a', 1], ['a', 2]]);
+    expect(result.assets.find(a => a.coin === 'b')?.skippedTrades).toBe(1);
+  });
+
+  it('sizes positions so hitting the stop loses the risk percentage', () => {
+    const result = run({ allocation: 'risk', riskPercent: 1, maxConcurrentPositions: 3 });
+
+    // 1% of $10,000 over a 5% stop
+    Object.values(byCoin(result)).forEach(notional => expect(notional).toBeCloseTo(2000));
+    expect(result.trades).toHaveLength(3);
+  });
+
+  it('sizes positions by weight, capped at the cash left', () => {
+    // c has no weight, so it gets an equal share of 100 / 3 %, but only $2,000 is free
+    const result = run({ allocation: 'weights', weights: { a: 50, b: 30 }, maxConcurrentPositions: 3 });
+    const notionals = byCoin(result);
+
+    expect(notionals.a).toBeCloseTo(5000);
+    expect(notionals.b).toBeCloseTo(3000);
+    expect(notionals.c).toBeCloseTo(2000);
+  });
+
+  it('skips signals when no cash is left', () => {
+    const result = run({ allocation: 'weights', weights: { a: 60, b: 40, c: 20 }, maxConcurrentPositions: 3 });
+
+    expect(result.trades.map(t => t.coin)).toEqual(['a', 'b']);
+    expect(result.assets.find(a => a.coin === 'c')?.skippedTrades).toBe(1);
+  });
+
+  it('breaks the P/L down into contributions that add up to the portfolio return', () => {
+    const result = run({ allocation: 'risk', riskPercent: 1, maxConcurrentPositions: 3 });
+    const [a, b, c] = result.assets;
+
+    // 4%, -2% and 2% of $2,000
+    expect(a.pnl).toBeCloseTo(80);
+    expect(b.pnl).toBeCloseTo(-40);
+    expect(c.pnl).toBeCloseTo(40);
+    expect(a.pnl + b.pnl + c.pnl).toBeCloseTo(result.finalEquity - result.startingBalance);
+    expect(a.contribution + b.contribution + c.contribution).toBeCloseTo((result.finalEquity / result.startingBalance - 1) * 100);
+    expect(result.equityCurve[result.equityCurve.length - 1].equity).toBeCloseTo(result.finalEquity);
+  });
+});
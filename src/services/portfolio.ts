@@ -0,0 +1,219 @@
+/**
+ * portfolio.ts
+ *
+ * Multi-asset portfolio backtests.
+ *
+ * - Runs one strategy over several coins with `runBacktest`, then replays every coin's
+ *   trades in entry order against one shared account.
+ * - Limits how many positions are open at once across all coins; signals beyond the
+ *   limit, or without free cash, are skipped. A coin's candidate trades come from its own
+ *   backtest, so a skipped trade doesn't bring back signals that one was blocking.
+ * - Sizes positions with an allocation rule (see `AllocationMode`) from the equity
+ *   realised when the trade is entered, like `simulateEquity` does for a single coin.
+ * - Breaks the result down into each coin's trades, P/L and contribution to the return.
+ *
+ * The form's TP/SL are set on the chart coin, so they are carried over to every coin as
+ * percentages, or as ATR multiples in the `atr` level mode.
+ */
+
+import {
+  BacktestParams,
+  OHLCData,
+  PortfolioAsset,
+  PortfolioAssetResult,
+  PortfolioConfig,
+  PortfolioResult,
+  PortfolioTrade
+} from '../types';
+import { candlesInRange, runBacktest } from './backtesting';
+import { DEFAULT_SIZING } from './sizing';
+import { computeStatistics } from './statistics';
+import { calculateATR } from './indicators';
+
+export const DEFAULT_PORTFOLIO: PortfolioConfig = {
+  coins: ['bitcoin', 'ethereum', 'solana', 'dogecoin'],
+  allocation: 'equal_slots',
+  riskPercent: 1,
+  weights: {},
+  maxConcurrentPositions: 2
+};
+
+/**
+ * The form's entry, TP and SL moved onto another coin's price scale, keeping the same
+ * percentage distances, or the same ATR multiples in the `atr` level mode.
+ */
+function rebaseLevels(
+  params: BacktestParams,
+  prices: OHLCData[]
+): { entryPrice: number; takeProfit: number; stopLoss: number } {
+  const { entryPrice, takeProfit, stopLoss, atrPeriod = 14 } = params;
+  const assetPrice = prices[prices.length - 1]?.close ?? entryPrice;
+
+  if (params.levelMode === 'atr') {
+    const referenceAtr = calculateATR(params.prices, atrPeriod).pop() ?? 0;
+    const assetAtr = calculateATR(prices, atrPeriod).pop() ?? 0;
+    if (referenceAtr > 0 && assetAtr > 0) {
+      const scale = assetAtr / referenceAtr;
+      return {
+        entryPrice: assetPrice,
+        takeProfit: assetPrice + (takeProfit - entryPrice) * scale,
+        stopLoss: assetPrice + (stopLoss - entryPrice) * scale
+      };
+    }
+  }
+
+  const scale = entryPrice > 0 ? assetPrice / entryPrice : 1;
+  return { entryPrice: assetPrice, takeProfit: takeProfit * scale, stopLoss: stopLoss * scale };
+}
+
+/**
+ * Runs the strategy over every coin on a shared equity curve.
+ *
+ * @param params - Backtest of the chart coin; its strategy, levels and settings are reused
+ * @param assets - Candles of each coin in the portfolio
+ * @param config - Allocation rule and the max number of concurrent positions
+ * @param onProgress - Called after each bar with the number of bars done across all coins and the total
+ * @returns The portfolio's trades, statistics and equity, and each coin's contribution
+ */
+export function runPortfolioBacktest(
+  params: BacktestParams,
+  assets: PortfolioAsset[],
+  config: PortfolioConfig,
+  onProgress?: (done: number, total: number) => void
+): PortfolioResult {
+  const sizing = params.sizing ?? DEFAULT_SIZING;
+  const startingBalance = sizing.startingBalance;
+  const maxConcurrent = Math.max(1, Math.floor(config.maxConcurrentPositions));
+
+  // Each coin's own backtest gives the trades its signals would take
+  const candidates: PortfolioTrade[] = [];
+  const assetResults = new Map<string, PortfolioAssetResult>();
+  let periodStart = Infinity;
+  let periodEnd = -Infinity;
+
+  // Each backtest reports the bars of its period, offset by the coins already done
+  const barCounts = assets.map(asset => Math.max(0, candlesInRange(asset.prices, params.range).length - 1));
+  const totalBars = barCounts.reduce((total, bars) => total + bars, 0);
+  let barsDone = 0;
+
+  assets.forEach(({ coin, prices, intrabarPrices }, index) => {
+    const result = runBacktest({
+      ...params,
+      ...rebaseLevels(params, prices),
+      levelMode: params.levelMode === 'absolute' ? 'percent' : params.levelMode,
+      prices,
+      intrabarPrices
+    }, onProgress && ((done) => onProgress(barsDone + done, totalBars)));
+    barsDone += barCounts[index];
+
+    assetResults.set(coin, {
+      coin,
+      trades: 0,
+      skippedTrades: 0,
+      winRate: 0,
+      pnl: 0,
+      contribution: 0,
+      message: result.success ? undefined : result.message
+    });
+    if (!result.success) return;
+
+    result.trades.forEach(trade => candidates.push({ ...trade, coin }));
+    if (result.period) {
+      periodStart = Math.min(periodStart, result.period.start);
+      periodEnd = Math.max(periodEnd, result.period.end);
+    }
+  });
+
+  // No coin could be backtested
+  if (periodStart === Infinity) {
+    return {
+      success: false,
+      message: [...assetResults.values()].map(a => `${a.coin}: ${a.message}`).join('; ') || 'No coins selected',
+      trades: [],
+      statistics: null,
+      assets: [...assetResults.values()],
+      startingBalance,
+      finalEquity: startingBalance,
+      equityCurve: [],
+      maxConcurrentUsed: 0
+    };
+  }
+
+  // Replay entries in time order; coins keep their listed order on the same bar
+  const coinOrder = new Map(assets.map((asset, index) => [asset.coin, index]));
+  candidates.sort((a, b) => a.entry_time - b.entry_time || coinOrder.get(a.coin)! - coinOrder.get(b.coin)!);
+
+  const taken: PortfolioTrade[] = [];
+  let open: PortfolioTrade[] = [];
+  let realised = startingBalance;
+  let maxConcurrentUsed = 0;
+
+  for (const candidate of candidates) {
+    // Realise positions that closed before this entry; exits on the entry bar aren't known yet
+    open = open.filter(position => {
+      if (position.exit_time >= candidate.entry_time) return true;
+      realised += position.pnl ?? 0;
+      return false;
+    });
+
+    const asset = assetResults.get(candidate.coin)!;
+    const equity = Math.max(0, realised);
+    const freeCash = equity - open.reduce((sum, position) => sum + (position.notional ?? 0), 0);
+
+    let notional: number;
+    if (config.allocation === 'risk') {
+      const stopDistance = Math.abs(candidate.entry_price - candidate.stopLoss) / candidate.entry_price;
+      notional = stopDistance > 0 ? equity * config.riskPercent / 100 / stopDistance : 0;
+    } else if (config.allocation === 'weights') {
+      notional = equity * (config.weights[candidate.coin] ?? 100 / assets.length) / 100;
+    } else {
+      notional = equity / maxConcurrent;
+    }
+    notional = Math.min(notional, freeCash);
+
+    if (open.length >= maxConcurrent || notional <= 0) {
+      asset.skippedTrades++;
+      continue;
+    }
+
+    const trade: PortfolioTrade = {
+      ...candidate,
+      notional,
+      position_size: candidate.entry_price > 0 ? notional / candidate.entry_price : 0,
+      pnl: notional * candidate.profit_loss / 100
+    };
+    taken.push(trade);
+    open.push(trade);
+    maxConcurrentUsed = Math.max(maxConcurrentUsed, open.length);
+  }
+
+  // Walk the exits in order to build the shared equity curve
+  let equity = startingBalance;
+  const equityCurve = [{ time: periodStart, equity }];
+  [...taken].sort((a, b) => a.exit_time - b.exit_time).forEach(trade => {
+    equity += trade.pnl ?? 0;
+    trade.equity_after = equity;
+    equityCurve.push({ time: trade.exit_time, equity });
+  });
+
+  // Per-coin breakdown
+  assetResults.forEach(asset => {
+    const trades = taken.filter(trade => trade.coin === asset.coin);
+    asset.trades = trades.length;
+    asset.winRate = trades.length ? trades.filter(t => t.profit_loss > 0).length / trades.length * 100 : 0;
+    asset.pnl = trades.reduce((sum, trade) => sum + (trade.pnl ?? 0), 0);
+    asset.contribution = startingBalance > 0 ? asset.pnl / startingBalance * 100 : 0;
+  });
+
+  return {
+    success: true,
+    trades: taken,
+    statistics: computeStatistics(taken),
+    assets: [...assetResults.values()],
+    period: { start: periodStart, end: periodEnd },
+    startingBalance,
+    finalEquity: equity,
+    equityCurve,
+    maxConcurrentUsed
+  };
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { createBinanceProvider, KlineRow, parseKlines } from './binance';
+import { JsonTransport, QueryParams } from '../api';
+import klinesFixture from './__fixtures__/binance_klines.json';
+
+const HOUR = 60 * 60;
+
+const klines = klinesFixture as KlineRow[];
+const firstOpen = klines[0][0] / 1000;
+const lastOpen = klines[klines.length - 1][0] / 1000;
+
+describe('binance provider', () => {
+  it('parses kline rows into candles', () => {
+    const candles = parseKlines(klines);
+
+    expect(candles).toHaveLength(klines.length);
+    expect(candles[0]).toEqual({
+      time: firstOpen,
+      open: parseFloat(klines[0][1]),
+      high: parseFloat(klines[0][2]),
+      low: parseFloat(klines[0][3]),
+      close: parseFloat(klines[0][4]),
+      volume: parseFloat(klines[0][5])
+    });
+    expect(candles[1].time - candles[0].time).toBe(HOUR);
+  });
+
+  it('requests the trading pair and interval through the transport', async () => {
+    const requests: QueryParams[] = [];
+    const transport: JsonTransport = async (url, params) => {
+      expect(url).toBe('https://api.binance.com/api/v3/klines');
+      requests.push(params);
+      return klines;
+    };
+
+    const provider = createBinanceProvider(transport);
+    const candles = await provider.fetchCandles({
+      coinId: 'bitcoin',
+      range: { start: firstOpen, end: lastOpen + HOUR },
+      timeframe: '1h'
+    });
+
+    expect(candles).toHaveLength(klines.length);
+    expect(requests).toEqual([{
+      symbol: 'BTCUSDT',
+      interval: '1h',
+      startTime: firstOpen * 1000,
+      endTime: (lastOpen + HOUR) * 1000,
+      limit: 1000
+    }]);
+  });
+
+  it('rejects coins without a trading pair', async () => {
+    const provider = createBinanceProvider(async () => klines);
+
+    await expect(provider.fetchCandles({
+      coinId: 'unknown',
+      range: { start: firstOpen, end: lastOpen },
+      timeframe: '1h'
+    })).rejects.toThrow('No Binance trading pair for unknown');
+  });
+});
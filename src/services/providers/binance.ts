@@ -0,0 +1,94 @@
+/**
+ * binance.ts
+ *
+ * Market-data provider for exchanges that serve Binance-style klines.
+ *
+ * - Maps app coin IDs (e.g., 'bitcoin') to USDT trading pairs.
+ * - Requests klines in the selected timeframe and date range, paging through
+ *   windows longer than one response.
+ * - Converts each row into an OHLC candle with volume.
+ */
+
+import { fetchWithRetry, JsonTransport } from '../api';
+import { timeframeSeconds } from '../timeframes';
+import { MarketDataProvider, OHLCData } from '../../types';
+
+// Base URL for the Binance spot API
+const BINANCE_API = 'https://api.binance.com/api/v3';
+
+// Binance caps a single klines request at 1000 rows
+const MAX_KLINES = 1000;
+
+// Trading pairs for the coins offered in the UI
+const SYMBOLS: Record<string, string> = {
+  bitcoin: 'BTCUSDT',
+  ethereum: 'ETHUSDT',
+  solana: 'SOLUSDT',
+  dogecoin: 'DOGEUSDT'
+};
+
+/**
+ * A single kline row: [openTime, open, high, low, close, volume, closeTime, ...].
+ * Prices and volume are sent as strings.
+ */
+export type KlineRow = [number, string, string, string, string, string, ...unknown[]];
+
+/**
+ * Converts Binance-style kline rows into OHLC candles.
+ *
+ * @param rows - Raw klines response
+ * @returns An array of OHLC candles including volume
+ */
+export const parseKlines = (rows: KlineRow[]): OHLCData[] =>
+  rows.map(([openTime, open, high, low, close, volume]) => ({
+    time: Math.floor(openTime / 1000), // Store timestamp in seconds
+    open: parseFloat(open),
+    high: parseFloat(high),
+    low: parseFloat(low),
+    close: parseFloat(close),
+    volume: parseFloat(volume)
+  }));
+
+/**
+ * Creates the Binance-style klines provider.
+ *
+ * @param transport - Request function to use (default: `fetchWithRetry`)
+ * @param baseUrl - API root serving a `/klines` endpoint (default: Binance spot)
+ * @returns A `MarketDataProvider` reading klines
+ */
+export const createBinanceProvider = (
+  transport: JsonTransport = fetchWithRetry,
+  baseUrl: string = BINANCE_API
+): MarketDataProvider => ({
+  id: 'binance',
+  name: 'Binance',
+  remote: true,
+  fetchCandles: async ({ coinId, range, timeframe }) => {
+    const symbol = SYMBOLS[coinId];
+    if (!symbol) {
+      throw new Error(`No Binance trading pair for ${coinId}`);
+    }
+
+    const candles: OHLCData[] = [];
+    let startTime = range.start * 1000;
+
+    // Page through the window, each request returns at most MAX_KLINES rows
+    while (startTime <= range.end * 1000) {
+      const rows = await transport(`${baseUrl}/klines`, {
+        symbol,
+        interval: timeframe, // Binance uses the same interval names ('1h', '4h', '1d', '1w')
+        startTime,
+        endTime: range.end * 1000,
+        limit: MAX_KLINES
+      }) as KlineRow[];
+
+      candles.push(...parseKlines(rows));
+      if (rows.length < MAX_KLINES) break;
+
+      // Continue one interval after the last open time
+      startTime = rows[rows.length - 1][0] + timeframeSeconds(timeframe) * 1000;
+    }
+
+    return candles;
+  }
+});
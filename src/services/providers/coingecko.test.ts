@@ -0,0 +1,139 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createCoinGeckoProvider, parseMarketChart, parseOHLC } from './coingecko';
+import { KlineRow, parseKlines } from './binance';
+import { JsonTransport, QueryParams } from '../api';
+import { lastDaysRange } from '../timeframes';
+import { CoinData, CoinOHLCRow } from '../../types';
+import ohlcFixture from './__fixtures__/coingecko_ohlc.json';
+import hourlyFixture from './__fixtures__/coingecko_market_chart_hourly.json';
+import klinesFixture from './__fixtures__/binance_klines.json';
+
+const DAY = 24 * 60 * 60;
+const NOW = 1719705600; // 2024-06-30T00:00:00Z, the end of the recorded responses
+
+const ohlcRows = ohlcFixture as CoinOHLCRow[];
+const hourlyChart = hourlyFixture as CoinData;
+
+// Keeps the points of a recorded series inside [from, to] (seconds)
+const slicePoints = (points: [number, number][], from: number, to: number) =>
+  points.filter(([time]) => time >= from * 1000 && time <= to * 1000);
+
+// Serves the recorded responses by endpoint
+const fixtureTransport: JsonTransport = async (url) => {
+  if (url.endsWith('/ohlc')) return ohlcRows;
+  if (url.endsWith('/market_chart/range')) return hourlyChart;
+  throw new Error(`Unexpected request: ${url}`);
+};
+
+describe('coingecko provider', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW * 1000);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('parses OHLC rows into open-time candles', () => {
+    const candles = parseOHLC(ohlcRows);
+
+    expect(candles).toHaveLength(ohlcRows.length);
+    expect(candles[0].time).toBe(NOW - 7 * DAY);
+    expect(candles[1].time - candles[0].time).toBe(4 * 60 * 60);
+    expect(candles[0]).toMatchObject({
+      open: ohlcRows[0][1],
+      high: ohlcRows[0][2],
+      low: ohlcRows[0][3],
+      close: ohlcRows[0][4]
+    });
+  });
+
+  it('groups hourly market chart points into daily candles with volume', () => {
+    const candles = parseMarketChart(hourlyChart, '1d');
+
+    expect(candles.map(c => c.time)).toEqual(Array.from({ length: 8 }, (_, i) => NOW - (7 - i) * DAY));
+    candles.slice(0, -1).forEach(c => {
+      expect(c.high).toBeGreaterThan(c.low);
+      expect(c.volume).toBeGreaterThan(0);
+    });
+  });
+
+  it('fetches OHLC candles and fills volume through the transport', async () => {
+    const provider = createCoinGeckoProvider(fixtureTransport);
+    const candles = await provider.fetchCandles({
+      coinId: 'bitcoin',
+      range: { start: NOW - 7 * DAY, end: NOW },
+      timeframe: '1d'
+    });
+
+    expect(candles).toHaveLength(7);
+    expect(candles[0].open).toBe(ohlcRows[0][1]);
+    expect(candles[candles.length - 1].close).toBe(ohlcRows[ohlcRows.length - 1][4]);
+    candles.forEach(c => {
+      expect(c.high).toBeGreaterThanOrEqual(Math.max(c.open, c.close));
+      expect(c.low).toBeLessThanOrEqual(Math.min(c.open, c.close));
+      expect(c.volume).toBeGreaterThan(0);
+    });
+  });
+
+  it('builds candles with a real range from windows longer than 90 days', async () => {
+    // CoinGecko only answers hourly up to 90 days, a longer window would come back daily
+    const requests: QueryParams[] = [];
+    const transport: JsonTransport = async (url, params) => {
+      if (!url.endsWith('/market_chart/range')) throw new Error(`Unexpected request: ${url}`);
+      requests.push(params);
+
+      const from = Number(params.from);
+      const to = Number(params.to);
+      if (to - from > 90 * DAY) throw new Error(`Window of ${(to - from) / DAY} days would not be hourly`);
+      return {
+        prices: slicePoints(hourlyChart.prices, from, to),
+        market_caps: slicePoints(hourlyChart.market_caps, from, to),
+        total_volumes: slicePoints(hourlyChart.total_volumes, from, to)
+      };
+    };
+
+    // Late in the day, so the default 90-day view spans a little over 90 days
+    vi.setSystemTime((NOW - 6 * 60 * 60) * 1000);
+
+    const provider = createCoinGeckoProvider(transport);
+    const candles = await provider.fetchCandles({ coinId: 'bitcoin', range: lastDaysRange(90), timeframe: '1d' });
+
+    // The recorded hourly points cover the last 7 days
+    expect(candles).toHaveLength(7);
+    candles.forEach(c => {
+      expect(c.high).toBeGreaterThan(c.low);
+      expect(c.volume).toBeGreaterThan(0);
+    });
+
+    expect(requests.length).toBeGreaterThan(1);
+  });
+
+  it('reads hourly candles over more than 2 days from klines', async () => {
+    vi.setSystemTime(NOW * 1000);
+    const urls: string[] = [];
+    const transport: JsonTransport = async (url) => {
+      urls.push(url);
+      if (url.endsWith('/klines')) return klinesFixture;
+      throw new Error(`Unexpected request: ${url}`);
+    };
+
+    const provider = createCoinGeckoProvider(transport);
+    const candles = await provider.fetchCandles({ coinId: 'bitcoin', range: { start: NOW - 7 * DAY, end: NOW }, timeframe: '1h' });
+
+    expect(urls).toEqual(['https://api.binance.com/api/v3/klines']);
+    expect(candles).toEqual(parseKlines(klinesFixture as KlineRow[]));
+    expect(candles.every(c => c.high > c.low)).toBe(true);
+  });
+
+  it('passes request failures on instead of inventing prices', async () => {
+    vi.setSystemTime(NOW * 1000);
+    const provider = createCoinGeckoProvider(async () => {
+      throw new Error('Request failed with status code 429');
+    });
+
+    await expect(provider.fetchCandles({ coinId: 'bitcoin', range: { start: NOW - 60 * DAY, end: NOW }, timeframe: '1d' }))
+      .rejects.toThrow('429');
+  });
+});
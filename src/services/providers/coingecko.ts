@@ -0,0 +1,157 @@
+/**
+ * coingecko.ts
+ *
+ * Market-data provider backed by CoinGecko.
+ *
+ * - Requests true OHLC candles from the `/coins/{id}/ohlc` endpoint and resamples
+ *   them to the requested timeframe.
+ * - Fills `volume` from the `total_volumes` array of the `market_chart` endpoint.
+ * - Falls back to grouping the raw `[timestamp, price]` points into candles when
+ *   only price data is available, or when the OHLC granularity is too coarse.
+ * - Reads hourly candles over more than 2 days from an exchange's klines instead: the
+ *   OHLC endpoint is too coarse there, and one hourly point per candle has no range.
+ */
+
+import { fetchCoinData, fetchCoinOHLC, fetchWithRetry, JsonTransport } from '../api';
+import { createBinanceProvider } from './binance';
+import { resampleCandles, timeframeSeconds } from '../timeframes';
+import { CoinData, CoinOHLCRow, MarketDataProvider, OHLCData, Timeframe } from '../../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000; // Number of milliseconds in a day
+const DAY_SECONDS = DAY_MS / 1000; // Number of seconds in a day
+
+// Spacing of the `market_chart/range` points, requested in windows of up to 90 days
+const MARKET_CHART_INTERVAL = 60 * 60;
+
+/**
+ * Fills `volume` on each candle from CoinGecko's `total_volumes` samples.
+ *
+ * Each sample is a rolling 24h volume, so the last sample inside a candle is
+ * scaled by the candle's length in days.
+ *
+ * @param candles - Candles sorted by time
+ * @param volumes - Array of [timestamp (ms), 24h volume] pairs
+ * @returns The same candles with `volume` set where a sample was found
+ */
+export const mergeVolumes = (candles: OHLCData[], volumes: [number, number][]): OHLCData[] => {
+  if (candles.length === 0) return candles;
+
+  const duration = candles.length > 1 ? candles[1].time - candles[0].time : DAY_SECONDS;
+  let v = 0;
+
+  return candles.map((candle, i) => {
+    const end = i < candles.length - 1 ? candles[i + 1].time : candle.time + duration;
+    let sample: number | undefined;
+
+    // Advance through the samples that fall inside this candle, keeping the last one
+    while (v < volumes.length && volumes[v][0] / 1000 < end) {
+      if (volumes[v][0] / 1000 >= candle.time) {
+        sample = volumes[v][1];
+      }
+      v++;
+    }
+
+    return sample === undefined
+      ? candle
+      : { ...candle, volume: sample * (end - candle.time) / DAY_SECONDS };
+  });
+};
+
+/**
+ * Converts rows from CoinGecko's OHLC endpoint into candles.
+ * CoinGecko stamps each row with its close time, so rows are shifted back by one
+ * interval to match the open-time convention used everywhere else.
+ *
+ * @param rows - Raw OHLC rows
+ * @returns An array of OHLC candles
+ */
+export const parseOHLC = (rows: CoinOHLCRow[]): OHLCData[] => {
+  const interval = rows.length > 1 ? rows[1][0] - rows[0][0] : DAY_MS;
+
+  return rows.map(([closeTime, open, high, low, close]) => ({
+    time: Math.floor((closeTime - interval) / 1000), // Store open time in seconds
+    open,
+    high,
+    low,
+    close
+  }));
+};
+
+/**
+ * Converts a CoinGecko `market_chart` response into OHLC candles.
+ * Volume is merged in from `total_volumes` when the response includes it.
+ *
+ * @param data - Raw market chart data
+ * @param timeframe - Duration of each candle (default: '1d')
+ * @returns An array of OHLC candles, one per timeframe bucket
+ */
+export const parseMarketChart = (data: CoinData, timeframe: Timeframe = '1d'): OHLCData[] => {
+  // Treat every price point as a flat candle and let the resampler group them
+  const points: OHLCData[] = data.prices.map(([timestamp, price]) => ({
+    time: Math.floor(timestamp / 1000), // Store timestamp in seconds
+    open: price,
+    high: price,
+    low: price,
+    close: price
+  }));
+
+  return mergeVolumes(resampleCandles(points, timeframe), data.total_volumes ?? []);
+};
+
+/**
+ * Returns the candle duration CoinGecko's OHLC endpoint uses for a request.
+ *
+ * @param days - Number of past days requested
+ * @returns Candle duration in seconds
+ */
+const ohlcGranularity = (days: number): number => {
+  if (days <= 2) return 30 * 60; // 30 minutes
+  if (days <= 30) return 4 * 60 * 60; // 4 hours
+  return 4 * DAY_SECONDS; // 4 days
+};
+
+/**
+ * Creates the CoinGecko provider.
+ *
+ * @param transport - Request function to use (default: `fetchWithRetry`)
+ * @param klines - Provider for candles CoinGecko can't build (default: Binance over `transport`)
+ * @returns A `MarketDataProvider` reading from CoinGecko
+ */
+export const createCoinGeckoProvider = (
+  transport: JsonTransport = fetchWithRetry,
+  klines: MarketDataProvider = createBinanceProvider(transport)
+): MarketDataProvider => ({
+  id: 'coingecko',
+  name: 'CoinGecko',
+  remote: true,
+  fetchCandles: async (request) => {
+    const { coinId, range, timeframe } = request;
+
+    // The OHLC endpoint only counts days back from now
+    const days = Math.ceil((Date.now() / 1000 - range.start) / DAY_SECONDS);
+    const tooCoarse = ohlcGranularity(days) > timeframeSeconds(timeframe);
+
+    // Candles no longer than the market chart's spacing would be single flat points
+    if (tooCoarse && timeframeSeconds(timeframe) <= MARKET_CHART_INTERVAL) {
+      return klines.fetchCandles(request);
+    }
+
+    const chart = await fetchCoinData(coinId, range, transport);
+
+    // Long windows only come as 4-day OHLC candles, too coarse for daily or intraday charts
+    if (tooCoarse) {
+      return parseMarketChart(chart, timeframe);
+    }
+
+    try {
+      const rows = await fetchCoinOHLC(coinId, days, transport);
+      const candles = mergeVolumes(resampleCandles(parseOHLC(rows), timeframe), chart.total_volumes);
+
+      // The OHLC endpoint rounds `days` up and always runs to today, trim back to the requested window
+      return candles.filter(c => c.time >= range.start && c.time <= range.end);
+    } catch (error) {
+      console.error('CoinGecko OHLC unavailable, deriving candles from prices:', error instanceof Error ? error.message : 'Unknown error');
+      return parseMarketChart(chart, timeframe);
+    }
+  }
+});
@@ -0,0 +1,32 @@
+/**
+ * providers/index.ts
+ *
+ * Registry of the market-data providers available in the UI.
+ */
+
+import { createCoinGeckoProvider } from './coingecko';
+import { createBinanceProvider } from './binance';
+import { createLocalFileProvider } from './localFile';
+import { MarketDataProvider, MarketDataProviderId } from '../../types';
+
+export { importLocalCandles } from './localFile';
+
+export const MARKET_DATA_PROVIDERS: MarketDataProvider[] = [
+  createCoinGeckoProvider(),
+  createBinanceProvider(),
+  createLocalFileProvider()
+];
+
+/**
+ * Looks up a provider by ID.
+ *
+ * @param id - Provider identifier
+ * @returns The matching provider
+ */
+export const getMarketDataProvider = (id: MarketDataProviderId): MarketDataProvider => {
+  const provider = MARKET_DATA_PROVIDERS.find(p => p.id === id);
+  if (!provider) {
+    throw new Error(`Unknown market data provider: ${id}`);
+  }
+  return provider;
+};
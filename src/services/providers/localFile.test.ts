@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { createLocalFileProvider, parseLocalCandles } from './localFile';
+import { parseKlines } from './binance';
+import localFixture from './__fixtures__/local_ohlc.json';
+import klinesFixture from './__fixtures__/binance_klines.json';
+
+const DAY = 24 * 60 * 60;
+
+describe('local file provider', () => {
+  it('parses OHLC objects with millisecond timestamps', () => {
+    const candles = parseLocalCandles(localFixture);
+
+    expect(candles).toHaveLength(localFixture.length);
+    expect(candles[0]).toEqual({ ...localFixture[0], time: localFixture[0].time / 1000 });
+  });
+
+  it('parses kline rows like the Binance provider', () => {
+    expect(parseLocalCandles(klinesFixture)).toEqual(parseKlines(klinesFixture as never));
+  });
+
+  it('rejects unsupported documents', () => {
+    expect(() => parseLocalCandles({ candles: [] })).toThrow('Unsupported file format');
+    expect(() => parseLocalCandles([{ time: 1, open: 'x', high: 1, low: 1, close: 1 }]))
+      .toThrow('missing or non-numeric values');
+  });
+
+  it('serves the imported candles inside the range', async () => {
+    const candles = parseLocalCandles(localFixture);
+    const provider = createLocalFileProvider(() => candles);
+
+    const served = await provider.fetchCandles({
+      coinId: 'bitcoin',
+      range: { start: candles[2].time, end: candles[4].time },
+      timeframe: '1d'
+    });
+    expect(served).toEqual(candles.slice(2, 5));
+
+    await expect(provider.fetchCandles({
+      coinId: 'bitcoin',
+      range: { start: candles[0].time - 30 * DAY, end: candles[0].time - DAY },
+      timeframe: '1d'
+    })).rejects.toThrow('does not cover the selected dates');
+  });
+
+  it('asks for an import when nothing is stored', async () => {
+    const provider = createLocalFileProvider(() => null);
+
+    await expect(provider.fetchCandles({
+      coinId: 'bitcoin',
+      range: { start: 0, end: DAY },
+      timeframe: '1d'
+    })).rejects.toThrow('Import a JSON file first');
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * localFile.ts
+ *
+ * Market-data provider for candles imported from a JSON file on the user's machine.
+ *
+ * - Accepts OHLC objects, Binance-style kline rows or a CoinGecko `market_chart` dump.
+ * - Keeps the imported candles in localStorage, one dataset per coin.
+ * - Serves the part of the imported dataset inside the requested date range,
+ *   resampled to the requested timeframe.
+ */
+
+import { parseMarketChart } from './coingecko';
+import { parseKlines, KlineRow } from './binance';
+import { resampleCandles } from '../timeframes';
+import { CoinData, MarketDataProvider, OHLCData } from '../../types';
+
+// Prefix for imported datasets, kept apart from the API cache so clearing it keeps imports
+const LOCAL_PREFIX = 'local_candles_';
+
+/**
+ * Reads a previously imported dataset.
+ */
+export type LocalDatasetReader = (coinId: string) => OHLCData[] | null;
+
+/**
+ * Converts the contents of an imported file into OHLC candles.
+ *
+ * @param json - Parsed JSON document
+ * @returns Candles sorted by time
+ * @throws If the document is not in a supported format
+ */
+export const parseLocalCandles = (json: unknown): OHLCData[] => {
+  let candles: OHLCData[];
+
+  if (Array.isArray(json) && json.every(row => Array.isArray(row))) {
+    candles = parseKlines(json as KlineRow[]);
+  } else if (Array.isArray(json)) {
+    candles = (json as OHLCData[]).map(({ time, open, high, low, close, volume }) => ({
+      // Accept millisecond timestamps as well as seconds
+      time: time > 1e12 ? Math.floor(time / 1000) : time,
+      open: Number(open),
+      high: Number(high),
+      low: Number(low),
+      close: Number(close),
+      volume: volume === undefined ? undefined : Number(volume)
+    }));
+  } else if (json && typeof json === 'object' && Array.isArray((json as CoinData).prices)) {
+    candles = parseMarketChart(json as CoinData);
+  } else {
+    throw new Error('Unsupported file format: expected OHLC objects, kline rows or market_chart data');
+  }
+
+  if (candles.some(c => [c.time, c.open, c.high, c.low, c.close].some(value => !Number.isFinite(value)))) {
+    throw new Error('File contains candles with missing or non-numeric values');
+  }
+
+  return candles.sort((a, b) => a.time - b.time);
+};
+
+/**
+ * Reads an imported dataset from localStorage.
+ *
+ * @param coinId - The identifier of the cryptocurrency
+ * @returns The stored candles, or `null` if nothing was imported
+ */
+const readStoredDataset: LocalDatasetReader = (coinId) => {
+  try {
+    const storedJson = localStorage.getItem(`${LOCAL_PREFIX}${coinId}`);
+    return storedJson ? JSON.parse(storedJson) : null;
+  } catch (error) {
+    console.error('Error reading imported candles:', error instanceof Error ? error.message : 'Unknown error');
+    return null;
+  }
+};
+
+/**
+ * Parses a user-selected file and stores its candles for a coin.
+ *
+ * @param coinId - The coin the file belongs to
+ * @param file - JSON file picked by the user
+ * @returns The number of candles imported
+ */
+export const importLocalCandles = async (coinId: string, file: File): Promise<number> => {
+  const candles = parseLocalCandles(JSON.parse(await file.text()));
+  localStorage.setItem(`${LOCAL_PREFIX}${coinId}`, JSON.stringify(candles));
+  return candles.length;
+};
+
+/**
+ * Creates the local-file provider.
+ *
+ * @param readDataset - Dataset lookup to use (default: localStorage)
+ * @returns A `MarketDataProvider` serving imported candles
+ */
+export const createLocalFileProvider = (readDataset: LocalDatasetReader = readStoredDataset): MarketDataProvider => ({
+  id: 'local',
+  name: 'Local file',
+  remote: false,
+  fetchCandles: async ({ coinId, range, timeframe }) => {
+    const candles = readDataset(coinId);
+    if (!candles || candles.length === 0) {
+      throw new Error(`No imported data for ${coinId}. Import a JSON file first.`);
+    }
+
+    const inRange = candles.filter(c => c.time >= range.start && c.time <= range.end);
+    if (inRange.length === 0) {
+      throw new Error(`Imported data for ${coinId} does not cover the selected dates`);
+    }
+    return resampleCandles(inRange, timeframe);
+  }
+});
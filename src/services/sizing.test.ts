@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SIZING, simulateEquity } from './sizing';
+import { BacktestTrade, PositionSizing } from '../types';
+
+const HOUR = 60 * 60;
+
+// A long trade entered at 100 with a stop `stopPercent` below
+const trade = (entryTime: number, exitTime: number, profitLoss: number, stopPercent = 0.5): BacktestTrade => ({
+  entry_time: entryTime,
+  exit_time: exitTime,
+  entry_price: 100,
+  exit_price: 100 * (1 + profitLoss / 100),
+  high_price: 100,
+  low_price: 100,
+  result: profitLoss > 0 ? 'take_profit' : 'stop_loss',
+  profit_loss: profitLoss,
+  metrics: { maxFavorableExcursion: 0, maxAdverseExcursion: 0, timeToExit: exitTime - entryTime, riskRewardRatio: 1 },
+  stopLoss: 100 - stopPercent,
+  takeProfit: 101
+});
+
+const sizing = (overrides: Partial<PositionSizing>): PositionSizing => ({ ...DEFAULT_SIZING, ...overrides });
+
+describe('simulateEquity', () => {
+  it('caps a fixed fractional position at equity × max leverage', () => {
+    // 1% risk with a 0.5% stop would be a 2× position
+    const trades = [trade(0, HOUR, -0.5)];
+
+    expect(simulateEquity(trades, sizing({ maxLeverage: 1 }), 0).trades[0].notional).toBe(10000);
+    expect(simulateEquity(trades, sizing({ maxLeverage: 3 }), 0).trades[0].notional).toBeCloseTo(20000);
+  });
+
+  it('caps Kelly positions at equity × max leverage', () => {
+    // A long winning streak with small losses makes the full Kelly bet many times equity
+    const history = Array.from({ length: 20 }, (_, i) => trade(i * 2 * HOUR, (i * 2 + 1) * HOUR, i % 5 === 0 ? -0.1 : 2));
+    const result = simulateEquity(history, sizing({ mode: 'kelly', kellyFraction: 1, maxLeverage: 2 }), 0);
+
+    result.trades.forEach((t, i) => {
+      const equityBefore = i === 0 ? 10000 : result.trades[i - 1].equity_after!;
+      expect(t.notional).toBeLessThanOrEqual(equityBefore * 2 + 1e-6);
+    });
+  });
+
+  it('caps the total exposure of pyramided positions', () => {
+    // A new position every bar, each held for 24 bars
+    const pyramid = Array.from({ length: 48 }, (_, i) => trade(i * HOUR, (i + 24) * HOUR, -0.5));
+    const result = simulateEquity(pyramid, sizing({ maxLeverage: 1 }), 0);
+
+    result.trades.forEach(entered => {
+      const openNotional = result.trades
+        .filter(t => t.entry_time <= entered.entry_time && t.exit_time >= entered.entry_time)
+        .reduce((total, t) => total + t.notional!, 0);
+      expect(openNotional).toBeLessThanOrEqual(10000 + 1e-6);
+    });
+
+    // Two waves of positions, each wave's exposure is equity and loses 0.5%
+    expect(result.finalEquity).toBeCloseTo(10000 * 0.995 ** 2);
+  });
+
+  it('keeps fixed notional positions within equity', () => {
+    const result = simulateEquity([trade(0, HOUR, 1)], sizing({ mode: 'fixed_notional', notional: 50000 }), 0);
+
+    expect(result.trades[0].notional).toBe(10000);
+    expect(result.finalEquity).toBeCloseTo(10100);
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * sizing.ts
+ *
+ * Position sizing and account equity simulation for backtests.
+ *
+ * - Sizes each trade from the equity realised by the time it is entered.
+ * - Supports fixed notional, fixed fractional risk and fractional Kelly sizing.
+ * - Caps each position, and all open positions together when pyramiding, at
+ *   equity × `maxLeverage`.
+ * - Produces the equity curve and the equity after every trade.
+ *
+ * Kelly sizing only uses trades that had closed before the entry, so it never
+ * looks ahead. Until enough trades have closed it sizes like fixed fractional risk.
+ */
+
+import { BacktestTrade, EquityPoint, PositionSizing } from '../types';
+
+// Closed trades needed before the Kelly estimate is trusted
+const KELLY_MIN_TRADES = 10;
+
+export const DEFAULT_SIZING: PositionSizing = {
+  startingBalance: 10000,
+  mode: 'fixed_fractional',
+  notional: 1000,
+  riskPercent: 1,
+  kellyFraction: 0.5,
+  maxLeverage: 1
+};
+
+/**
+ * Kelly bet as a multiple of equity, from the % returns of closed trades.
+ * For a win of `b` and a loss of `a` (fractions of the stake): f = W / a - (1 - W) / b.
+ *
+ * @returns The Kelly multiple, or `null` when the sample can't support an estimate
+ */
+const kellyMultiple = (returns: number[]): number | null => {
+  const wins = returns.filter(r => r > 0);
+  const losses = returns.filter(r => r <= 0);
+  if (returns.length < KELLY_MIN_TRADES || wins.length === 0 || losses.length === 0) return null;
+
+  const winRate = wins.length / returns.length;
+  const averageWin = wins.reduce((a, b) => a + b, 0) / wins.length / 100;
+  const averageLoss = Math.abs(losses.reduce((a, b) => a + b, 0) / losses.length / 100);
+  if (averageLoss === 0) return null;
+
+  return winRate / averageLoss - (1 - winRate) / averageWin;
+};
+
+/**
+ * Sizes every trade and simulates the account equity.
+ *
+ * @param trades - Backtested trades with net `profit_loss` set
+ * @param sizing - Account and sizing options
+ * @param startTime - Time of the first candle, where the equity curve starts
+ * @returns The trades with size, $ P/L and equity filled in, the equity curve and the final equity
+ */
+export function simulateEquity(
+  trades: BacktestTrade[],
+  sizing: PositionSizing,
+  startTime: number
+): { trades: BacktestTrade[]; equityCurve: EquityPoint[]; finalEquity: number } {
+  const byEntry = [...trades].sort((a, b) => a.entry_time - b.entry_time);
+  const byExit = [...byEntry].sort((a, b) => a.exit_time - b.exit_time);
+  const pnlByTrade = new Map<BacktestTrade, number>();
+  const sized = new Map<BacktestTrade, BacktestTrade>();
+
+  let realised = sizing.startingBalance;
+  let closedIndex = 0;
+  const closedReturns: number[] = [];
+  let open: BacktestTrade[] = []; // Sized positions that may still be open
+
+  for (const trade of byEntry) {
+    // Realise every trade that closed before this one was entered. Exit times are the
+    // exit bar's open, so an exit on the entry bar itself isn't known yet at the entry
+    while (closedIndex < byExit.length && byExit[closedIndex].exit_time < trade.entry_time) {
+      realised += pnlByTrade.get(byExit[closedIndex]) ?? 0;
+      closedReturns.push(byExit[closedIndex].profit_loss);
+      closedIndex++;
+    }
+
+    const equity = Math.max(0, realised);
+    const stopDistance = Math.abs(trade.entry_price - trade.stopLoss) / trade.entry_price;
+    const riskNotional = stopDistance > 0 ? equity * sizing.riskPercent / 100 / stopDistance : 0;
+
+    let notional: number;
+    if (sizing.mode === 'fixed_notional') {
+      notional = Math.min(sizing.notional, equity);
+    } else if (sizing.mode === 'kelly') {
+      const kelly = kellyMultiple(closedReturns);
+      notional = kelly === null ? riskNotional : Math.max(0, kelly * sizing.kellyFraction) * equity;
+    } else {
+      notional = riskNotional;
+    }
+
+    // Only the exposure left under the leverage cap can be added to the open positions
+    open = open.filter(position => position.exit_time >= trade.entry_time);
+    const openNotional = open.reduce((total, position) => total + (position.notional ?? 0), 0);
+    notional = Math.max(0, Math.min(notional, equity * sizing.maxLeverage - openNotional));
+
+    const pnl = notional * trade.profit_loss / 100;
+    pnlByTrade.set(trade, pnl);
+    const position = {
+      ...trade,
+      notional,
+      position_size: trade.entry_price > 0 ? notional / trade.entry_price : 0,
+      pnl
+    };
+    sized.set(trade, position);
+    open.push(position);
+  }
+
+  // Walk the exits in order to build the equity curve
+  let equity = sizing.startingBalance;
+  const equityCurve: EquityPoint[] = [{ time: startTime, equity }];
+  for (const trade of byExit) {
+    const result = sized.get(trade)!;
+    equity += result.pnl ?? 0;
+    result.equity_after = equity;
+    equityCurve.push({ time: trade.exit_time, equity });
+  }
+
+  return {
+    trades: trades.map(trade => sized.get(trade)!),
+    equityCurve,
+    finalEquity: equity
+  };
+}
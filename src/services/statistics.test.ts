@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import { computeStatistics } from './statistics';
+import { BacktestTrade } from '../types';
+
+// A trade closing at `exitTime` with a `profitLoss` % return and the given excursions
+const trade = (exitTime: number, profitLoss: number, excursions: [number, number] = [0, 0]): BacktestTrade => ({
+  entry_time: exitTime - 1,
+  exit_time: exitTime,
+  entry_price: 100,
+  exit_price: 100 * (1 + profitLoss / 100),
+  high_price: 100,
+  low_price: 100,
+  result: profitLoss > 0 ? 'take_profit' : 'stop_loss',
+  profit_loss: profitLoss,
+  metrics: {
+    maxFavorableExcursion: excursions[0],
+    maxAdverseExcursion: excursions[1],
+    timeToExit: exitTime,
+    riskRewardRatio: 2
+  },
+  stopLoss: 99,
+  takeProfit: 102
+});
+
+describe('computeStatistics', () => {
+  // Returns 2, -1, -1, 4, -2 in exit order, listed out of order
+  const trades = [
+    trade(4, 4, [5, -0.5]),
+    trade(1, 2, [3, -1]),
+    trade(5, -2, [1, -2]),
+    trade(2, -1, [0.5, -1]),
+    trade(3, -1, [1.5, -3])
+  ];
+  const stats = computeStatistics(trades);
+
+  it('counts wins and losses', () => {
+    expect(stats.total_trades).toBe(5);
+    expect(stats.winning_trades).toBe(2);
+    expect(stats.losing_trades).toBe(3);
+    expect(stats.win_rate).toBe(40);
+    expect(stats.max_profit).toBe(4);
+    expect(stats.max_loss).toBe(-2);
+  });
+
+  it('averages returns, wins and losses', () => {
+    expect(stats.average_profit).toBeCloseTo(0.4);
+    expect(stats.average_win).toBe(3);
+    expect(stats.average_loss).toBeCloseTo(-4 / 3);
+    // 0.4 × 3 + 0.6 × -4/3
+    expect(stats.expectancy).toBeCloseTo(0.4);
+    // 6 won over 4 lost
+    expect(stats.profit_factor).toBe(1.5);
+  });
+
+  it('computes Sharpe over the sample deviation and Sortino over the downside deviation', () => {
+    // Squared deviations from 0.4 sum to 25.2, over 4 degrees of freedom
+    expect(stats.sharpe_ratio).toBeCloseTo(0.4 / Math.sqrt(6.3), 10);
+    // Squared losses sum to 6, over all 5 trades
+    expect(stats.sortino_ratio).toBeCloseTo(0.4 / Math.sqrt(1.2), 10);
+  });
+
+  it('follows the exit order for drawdown and streaks', () => {
+    // Equity peaks at 1.02 × 0.99 × 0.99 × 1.04, then drops 2%
+    expect(stats.max_drawdown).toBeCloseTo(2, 10);
+    expect(stats.longest_losing_streak).toBe(2);
+  });
+
+  it('summarises the per-trade metrics', () => {
+    expect(stats.max_favorable_excursion).toBe(5);
+    expect(stats.max_adverse_excursion).toBe(-3);
+    expect(stats.average_time_to_exit).toBe(3);
+    expect(stats.average_risk_reward).toBe(2);
+  });
+
+  it('returns zeros without trades', () => {
+    expect(computeStatistics([])).toEqual({
+      total_trades: 0,
+      winning_trades: 0,
+      losing_trades: 0,
+      win_rate: 0,
+      average_profit: 0,
+      max_profit: 0,
+      max_loss: 0,
+      profit_factor: 0,
+      average_win: 0,
+      average_loss: 0,
+      average_time_to_exit: undefined,
+      average_risk_reward: undefined,
+      max_favorable_excursion: undefined,
+      max_adverse_excursion: undefined,
+      sharpe_ratio: 0,
+      sortino_ratio: 0,
+      max_drawdown: 0,
+      expectancy: 0,
+      longest_losing_streak: 0
+    });
+  });
+
+  it('has an infinite profit factor and no downside when every trade wins', () => {
+    const allWins = computeStatistics([trade(1, 1), trade(2, 3)]);
+
+    expect(allWins.profit_factor).toBe(Infinity);
+    expect(allWins.sortino_ratio).toBe(0);
+    expect(allWins.max_drawdown).toBe(0);
+    expect(allWins.longest_losing_streak).toBe(0);
+  });
+
+  it('has no Sharpe ratio when every return is the same', () => {
+    // 0.1 doesn't average back to exactly 0.1, which leaves rounding noise in the deviation
+    const flat = computeStatistics([trade(1, 0.1), trade(2, 0.1), trade(3, 0.1)]);
+
+    expect(flat.sharpe_ratio).toBe(0);
+  });
+});
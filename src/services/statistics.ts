@@ -0,0 +1,103 @@
+/**
+ * statistics.ts
+ *
+ * Summary statistics for a list of backtested trades.
+ *
+ * - Win/loss counts, win rate, average/max profit and profit factor.
+ * - Average time to exit and R:R, and the largest MFE/MAE, when trades carry those metrics.
+ * - Risk-adjusted figures: Sharpe and Sortino ratios per trade, max drawdown of the
+ *   compounded equity curve, expectancy and the longest losing streak.
+ *
+ * All returns are the `profit_loss` percentages recorded on each trade.
+ */
+
+import { BacktestStatistics, BacktestTrade } from '../types';
+
+const mean = (values: number[]) =>
+  values.length ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+
+/**
+ * Sample standard deviation.
+ */
+const standardDeviation = (values: number[]) => {
+  if (values.length < 2) return 0;
+  const avg = mean(values);
+  return Math.sqrt(values.reduce((sum, v) => sum + Math.pow(v - avg, 2), 0) / (values.length - 1));
+};
+
+/**
+ * Largest peak-to-trough drop, in %, of equity compounded trade by trade.
+ *
+ * @param returns - Trade returns in %, in the order the trades closed
+ */
+export const calculateMaxDrawdown = (returns: number[]): number => {
+  let equity = 1;
+  let peak = 1;
+  let maxDrawdown = 0;
+
+  for (const r of returns) {
+    equity *= 1 + r / 100;
+    peak = Math.max(peak, equity);
+    maxDrawdown = Math.max(maxDrawdown, (peak - equity) / peak * 100);
+  }
+
+  return maxDrawdown;
+};
+
+/**
+ * Computes summary statistics for a backtest.
+ *
+ * @param trades - Backtested trades
+ * @returns Statistics covering every field of `BacktestStatistics`
+ */
+export function computeStatistics(trades: BacktestTrade[]): BacktestStatistics {
+  // Order by exit so drawdown and streaks follow the sequence trades actually closed in
+  const ordered = [...trades].sort((a, b) => a.exit_time - b.exit_time);
+  const returns = ordered.map(t => t.profit_loss);
+  const wins = returns.filter(r => r > 0);
+  const losses = returns.filter(r => r <= 0);
+
+  const winRate = returns.length ? wins.length / returns.length : 0;
+  const averageWin = mean(wins);
+  const averageLoss = mean(losses);
+  const grossProfit = wins.reduce((a, b) => a + b, 0);
+  const grossLoss = Math.abs(losses.reduce((a, b) => a + b, 0));
+
+  // Downside deviation only counts losing returns, measured from zero
+  const downsideDeviation = Math.sqrt(mean(returns.map(r => Math.pow(Math.min(0, r), 2))));
+  // Identical returns leave rounding noise in the deviation, which would blow up the ratio
+  const returnDeviation = standardDeviation(returns);
+  const deviation = returnDeviation > 1e-9 ? returnDeviation : 0;
+
+  let longestLosingStreak = 0;
+  let streak = 0;
+  for (const r of returns) {
+    streak = r <= 0 ? streak + 1 : 0;
+    longestLosingStreak = Math.max(longestLosingStreak, streak);
+  }
+
+  // Per-trade metrics are only averaged over trades that carry them
+  const metrics = ordered.filter(t => t.metrics).map(t => t.metrics);
+
+  return {
+    total_trades: returns.length,
+    winning_trades: wins.length,
+    losing_trades: losses.length,
+    win_rate: winRate * 100,
+    average_profit: mean(returns),
+    max_profit: returns.length ? Math.max(...returns) : 0,
+    max_loss: returns.length ? Math.min(...returns) : 0,
+    profit_factor: grossLoss > 0 ? grossProfit / grossLoss : grossProfit > 0 ? Infinity : 0,
+    average_win: averageWin,
+    average_loss: averageLoss,
+    average_time_to_exit: metrics.length ? mean(metrics.map(m => m.timeToExit)) : undefined,
+    average_risk_reward: metrics.length ? mean(metrics.map(m => m.riskRewardRatio)) : undefined,
+    max_favorable_excursion: metrics.length ? Math.max(...metrics.map(m => m.maxFavorableExcursion)) : undefined,
+    max_adverse_excursion: metrics.length ? Math.min(...metrics.map(m => m.maxAdverseExcursion)) : undefined,
+    sharpe_ratio: deviation > 0 ? mean(returns) / deviation : 0,
+    sortino_ratio: downsideDeviation > 0 ? mean(returns) / downsideDeviation : 0,
+    max_drawdown: calculateMaxDrawdown(returns),
+    expectancy: winRate * averageWin + (1 - winRate) * averageLoss,
+    longest_losing_streak: longestLosingStreak
+  };
+}
@@ -4,17 +4,25 @@
  * This module manages fetching and caching cryptocurrency OHLC (Open, High, Low, Close) data.
  * 
  * - Retrieves data from local storage if available and recent.
- * - Fetches fresh data from the API if the stored data is outdated (older than 1 hour).
- * - Transforms raw price data into OHLC format.
+ * - Fetches fresh candles from the selected market-data provider if the stored data
+ *   is outdated (older than 1 hour).
  * - Saves the processed OHLC data back to local storage for future use.
+ * - Falls back to outdated stored data when a fetch fails, and otherwise passes the error on.
+ * - Keeps the chart's indicator studies per coin, and its drawings per coin and timeframe.
  */
 
-import { fetchCoinData } from './api';
-import { OHLCData } from '../types';
+import { getMarketDataProvider } from './providers';
+import { lastDaysRange } from './timeframes';
+import { ChartDrawing, DateRange, MarketDataProviderId, OHLCData, StudySelection, Timeframe } from '../types';
 
 // Define a prefix for storing data in localStorage to avoid conflicts
 const STORAGE_PREFIX = 'crypto_trade_';
 
+// User settings get their own prefix so `clearCoinData` leaves them alone
+const SETTINGS_PREFIX = 'crypto_settings_';
+
+const DAY_SECONDS = 24 * 60 * 60; // Number of seconds in a day
+
 /**
  * Determines whether stored data needs to be updated.
  * 
@@ -47,10 +55,28 @@ export const clearCoinData = () => {
  * Retrieves OHLC (Open, High, Low, Close) price data for a given cryptocurrency.
  * 
  * @param coinId - The identifier of the cryptocurrency (e.g., 'bitcoin')
+ * @param providerId - The market-data provider to read candles from (default: 'coingecko')
+ * @param timeframe - Duration of each candle (default: '1d')
+ * @param range - Window to retrieve (default: the last 90 days)
  * @returns A promise that resolves to an array of OHLC data
+ * @throws If the provider fails and nothing was stored for this request
  */
-export const getCoinData = async (coinId: string): Promise<OHLCData[]> => {
-  const storageKey = `${STORAGE_PREFIX}${coinId}`;
+export const getCoinData = async (
+  coinId: string,
+  providerId: MarketDataProviderId = 'coingecko',
+  timeframe: Timeframe = '1d',
+  range: DateRange = lastDaysRange(90)
+): Promise<OHLCData[]> => {
+  const provider = getMarketDataProvider(providerId);
+
+  // Local providers are read directly, there is nothing to cache
+  if (!provider.remote) {
+    return provider.fetchCandles({ coinId, range, timeframe });
+  }
+
+  // Ranges ending "now" move every second, so the end is keyed by day and freshness is left to `needsUpdate`
+  const rangeKey = `${range.start}_${Math.floor(range.end / DAY_SECONDS)}`;
+  const storageKey = `${STORAGE_PREFIX}${providerId}_${coinId}_${timeframe}_${rangeKey}`;
   let storedData: { lastUpdated: number; prices: OHLCData[] } | null = null;
   
   // Attempt to retrieve stored data from localStorage
@@ -63,47 +89,10 @@ export const getCoinData = async (coinId: string): Promise<OHLCData[]> => {
     console.error('Error reading from localStorage:', error instanceof Error ? error.message : 'Unknown error');
   }
   
-  // If no stored data exists or it's outdated, fetch fresh data from the API
+  // If no stored data exists or it's outdated, fetch fresh data from the provider
   if (!storedData || needsUpdate(storedData.lastUpdated)) {
     try {
-      const data = await fetchCoinData(coinId);
-
-      // Convert raw price data into OHLC format
-      const ohlcData: OHLCData[] = [];
-      let currentDay = -1; // Tracks the current processing day
-      let currentCandle: OHLCData | null = null; // Holds the current day's OHLC data
-
-      for (const [timestamp, price] of data.prices) {
-        const date = new Date(timestamp); // Convert timestamp to a Date object
-        const day = date.getUTCDate(); // Extract the day of the month
-        
-        // If still on the same day, update high/low/close prices
-        if (currentDay === day && currentCandle) {
-          currentCandle.high = Math.max(currentCandle.high, price);
-          currentCandle.low = Math.min(currentCandle.low, price);
-          currentCandle.close = price;
-        } else {
-          // If it's a new day, store the previous day's data and start a new candle
-          if (currentCandle) {
-            ohlcData.push({ ...currentCandle });
-          }
-
-          // Initialize a new OHLC candle for the new day
-          currentDay = day;
-          currentCandle = {
-            time: Math.floor(timestamp / 1000), // Store timestamp in seconds
-            open: price,
-            high: price,
-            low: price,
-            close: price
-          };
-        }
-      }
-
-      // Push the last processed candle to the array
-      if (currentCandle) {
-        ohlcData.push({ ...currentCandle });
-      }
+      const ohlcData = await provider.fetchCandles({ coinId, range, timeframe });
 
       // Save the new data in localStorage for future use
       const newData = {
@@ -119,10 +108,73 @@ export const getCoinData = async (coinId: string): Promise<OHLCData[]> => {
       
       return ohlcData;
     } catch (error) {
-      console.error(`Error fetching data for ${coinId}:`, error instanceof Error ? error.message : 'Unknown error');
-      return storedData?.prices || []; // Return stored data if available, otherwise empty array
+      console.error(`Error fetching data for ${coinId} from ${provider.name}:`, error instanceof Error ? error.message : 'Unknown error');
+      if (storedData) return storedData.prices; // Outdated candles are still real candles
+      throw error;
     }
   }
   
   return storedData.prices;
 };
+
+/**
+ * Retrieves the indicator studies saved for a coin.
+ *
+ * @param coinId - The identifier of the cryptocurrency (e.g., 'bitcoin')
+ * @returns The saved studies, or `null` if none were saved
+ */
+export const getStudySettings = (coinId: string): StudySelection[] | null => {
+  try {
+    const storedJson = localStorage.getItem(`${SETTINGS_PREFIX}studies_${coinId}`);
+    return storedJson ? JSON.parse(storedJson) : null;
+  } catch (error) {
+    console.error('Error reading from localStorage:', error instanceof Error ? error.message : 'Unknown error');
+    return null;
+  }
+};
+
+/**
+ * Saves the indicator studies for a coin.
+ *
+ * @param coinId - The identifier of the cryptocurrency (e.g., 'bitcoin')
+ * @param studies - The studies drawn on the chart
+ */
+export const saveStudySettings = (coinId: string, studies: StudySelection[]) => {
+  try {
+    localStorage.setItem(`${SETTINGS_PREFIX}studies_${coinId}`, JSON.stringify(studies));
+  } catch (error) {
+    console.error('Error saving to localStorage:', error instanceof Error ? error.message : 'Unknown error');
+  }
+};
+
+/**
+ * Retrieves the chart drawings saved for a coin and timeframe.
+ *
+ * @param coinId - The identifier of the cryptocurrency (e.g., 'bitcoin')
+ * @param timeframe - Duration of each candle
+ * @returns The saved drawings, or an empty array if none were saved
+ */
+export const getDrawings = (coinId: string, timeframe: Timeframe): ChartDrawing[] => {
+  try {
+    const storedJson = localStorage.getItem(`${SETTINGS_PREFIX}drawings_${coinId}_${timeframe}`);
+    return storedJson ? JSON.parse(storedJson) : [];
+  } catch (error) {
+    console.error('Error reading from localStorage:', error instanceof Error ? error.message : 'Unknown error');
+    return [];
+  }
+};
+
+/**
+ * Saves the chart drawings for a coin and timeframe.
+ *
+ * @param coinId - The identifier of the cryptocurrency (e.g., 'bitcoin')
+ * @param timeframe - Duration of each candle
+ * @param drawings - The drawings on the chart
+ */
+export const saveDrawings = (coinId: string, timeframe: Timeframe, drawings: ChartDrawing[]) => {
+  try {
+    localStorage.setItem(`${SETTINGS_PREFIX}drawings_${coinId}_${timeframe}`, JSON.stringify(drawings));
+  } catch (error) {
+    console.error('Error saving to localStorage:', error instanceof Error ? error.message : 'Unknown error');
+  }
+};
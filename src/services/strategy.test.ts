@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { NO_EXTRA_EXITS, STRATEGY_PRESETS, validateStrategy } from './strategy';
+import { RuleOperand, Strategy } from '../types';
+
+const CLOSE: RuleOperand = { kind: 'indicator', id: 'close', params: [] };
+
+// A strategy entering when `left` is above `right`
+const condition = (left: RuleOperand, right: RuleOperand): Strategy => ({
+  name: 'Test',
+  entryRules: [{ type: 'condition', left, operator: 'above', right }],
+  exitRules: [],
+  exits: NO_EXTRA_EXITS,
+  pyramiding: false,
+  maxOpenPositions: 1
+});
+
+describe('validateStrategy', () => {
+  it('accepts the presets', () => {
+    STRATEGY_PRESETS.forEach(strategy => expect(validateStrategy(strategy)).toEqual([]));
+  });
+
+  it('accepts a condition on catalogue indicators', () => {
+    expect(validateStrategy(condition(CLOSE, { kind: 'indicator', id: 'ema', params: [50] }))).toEqual([]);
+  });
+
+  it('rejects indicators missing from the catalogue', () => {
+    const unknown = { kind: 'indicator', id: 'magic', params: [] } as unknown as RuleOperand;
+
+    expect(validateStrategy(condition(CLOSE, unknown))).toEqual(['Entry 1: Unknown indicator "magic"']);
+  });
+
+  it('rejects the wrong number of parameters', () => {
+    expect(validateStrategy(condition(CLOSE, { kind: 'indicator', id: 'ema', params: [] })))
+      .toEqual(['Entry 1: EMA takes 1 parameter(s)']);
+  });
+
+  it('rejects parameters out of range or not whole', () => {
+    expect(validateStrategy(condition(CLOSE, { kind: 'indicator', id: 'ema', params: [0] })))
+      .toEqual(['Entry 1: EMA period must be between 1 and 500']);
+    expect(validateStrategy(condition(CLOSE, { kind: 'indicator', id: 'ema', params: [20.5] })))
+      .toEqual(['Entry 1: EMA period must be a whole number']);
+    expect(validateStrategy(condition(CLOSE, { kind: 'indicator', id: 'bb_upper', params: [20, 20] })))
+      .toEqual(['Entry 1: BB upper std dev must be between 0.1 and 10']);
+  });
+
+  it('rejects conditions without an indicator', () => {
+    expect(validateStrategy(condition({ kind: 'value', value: 1 }, { kind: 'value', value: 2 })))
+      .toEqual(['Entry 1: A condition needs at least one indicator']);
+  });
+
+  it('rejects bad rule parameters and exits', () => {
+    const strategy: Strategy = {
+      ...condition(CLOSE, { kind: 'value', value: 100 }),
+      exitRules: [{ type: 'rsi', period: 14, operator: 'above', threshold: 150 }],
+      exits: { ...NO_EXTRA_EXITS, breakEvenAt: 0, partialTakeProfits: [{ gain: 5, fraction: 80 }, { gain: 10, fraction: 40 }] },
+      pyramiding: true,
+      maxOpenPositions: 0
+    };
+
+    expect(validateStrategy(strategy)).toEqual([
+      'Exit 1: RSI needs a whole period above 0 and a threshold between 0 and 100',
+      'The break-even gain must be above 0%',
+      'Partial take-profits can close at most 100% of the position',
+      'Allow at least one open position'
+    ]);
+  });
+});
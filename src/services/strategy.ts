@@ -0,0 +1,371 @@
+/**
+ * strategy.ts
+ *
+ * Turns a `Strategy` definition into per-bar entry and exit signals for the backtester.
+ *
+ * - Rules are built from the streaming indicators in `streamingIndicators.ts`: EMA crosses,
+ *   RSI thresholds and Bollinger band touches, plus the `analyzeTrade` score.
+ * - Indicators are computed in one pass over the whole history, one value per candle,
+ *   so checking a rule on a bar is a lookup.
+ * - Signals only use data up to the close of the bar they are checked on.
+ * - Validates strategy definitions, e.g. from the strategy builder, against the
+ *   indicator catalogue.
+ * - Ships a few preset strategies for the settings panel.
+ */
+
+import { OHLCData, RuleOperand, Strategy, StrategyExits, StrategyRule, Timeframe } from '../types';
+import { StreamingBollingerBands, StreamingEMA, StreamingRSI } from './streamingIndicators';
+import { analyzeTrade, getIndicatorSpec } from './technicalAnalysis';
+
+/**
+ * Context a compiled strategy needs besides the candles.
+ */
+export interface StrategyContext {
+  direction: 'long' | 'short';
+  timeframe: Timeframe;
+  // TP/SL levels the backtest would use for an entry at `price` on bar `index`
+  levelsAt: (price: number, index: number) => { takeProfit: number; stopLoss: number };
+}
+
+/**
+ * Entry and exit checks for each bar, by index into the candles the strategy was compiled on.
+ */
+export interface CompiledStrategy {
+  entry: (index: number) => boolean;
+  exit: (index: number) => boolean;
+}
+
+// Strategies only exit on TP/SL and their exit rules unless told otherwise
+export const NO_EXTRA_EXITS: StrategyExits = {
+  trailingStop: null,
+  breakEvenAt: null,
+  maxHoldingBars: null,
+  partialTakeProfits: []
+};
+
+export const STRATEGY_PRESETS: Strategy[] = [
+  {
+    name: 'Analysis score ≥ 60',
+    entryRules: [{ type: 'analysis_score', minScore: 60, lookback: 100 }],
+    exitRules: [],
+    exits: NO_EXTRA_EXITS,
+    pyramiding: false,
+    maxOpenPositions: 1
+  },
+  {
+    name: 'EMA 20/50 bullish cross',
+    entryRules: [{ type: 'ema_cross', fastPeriod: 20, slowPeriod: 50, cross: 'above' }],
+    exitRules: [{ type: 'ema_cross', fastPeriod: 20, slowPeriod: 50, cross: 'below' }],
+    exits: NO_EXTRA_EXITS,
+    pyramiding: false,
+    maxOpenPositions: 1
+  },
+  {
+    name: 'EMA 20/50 bearish cross',
+    entryRules: [{ type: 'ema_cross', fastPeriod: 20, slowPeriod: 50, cross: 'below' }],
+    exitRules: [{ type: 'ema_cross', fastPeriod: 20, slowPeriod: 50, cross: 'above' }],
+    exits: NO_EXTRA_EXITS,
+    pyramiding: false,
+    maxOpenPositions: 1
+  },
+  {
+    name: 'RSI oversold (< 30)',
+    entryRules: [{ type: 'rsi', period: 14, operator: 'below', threshold: 30 }],
+    exitRules: [{ type: 'rsi', period: 14, operator: 'above', threshold: 70 }],
+    exits: NO_EXTRA_EXITS,
+    pyramiding: false,
+    maxOpenPositions: 1
+  },
+  {
+    name: 'RSI overbought (> 70)',
+    entryRules: [{ type: 'rsi', period: 14, operator: 'above', threshold: 70 }],
+    exitRules: [{ type: 'rsi', period: 14, operator: 'below', threshold: 30 }],
+    exits: NO_EXTRA_EXITS,
+    pyramiding: false,
+    maxOpenPositions: 1
+  },
+  {
+    name: 'Lower Bollinger touch',
+    entryRules: [{ type: 'bollinger_touch', period: 20, stdDev: 2, band: 'lower' }],
+    exitRules: [{ type: 'bollinger_touch', period: 20, stdDev: 2, band: 'middle' }],
+    exits: NO_EXTRA_EXITS,
+    pyramiding: false,
+    maxOpenPositions: 1
+  },
+  {
+    name: 'Upper Bollinger touch',
+    entryRules: [{ type: 'bollinger_touch', period: 20, stdDev: 2, band: 'upper' }],
+    exitRules: [{ type: 'bollinger_touch', period: 20, stdDev: 2, band: 'middle' }],
+    exits: NO_EXTRA_EXITS,
+    pyramiding: false,
+    maxOpenPositions: 1
+  },
+  {
+    name: 'Every bar',
+    entryRules: [{ type: 'every_bar' }],
+    exitRules: [],
+    exits: NO_EXTRA_EXITS,
+    pyramiding: true,
+    maxOpenPositions: 1000
+  }
+];
+
+export const DEFAULT_STRATEGY = STRATEGY_PRESETS[0];
+
+/**
+ * Short human-readable form of an operand, e.g. "EMA(50)" or "30".
+ */
+export const describeOperand = (operand: RuleOperand): string => {
+  if (operand.kind === 'value') return `${operand.value}`;
+  const label = getIndicatorSpec(operand.id)?.label ?? operand.id;
+  return operand.params.length > 0 ? `${label}(${operand.params.join(', ')})` : label;
+};
+
+// Symbols used when describing condition operators
+const OPERATOR_SYMBOLS = { above: '>', below: '<', crosses_above: 'crosses above', crosses_below: 'crosses below' };
+
+/**
+ * Short human-readable form of a rule, e.g. "RSI(14) < 30".
+ */
+export const describeRule = (rule: StrategyRule): string => {
+  switch (rule.type) {
+    case 'every_bar':
+      return 'Every bar';
+    case 'ema_cross':
+      return `EMA(${rule.fastPeriod}) crosses ${rule.cross} EMA(${rule.slowPeriod})`;
+    case 'rsi':
+      return `RSI(${rule.period}) ${rule.operator === 'above' ? '>' : '<'} ${rule.threshold}`;
+    case 'bollinger_touch':
+      return `Touches ${rule.band} BB(${rule.period}, ${rule.stdDev})`;
+    case 'analysis_score':
+      return `Analysis score ≥ ${rule.minScore}`;
+    case 'condition':
+      return `${describeOperand(rule.left)} ${OPERATOR_SYMBOLS[rule.operator]} ${describeOperand(rule.right)}`;
+  }
+};
+
+/**
+ * Problems with an operand, checked against the indicator catalogue.
+ */
+function validateOperand(operand: RuleOperand): string[] {
+  if (operand.kind === 'value') {
+    return Number.isFinite(operand.value) ? [] : ['Values must be numbers'];
+  }
+
+  const spec = getIndicatorSpec(operand.id);
+  if (!spec) return [`Unknown indicator "${operand.id}"`];
+  if (operand.params.length !== spec.params.length) {
+    return [`${spec.label} takes ${spec.params.length} parameter(s)`];
+  }
+
+  return spec.params.flatMap((param, index) => {
+    const value = operand.params[index];
+    if (!Number.isFinite(value) || value < param.min || value > param.max) {
+      return [`${spec.label} ${param.name.toLowerCase()} must be between ${param.min} and ${param.max}`];
+    }
+    if (param.integer && !Number.isInteger(value)) {
+      return [`${spec.label} ${param.name.toLowerCase()} must be a whole number`];
+    }
+    return [];
+  });
+}
+
+/**
+ * Problems with a single rule.
+ */
+function validateRule(rule: StrategyRule): string[] {
+  const isPeriod = (value: number) => Number.isInteger(value) && value > 0;
+
+  switch (rule.type) {
+    case 'every_bar':
+      return [];
+    case 'ema_cross':
+      return isPeriod(rule.fastPeriod) && isPeriod(rule.slowPeriod) ? [] : ['EMA periods must be whole numbers above 0'];
+    case 'rsi':
+      return isPeriod(rule.period) && rule.threshold >= 0 && rule.threshold <= 100
+        ? []
+        : ['RSI needs a whole period above 0 and a threshold between 0 and 100'];
+    case 'bollinger_touch':
+      return isPeriod(rule.period) && rule.stdDev > 0 ? [] : ['Bollinger Bands need a whole period and a positive std dev'];
+    case 'analysis_score':
+      return rule.minScore >= 0 && rule.minScore <= 100 && isPeriod(rule.lookback)
+        ? []
+        : ['The analysis score must be between 0 and 100'];
+    case 'condition': {
+      const errors = [...validateOperand(rule.left), ...validateOperand(rule.right)];
+      if (rule.left.kind === 'value' && rule.right.kind === 'value') {
+        errors.push('A condition needs at least one indicator');
+      }
+      return errors;
+    }
+    default:
+      return ['Unknown rule type'];
+  }
+}
+
+/**
+ * Checks a strategy definition before it is backtested.
+ *
+ * @param strategy - The strategy to check, e.g. loaded from JSON or built in the UI
+ * @returns Human-readable problems, empty when the strategy can run
+ */
+export function validateStrategy(strategy: Strategy): string[] {
+  const errors: string[] = [];
+
+  if (strategy.entryRules.length === 0) errors.push('Add at least one entry condition');
+  strategy.entryRules.forEach((rule, index) =>
+    validateRule(rule).forEach(error => errors.push(`Entry ${index + 1}: ${error}`)));
+  strategy.exitRules.forEach((rule, index) =>
+    validateRule(rule).forEach(error => errors.push(`Exit ${index + 1}: ${error}`)));
+
+  // Definitions saved before an exit type existed simply don't use it
+  const { trailingStop = null, breakEvenAt = null, maxHoldingBars = null, partialTakeProfits = [] } = strategy.exits;
+  if (trailingStop && !(trailingStop.distance > 0)) errors.push('The trailing stop distance must be above 0');
+  if (breakEvenAt !== null && !(breakEvenAt > 0)) errors.push('The break-even gain must be above 0%');
+  if (maxHoldingBars !== null && !(Number.isInteger(maxHoldingBars) && maxHoldingBars > 0)) {
+    errors.push('The holding period must be a whole number of bars above 0');
+  }
+  partialTakeProfits.forEach((partial, index) => {
+    if (!(partial.gain > 0) || !(partial.fraction > 0 && partial.fraction <= 100)) {
+      errors.push(`Partial take-profit ${index + 1} needs a gain above 0% and a size between 0 and 100%`);
+    }
+  });
+  if (partialTakeProfits.reduce((sum, partial) => sum + partial.fraction, 0) > 100) {
+    errors.push('Partial take-profits can close at most 100% of the position');
+  }
+  if (strategy.pyramiding && !(strategy.maxOpenPositions >= 1)) errors.push('Allow at least one open position');
+
+  return errors;
+}
+
+/**
+ * Longest lookback, in bars, of the indicators behind a rule.
+ */
+function ruleLookback(rule: StrategyRule): number {
+  switch (rule.type) {
+    case 'every_bar':
+      return 0;
+    case 'ema_cross':
+      return Math.max(rule.fastPeriod, rule.slowPeriod);
+    case 'rsi':
+    case 'bollinger_touch':
+      return rule.period;
+    case 'analysis_score':
+      return rule.lookback;
+    case 'condition':
+      return Math.max(0, ...[rule.left, rule.right].flatMap(operand => operand.kind === 'indicator' ? operand.params : []));
+  }
+}
+
+/**
+ * Candles a strategy needs before its rules can fire, i.e. the longest lookback of its
+ * entry and exit rules.
+ */
+export function strategyLookback(strategy: Strategy): number {
+  return Math.max(0, ...[...strategy.entryRules, ...strategy.exitRules].map(ruleLookback));
+}
+
+/**
+ * Builds the check for a single rule.
+ */
+function compileRule(
+  rule: StrategyRule,
+  candles: OHLCData[],
+  closes: number[],
+  context: StrategyContext
+): (index: number) => boolean {
+  switch (rule.type) {
+    case 'every_bar':
+      return () => true;
+
+    case 'ema_cross': {
+      const fastEMA = new StreamingEMA(rule.fastPeriod);
+      const slowEMA = new StreamingEMA(rule.slowPeriod);
+      const fast = candles.map(candle => fastEMA.update(candle));
+      const slow = candles.map(candle => slowEMA.update(candle));
+      // The slow EMA needs its period to settle before crosses mean anything
+      const warmUp = Math.max(rule.fastPeriod, rule.slowPeriod);
+      return (i) => {
+        if (i < warmUp) return false;
+        const before = fast[i - 1] - slow[i - 1];
+        const now = fast[i] - slow[i];
+        return rule.cross === 'above' ? before <= 0 && now > 0 : before >= 0 && now < 0;
+      };
+    }
+
+    case 'rsi': {
+      const stream = new StreamingRSI(rule.period);
+      const rsi = candles.map(candle => stream.update(candle) ?? NaN);
+      return (i) => rule.operator === 'above' ? rsi[i] > rule.threshold : rsi[i] < rule.threshold;
+    }
+
+    case 'bollinger_touch': {
+      const stream = new StreamingBollingerBands(rule.period, rule.stdDev);
+      const band = candles.map(candle => stream.update(candle)?.[rule.band] ?? NaN);
+      return (i) => candles[i].low <= band[i] && candles[i].high >= band[i];
+    }
+
+    case 'condition': {
+      // Operands are validated first, so their indicators are in the catalogue
+      const series = (operand: RuleOperand): ((i: number) => number) => {
+        if (operand.kind === 'value') return () => operand.value;
+        const values = getIndicatorSpec(operand.id)!.compute(candles, operand.params);
+        return (i) => values[i];
+      };
+      const left = series(rule.left);
+      const right = series(rule.right);
+
+      return (i) => {
+        // Comparisons with NaN are false, so warm-up bars never fire
+        switch (rule.operator) {
+          case 'above':
+            return left(i) > right(i);
+          case 'below':
+            return left(i) < right(i);
+          case 'crosses_above':
+            return i > 0 && left(i - 1) <= right(i - 1) && left(i) > right(i);
+          case 'crosses_below':
+            return i > 0 && left(i - 1) >= right(i - 1) && left(i) < right(i);
+        }
+      };
+    }
+
+    case 'analysis_score':
+      return (i) => {
+        // The score's Bollinger Bands need at least 20 closes
+        const window = closes.slice(Math.max(0, i - rule.lookback + 1), i + 1);
+        if (window.length < 21) return false;
+
+        const { takeProfit, stopLoss } = context.levelsAt(closes[i], i);
+        const { overallScore } = analyzeTrade({
+          prices: window,
+          currentPrice: closes[i],
+          takeProfit,
+          stopLoss,
+          direction: context.direction,
+          timeframe: context.timeframe
+        });
+        return overallScore >= rule.minScore;
+      };
+  }
+}
+
+/**
+ * Compiles a strategy against a candle history.
+ *
+ * @param strategy - The strategy definition
+ * @param candles - Full candle history, including any warm-up before the backtest period
+ * @param context - Trade direction, timeframe and level translation
+ * @returns Entry and exit checks indexed like `candles`
+ */
+export function compileStrategy(strategy: Strategy, candles: OHLCData[], context: StrategyContext): CompiledStrategy {
+  const closes = candles.map(c => c.close);
+  const entryRules = strategy.entryRules.map(rule => compileRule(rule, candles, closes, context));
+  const exitRules = strategy.exitRules.map(rule => compileRule(rule, candles, closes, context));
+
+  return {
+    // A strategy without entry rules never trades
+    entry: (i) => entryRules.length > 0 && entryRules.every(check => check(i)),
+    exit: (i) => exitRules.some(check => check(i))
+  };
+}
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { alignToCandles, calculateBollingerBands, calculateEMA, calculateRSI } from './indicators';
+import { StreamingBollingerBands, StreamingEMA, StreamingRSI } from './streamingIndicators';
+
+// Seeded random walk, from a steady large-cap price to a volatile sub-dollar coin
+const randomWalk = (start: number, volatility: number, length: number, seed: number): number[] => {
+  let state = seed;
+  const random = () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return state / 4294967296;
+  };
+
+  const closes: number[] = [];
+  let price = start;
+  for (let i = 0; i < length; i++) {
+    price *= 1 + (random() - 0.5) * volatility;
+    closes.push(price);
+  }
+  return closes;
+};
+
+const SERIES = [
+  { name: 'BTC-like', closes: randomWalk(60000, 0.01, 5000, 1) },
+  { name: 'DOGE-like', closes: randomWalk(0.08, 0.04, 5000, 2) },
+  { name: 'nearly flat', closes: randomWalk(3000, 0.0001, 5000, 3) }
+];
+
+describe.each(SERIES)('streaming indicators on $name closes', ({ closes }) => {
+  it.each([5, 20, 50])('StreamingEMA(%i) equals calculateEMA exactly', (period) => {
+    const stream = new StreamingEMA(period);
+    expect(closes.map(close => stream.update({ close }))).toEqual(calculateEMA(closes, period));
+  });
+
+  it.each([2, 14, 30])('StreamingRSI(%i) equals calculateRSI exactly', (period) => {
+    const stream = new StreamingRSI(period);
+    const streamed = closes.map(close => stream.update({ close }) ?? NaN);
+
+    expect(streamed).toEqual(alignToCandles(calculateRSI(closes, period), closes.length));
+    expect(stream.value).toBe(streamed[streamed.length - 1]);
+  });
+
+  it.each([[20, 2], [50, 2.5], [7, 1]])('StreamingBollingerBands(%i, %f) equals calculateBollingerBands exactly', (period, stdDev) => {
+    const batch = calculateBollingerBands(closes, period, stdDev);
+    const stream = new StreamingBollingerBands(period, stdDev);
+
+    const bands = closes.map(close => stream.update({ close })).filter(band => band !== null);
+    expect(bands.map(band => band.upper)).toEqual(batch.upper);
+    expect(bands.map(band => band.middle)).toEqual(batch.middle);
+    expect(bands.map(band => band.lower)).toEqual(batch.lower);
+    expect(bands.map(band => band.bandWidth)).toEqual(batch.bandWidths);
+  });
+
+  it.each([[20, 2, 100], [50, 2.5, 30], [7, 1, 1]])('StreamingBollingerBands(%i, %f) averages the last %i band widths like calculateBollingerBands', (period, stdDev, lookback) => {
+    const stream = new StreamingBollingerBands(period, stdDev, lookback);
+    const widths: number[] = [];
+
+    closes.forEach(close => {
+      const band = stream.update({ close });
+      if (!band) return;
+      widths.push(band.bandWidth);
+
+      // The batch's average over the same widths
+      const recent = widths.slice(-lookback);
+      const batchAverage = recent.reduce((a, b) => a + b, 0) / recent.length;
+      if (widths.length <= lookback || widths.length % lookback === 0) {
+        // Until a width is evicted, and again after each full lap, the sums are added in the same order
+        expect(stream.averageBandWidth).toBe(batchAverage);
+      } else {
+        // In between, evicting by subtraction leaves rounding within a lap's worth of additions
+        expect(Math.abs(stream.averageBandWidth - batchAverage)).toBeLessThanOrEqual(lookback * Number.EPSILON * batchAverage);
+      }
+    });
+  });
+});
+
+describe('StreamingBollingerBands', () => {
+  it('warms up for period - 1 closes', () => {
+    const stream = new StreamingBollingerBands(3, 2);
+
+    expect(stream.update({ close: 1 })).toBeNull();
+    expect(stream.update({ close: 2 })).toBeNull();
+    expect(stream.update({ close: 3 })).toMatchObject({ middle: 2 });
+    expect(Number.isNaN(new StreamingBollingerBands().averageBandWidth)).toBe(true);
+  });
+
+  it('gives zero-width bands for a constant close', () => {
+    const stream = new StreamingBollingerBands(4, 2);
+    let band = null;
+    for (let i = 0; i < 10; i++) band = stream.update({ close: 100 });
+
+    expect(band).toEqual({ upper: 100, middle: 100, lower: 100, bandWidth: 0 });
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * streamingIndicators.ts
+ *
+ * Stateful indicators that take one candle at a time.
+ *
+ * - `update(candle)` returns the indicator's value after that candle, or `null` while it is
+ *   still warming up. It is O(1) for the EMA and RSI, and O(period) without allocating for
+ *   the Bollinger Bands.
+ * - Each uses the same arithmetic as its batch function (`calculateEMA`, `calculateRSI`,
+ *   `calculateBollingerBands`), so after the same closes it holds exactly the batch's last value.
+ *
+ * Strategy rules are compiled with these, so optimiser sweeps get each rule's series in one
+ * pass. Use them for live candles and long histories instead of recomputing the batch
+ * functions over the whole array on every new bar.
+ */
+
+import { OHLCData } from '../types';
+
+type Close = Pick<OHLCData, 'close'>;
+
+/**
+ * Exponential moving average of closes, seeded with the first close like `calculateEMA`.
+ */
+export class StreamingEMA {
+  private readonly multiplier: number;
+  private current: number | null = null;
+
+  constructor(readonly period: number) {
+    this.multiplier = 2 / (period + 1);
+  }
+
+  update(candle: Close): number {
+    this.current = this.current === null
+      ? candle.close
+      : (candle.close - this.current) * this.multiplier + this.current;
+    return this.current;
+  }
+
+  get value(): number | null {
+    return this.current;
+  }
+}
+
+/**
+ * Wilder's RSI of closes. The first value comes after `period + 1` closes, seeded with the
+ * plain average of the first `period` gains and losses like `calculateRSI`.
+ */
+export class StreamingRSI {
+  private previousClose: number | null = null;
+  private changes = 0;
+  private averageGain = 0;
+  private averageLoss = 0;
+  private current: number | null = null;
+
+  constructor(readonly period: number = 14) {}
+
+  update(candle: Close): number | null {
+    if (this.previousClose === null) {
+      this.previousClose = candle.close;
+      return null;
+    }
+
+    const change = candle.close - this.previousClose;
+    const gain = change > 0 ? change : 0;
+    const loss = change < 0 ? -change : 0;
+    this.previousClose = candle.close;
+    this.changes++;
+
+    if (this.changes < this.period) {
+      // Still summing the seed; divided once it is complete
+      this.averageGain += gain;
+      this.averageLoss += loss;
+      return null;
+    }
+
+    if (this.changes === this.period) {
+      this.averageGain = (this.averageGain + gain) / this.period;
+      this.averageLoss = (this.averageLoss + loss) / this.period;
+    } else {
+      this.averageGain = ((this.averageGain * (this.period - 1)) + gain) / this.period;
+      this.averageLoss = ((this.averageLoss * (this.period - 1)) + loss) / this.period;
+    }
+
+    this.current = 100 - (100 / (1 + this.averageGain / this.averageLoss));
+    return this.current;
+  }
+
+  get value(): number | null {
+    return this.current;
+  }
+}
+
+export interface BollingerValue {
+  upper: number;
+  middle: number;
+  lower: number;
+  bandWidth: number; // (upper - lower) / middle, in %
+}
+
+/**
+ * Bollinger Bands over the last `period` closes (population standard deviation).
+ *
+ * The closes are kept in a ring buffer and each update sums them oldest first, with the
+ * same arithmetic as `calculateBollingerBands`, so the bands are exactly the batch's. That
+ * is O(period) per update, but nothing is allocated. The last `lookback` band widths are
+ * kept with a running total for `averageBandWidth`; the total is re-added oldest first each
+ * time the widths wrap around, so evictions never accumulate rounding.
+ */
+export class StreamingBollingerBands {
+  private readonly closes: Float64Array;
+  private readonly bandWidths: Float64Array;
+  private count = 0;
+  private widthCount = 0;
+  private widthTotal = 0; // Sum of the band widths kept
+  private current: BollingerValue | null = null;
+
+  constructor(readonly period: number = 20, readonly stdDev: number = 2, readonly lookback: number = 100) {
+    this.closes = new Float64Array(period);
+    this.bandWidths = new Float64Array(Math.max(1, lookback));
+  }
+
+  update(candle: Close): BollingerValue | null {
+    this.closes[this.count % this.period] = candle.close;
+    this.count++;
+    if (this.count < this.period) return null;
+
+    // The oldest close in the window is the next one to be overwritten
+    const oldest = this.count % this.period;
+    let total = this.closes[oldest];
+    for (let k = 1; k < this.period; k++) total += this.closes[(oldest + k) % this.period];
+    const sma = total / this.period;
+
+    let squaredDiffs = Math.pow(this.closes[oldest] - sma, 2);
+    for (let k = 1; k < this.period; k++) squaredDiffs += Math.pow(this.closes[(oldest + k) % this.period] - sma, 2);
+    const standardDeviation = Math.sqrt(squaredDiffs / this.period);
+
+    const upper = sma + (standardDeviation * this.stdDev);
+    const lower = sma - (standardDeviation * this.stdDev);
+    const bandWidth = (upper - lower) / sma * 100;
+
+    const widthSlot = this.widthCount % this.bandWidths.length;
+    if (this.widthCount >= this.bandWidths.length) this.widthTotal -= this.bandWidths[widthSlot];
+    this.bandWidths[widthSlot] = bandWidth;
+    this.widthCount++;
+    if (this.widthCount % this.bandWidths.length === 0) {
+      // Full lap, the buffer is oldest first again: re-add it the way the batch sums it
+      this.widthTotal = 0;
+      for (let k = 0; k < this.bandWidths.length; k++) this.widthTotal += this.bandWidths[k];
+    } else {
+      this.widthTotal += bandWidth;
+    }
+
+    this.current = { upper, middle: sma, lower, bandWidth };
+    return this.current;
+  }
+
+  get value(): BollingerValue | null {
+    return this.current;
+  }
+
+  /**
+   * Average of the last `lookback` band widths; `NaN` before the first band.
+   */
+  get averageBandWidth(): number {
+    return this.widthTotal / Math.min(this.widthCount, this.bandWidths.length);
+  }
+}
@@ -1,82 +1,223 @@
-import { OHLCData } from '../types';
-
-export function calculateEMA(prices: number[], period: number): number[] {
-  const multiplier = 2 / (period + 1);
-  const ema: number[] = [prices[0]];
-
-  for (let i = 1; i < prices.length; i++) {
-    const currentEMA = (prices[i] - ema[i - 1]) * multiplier + ema[i - 1];
-    ema.push(currentEMA);
-  }
-
-  return ema;
-}
-
-export function calculateRSI(prices: number[], period: number = 14): number[] {
-  const rsi: number[] = [];
-  const gains: number[] = [];
-  const losses: number[] = [];
-
-  for (let i = 1; i < prices.length; i++) {
-    const change = prices[i] - prices[i - 1];
-    gains.push(change > 0 ? change : 0);
-    losses.push(change < 0 ? -change : 0);
-  }
-
-  let avgGain = gains.slice(0, period).reduce((a, b) => a + b, 0) / period;
-  let avgLoss = losses.slice(0, period).reduce((a, b) => a + b, 0) / period;
-
-  rsi.push(100 - (100 / (1 + avgGain / avgLoss)));
-
-  for (let i = period; i < prices.length - 1; i++) {
-    avgGain = ((avgGain * (period - 1)) + gains[i]) / period;
-    avgLoss = ((avgLoss * (period - 1)) + losses[i]) / period;
-    rsi.push(100 - (100 / (1 + avgGain / avgLoss)));
+import {
+  IndicatorConfirmation,
+  IndicatorId,
+  IndicatorSpec,
+  OHLCData,
+  StudyId,
+  StudySelection,
+  Timeframe,
+  TradeAnalysisInput
+} from '../types';
+import { TIMEFRAMES } from './timeframes';
+import {
+  alignToCandles,
+  calculateADX,
+  calculateATR,
+  calculateBollingerBands,
+  calculateEMA,
+  calculateIchimoku,
+  calculateMACD,
+  calculateOBV,
+  calculateRelativeVolume,
+  calculateRSI,
+  calculateSMA,
+  calculateStochastic,
+  calculateSupertrend,
+  calculateVolumeSMA,
+  calculateVWAP,
+  calculateWMA
+} from './indicators';
+import { scoreStudies } from './indicatorStudies';
+
+const closesOf = (candles: OHLCData[]) => candles.map(c => c.close);
+
+// Parameter specs shared by several catalogue entries
+const PERIOD = (defaultValue: number) => ({ name: 'Period', defaultValue, min: 1, max: 500, integer: true });
+const STD_DEV = { name: 'Std dev', defaultValue: 2, min: 0.1, max: 10, integer: false };
+const MACD_PARAMS = [{ ...PERIOD(12), name: 'Fast' }, { ...PERIOD(26), name: 'Slow' }, { ...PERIOD(9), name: 'Signal' }];
+const STOCHASTIC_PARAMS = [{ ...PERIOD(14), name: '%K period' }, { ...PERIOD(3), name: '%D period' }, { ...PERIOD(3), name: 'Smoothing' }];
+const ICHIMOKU_PARAMS = [
+  { ...PERIOD(9), name: 'Conversion' },
+  { ...PERIOD(26), name: 'Base' },
+  { ...PERIOD(52), name: 'Span B' },
+  { ...PERIOD(26), name: 'Displacement' }
+];
+
+/**
+ * Indicators strategy conditions can use. Every `compute` is aligned with the candles.
+ */
+export const INDICATOR_CATALOGUE: IndicatorSpec[] = [
+  { id: 'close', label: 'Close', params: [], compute: (candles) => closesOf(candles) },
+  { id: 'open', label: 'Open', params: [], compute: (candles) => candles.map(c => c.open) },
+  { id: 'high', label: 'High', params: [], compute: (candles) => candles.map(c => c.high) },
+  { id: 'low', label: 'Low', params: [], compute: (candles) => candles.map(c => c.low) },
+  {
+    id: 'ema',
+    label: 'EMA',
+    params: [PERIOD(20)],
+    compute: (candles, [period]) => calculateEMA(closesOf(candles), period)
+  },
+  {
+    id: 'rsi',
+    label: 'RSI',
+    params: [PERIOD(14)],
+    compute: (candles, [period]) => alignToCandles(calculateRSI(closesOf(candles), period), candles.length)
+  },
+  {
+    id: 'bb_upper',
+    label: 'BB upper',
+    params: [PERIOD(20), STD_DEV],
+    compute: (candles, [period, stdDev]) =>
+      alignToCandles(calculateBollingerBands(closesOf(candles), period, stdDev).upper, candles.length)
+  },
+  {
+    id: 'bb_middle',
+    label: 'BB middle',
+    params: [PERIOD(20)],
+    compute: (candles, [period]) =>
+      alignToCandles(calculateBollingerBands(closesOf(candles), period).middle, candles.length)
+  },
+  {
+    id: 'bb_lower',
+    label: 'BB lower',
+    params: [PERIOD(20), STD_DEV],
+    compute: (candles, [period, stdDev]) =>
+      alignToCandles(calculateBollingerBands(closesOf(candles), period, stdDev).lower, candles.length)
+  },
+  {
+    id: 'atr',
+    label: 'ATR',
+    params: [PERIOD(14)],
+    compute: (candles, [period]) => calculateATR(candles, period)
+  },
+  {
+    id: 'sma',
+    label: 'SMA',
+    params: [PERIOD(50)],
+    compute: (candles, [period]) => calculateSMA(candles, period)
+  },
+  {
+    id: 'wma',
+    label: 'WMA',
+    params: [PERIOD(20)],
+    compute: (candles, [period]) => calculateWMA(candles, period)
+  },
+  {
+    id: 'vwap',
+    label: 'VWAP',
+    params: [{ ...PERIOD(0), name: 'Period (0 = daily)', min: 0 }],
+    compute: (candles, [period]) => calculateVWAP(candles, period)
+  },
+  { id: 'obv', label: 'OBV', params: [], compute: (candles) => calculateOBV(candles) },
+  { id: 'volume', label: 'Volume', params: [], compute: (candles) => candles.map(c => c.volume ?? NaN) },
+  {
+    id: 'volume_sma',
+    label: 'Volume SMA',
+    params: [PERIOD(20)],
+    compute: (candles, [period]) => calculateVolumeSMA(candles, period)
+  },
+  {
+    id: 'relative_volume',
+    label: 'Relative volume',
+    params: [PERIOD(20)],
+    compute: (candles, [period]) => calculateRelativeVolume(candles, period)
+  },
+  {
+    id: 'macd',
+    label: 'MACD',
+    params: MACD_PARAMS,
+    compute: (candles, [fast, slow, signal]) => calculateMACD(candles, fast, slow, signal).macd
+  },
+  {
+    id: 'macd_signal',
+    label: 'MACD signal',
+    params: MACD_PARAMS,
+    compute: (candles, [fast, slow, signal]) => calculateMACD(candles, fast, slow, signal).signal
+  },
+  {
+    id: 'macd_histogram',
+    label: 'MACD histogram',
+    params: MACD_PARAMS,
+    compute: (candles, [fast, slow, signal]) => calculateMACD(candles, fast, slow, signal).histogram
+  },
+  {
+    id: 'stoch_k',
+    label: 'Stochastic %K',
+    params: STOCHASTIC_PARAMS,
+    compute: (candles, [kPeriod, dPeriod, smoothing]) => calculateStochastic(candles, kPeriod, dPeriod, smoothing).k
+  },
+  {
+    id: 'stoch_d',
+    label: 'Stochastic %D',
+    params: STOCHASTIC_PARAMS,
+    compute: (candles, [kPeriod, dPeriod, smoothing]) => calculateStochastic(candles, kPeriod, dPeriod, smoothing).d
+  },
+  {
+    id: 'adx',
+    label: 'ADX',
+    params: [PERIOD(14)],
+    compute: (candles, [period]) => calculateADX(candles, period).adx
+  },
+  {
+    id: 'plus_di',
+    label: '+DI',
+    params: [PERIOD(14)],
+    compute: (candles, [period]) => calculateADX(candles, period).plusDI
+  },
+  {
+    id: 'minus_di',
+    label: '−DI',
+    params: [PERIOD(14)],
+    compute: (candles, [period]) => calculateADX(candles, period).minusDI
+  },
+  // The Ichimoku lagging span reads later closes, so conditions can't use it
+  {
+    id: 'ichimoku_conversion',
+    label: 'Ichimoku Tenkan',
+    params: [PERIOD(9)],
+    compute: (candles, [period]) => calculateIchimoku(candles, period).conversion
+  },
+  {
+    id: 'ichimoku_base',
+    label: 'Ichimoku Kijun',
+    params: [PERIOD(26)],
+    compute: (candles, [period]) => calculateIchimoku(candles, 9, period).base
+  },
+  {
+    id: 'ichimoku_span_a',
+    label: 'Ichimoku Span A',
+    params: ICHIMOKU_PARAMS,
+    compute: (candles, [conversion, base, spanB, displacement]) =>
+      calculateIchimoku(candles, conversion, base, spanB, displacement).spanA
+  },
+  {
+    id: 'ichimoku_span_b',
+    label: 'Ichimoku Span B',
+    params: ICHIMOKU_PARAMS,
+    compute: (candles, [conversion, base, spanB, displacement]) =>
+      calculateIchimoku(candles, conversion, base, spanB, displacement).spanB
+  },
+  {
+    id: 'supertrend',
+    label: 'Supertrend',
+    params: [PERIOD(10), { name: 'Multiplier', defaultValue: 3, min: 0.1, max: 20, integer: false }],
+    compute: (candles, [period, multiplier]) => calculateSupertrend(candles, period, multiplier).supertrend
   }
+];
 
-  return rsi;
+/**
+ * Looks up a catalogue indicator.
+ */
+export function getIndicatorSpec(id: IndicatorId): IndicatorSpec | undefined {
+  return INDICATOR_CATALOGUE.find(spec => spec.id === id);
 }
 
-export function calculateBollingerBands(
-  prices: number[], 
-  period: number = 20, 
-  stdDev: number = 2,
-  lookback: number = 100
-): {
-  upper: number[];
-  middle: number[];
-  lower: number[];
-  bandWidths: number[];
-  averageBandWidth: number;
-} {
-  const bands = {
-    upper: [],
-    middle: [],
-    lower: [],
-    bandWidths: [],
-    averageBandWidth: 0
-  };
-
-  for (let i = period - 1; i < prices.length; i++) {
-    const slice = prices.slice(i - period + 1, i + 1);
-    const sma = slice.reduce((a, b) => a + b) / period;
-    
-    const squaredDiffs = slice.map(price => Math.pow(price - sma, 2));
-    const variance = squaredDiffs.reduce((a, b) => a + b) / period;
-    const standardDeviation = Math.sqrt(variance);
-
-    bands.middle.push(sma);
-    bands.upper.push(sma + (standardDeviation * stdDev));
-    bands.lower.push(sma - (standardDeviation * stdDev));
-    
-    const bandWidth = ((sma + (standardDeviation * stdDev)) - (sma - (standardDeviation * stdDev))) / sma * 100;
-    bands.bandWidths.push(bandWidth);
-  }
-
-  const recentBandWidths = bands.bandWidths.slice(-lookback);
-  bands.averageBandWidth = recentBandWidths.reduce((a, b) => a + b, 0) / recentBandWidths.length;
-
-  return bands;
+/**
+ * Parameters of the first selected study with this id, or the defaults when there is none.
+ * With several EMAs on the chart, the first one drives the trend score.
+ */
+function studyParams(studies: StudySelection[] | undefined, id: StudyId, defaults: number[]): number[] {
+  return studies?.find(study => study.id === id)?.params ?? defaults;
 }
 
 function calculateVolatilityScore(
@@ -113,13 +254,7 @@ function calculateTargetFeasibility(
   return correctDirection ? adjustedScore : 0;
 }
 
-export function analyzeTrade(params: {
-  prices: number[];
-  currentPrice: number;
-  takeProfit: number;
-  stopLoss: number;
-  direction?: 'long' | 'short';
-}): {
+export function analyzeTrade(params: TradeAnalysisInput): {
   trendScore: number;
   momentumScore: number;
   volatilityScore: number;
@@ -134,15 +269,20 @@ export function analyzeTrade(params: {
     volatility: string;
     probabilities: string;
   };
+  confirmations?: IndicatorConfirmation[];
+  confirmationScore?: number;
 } {
-  const { prices, currentPrice, takeProfit, stopLoss, direction = 'long' } = params;
+  const { prices, currentPrice, takeProfit, stopLoss, direction = 'long', timeframe = '1d', candles, studies } = params;
 
-  // Calculate market condition indicators
-  const ema20 = calculateEMA(prices, 20);
-  const rsi = calculateRSI(prices);
-  const bb = calculateBollingerBands(prices);
+  // Calculate market condition indicators, with the periods of the selected studies
+  const [emaPeriod] = studyParams(studies, 'ema', [20]);
+  const [rsiPeriod] = studyParams(studies, 'rsi', [14]);
+  const [bbPeriod, bbStdDev] = studyParams(studies, 'bollinger', [20, 2]);
+  const ema = calculateEMA(prices, emaPeriod);
+  const rsi = calculateRSI(prices, rsiPeriod);
+  const bb = calculateBollingerBands(prices, bbPeriod, bbStdDev);
 
-  const lastEMA = ema20[ema20.length - 1];
+  const lastEMA = ema[ema.length - 1];
   const lastRSI = rsi[rsi.length - 1];
   const lastBB = {
     upper: bb.upper[bb.upper.length - 1],
@@ -170,20 +310,33 @@ export function analyzeTrade(params: {
     trendScore, momentumScore, volatilityScore
   );
 
+  // Reward per unit of risk of the planned trade
+  const risk = Math.abs(currentPrice - stopLoss);
+  const riskRewardRatio = risk > 0 ? Math.abs(takeProfit - currentPrice) / risk : 0;
+
   // Generate explanations
   const explanations = {
-    trend: generateTrendExplanation(currentPrice, lastEMA, direction),
-    momentum: generateMomentumExplanation(lastRSI, trendScore, direction),
+    trend: generateTrendExplanation(currentPrice, lastEMA, emaPeriod, direction, timeframe),
+    momentum: generateMomentumExplanation(lastRSI, riskRewardRatio, direction),
     volatility: generateVolatilityExplanation(lastBB, direction),
     probabilities: generateProbabilityExplanation(tpProbability, slProbability, direction)
   };
 
   // Calculate overall trade success likelihood
-  const overallScore = calculateTradeSuccessLikelihood(
-    trendScore, momentumScore, volatilityScore, 
-    tpProbability, slProbability
+  const likelihood = calculateTradeSuccessLikelihood(
+    trendScore, momentumScore, volatilityScore,
+    riskRewardRatio, tpProbability, slProbability
   );
 
+  // Indicator studies confirm or contradict the trade; they need the full candles
+  const confirmations = candles ? scoreStudies(candles, studies, direction) : [];
+  const confirmationScore = confirmations.length > 0
+    ? confirmations.reduce((sum, c) => sum + c.score, 0) / confirmations.length
+    : undefined;
+  const overallScore = confirmationScore === undefined
+    ? likelihood
+    : likelihood * 0.8 + confirmationScore * 0.2;
+
   return {
     trendScore,
     momentumScore,
@@ -193,7 +346,8 @@ export function analyzeTrade(params: {
     recommendation: generateRecommendation(overallScore, direction),
     takeProfitProbability: tpProbability,
     stopLossProbability: slProbability,
-    explanations
+    explanations,
+    ...(candles ? { confirmations, confirmationScore } : {})
   };
 }
 
@@ -339,22 +493,25 @@ function generateRecommendation(score: number, direction: 'long' | 'short'): str
 function generateTrendExplanation(
   currentPrice: number,
   ema: number,
-  direction: 'long' | 'short'
+  emaPeriod: number,
+  direction: 'long' | 'short',
+  timeframe: Timeframe
 ): string {
   const priceDiff = ((currentPrice - ema) / ema) * 100;
   const aboveBelowEma = currentPrice > ema ? 'above' : 'below';
+  const emaLabel = `the ${TIMEFRAMES.find(t => t.id === timeframe)?.label ?? timeframe} EMA ${emaPeriod}`;
 
   if (direction === 'long') {
     if (currentPrice > ema) {
-      return `Price is ${aboveBelowEma} EMA by ${Math.abs(priceDiff).toFixed(1)}%, showing upward trend.`;
+      return `Price is ${aboveBelowEma} ${emaLabel} by ${Math.abs(priceDiff).toFixed(1)}%, showing upward trend.`;
     } else {
-      return `Price is ${aboveBelowEma} EMA by ${Math.abs(priceDiff).toFixed(1)}%, suggesting caution for longs.`;
+      return `Price is ${aboveBelowEma} ${emaLabel} by ${Math.abs(priceDiff).toFixed(1)}%, suggesting caution for longs.`;
     }
   } else {
     if (currentPrice < ema) {
-      return `Price is ${aboveBelowEma} EMA by ${Math.abs(priceDiff).toFixed(1)}%, showing downward trend.`;
+      return `Price is ${aboveBelowEma} ${emaLabel} by ${Math.abs(priceDiff).toFixed(1)}%, showing downward trend.`;
     } else {
-      return `Price is ${aboveBelowEma} EMA by ${Math.abs(priceDiff).toFixed(1)}%, suggesting caution for shorts.`;
+      return `Price is ${aboveBelowEma} ${emaLabel} by ${Math.abs(priceDiff).toFixed(1)}%, suggesting caution for shorts.`;
     }
   }
 }
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { bucketStart, resampleCandles } from './timeframes';
+import { OHLCData } from '../types';
+
+const HOUR = 60 * 60;
+const DAY = 24 * HOUR;
+const MONDAY = 1704067200; // 2024-01-01T00:00:00Z
+
+const hourly = (start: number, closes: number[]): OHLCData[] =>
+  closes.map((close, i) => ({
+    time: start + i * HOUR,
+    open: close - 1,
+    high: close + 2,
+    low: close - 3,
+    close,
+    volume: 10 + i
+  }));
+
+describe('resampleCandles', () => {
+  it('aligns 4h buckets to multiples of 4 hours', () => {
+    // Starts at 02:00, so the first bucket only holds two candles
+    const candles = hourly(MONDAY + 2 * HOUR, [100, 101, 102, 103, 104, 105]);
+    const resampled = resampleCandles(candles, '4h');
+
+    expect(resampled.map(c => c.time)).toEqual([MONDAY, MONDAY + 4 * HOUR]);
+    expect(bucketStart(MONDAY + 7 * HOUR + 59 * 60, '4h')).toBe(MONDAY + 4 * HOUR);
+  });
+
+  it('aligns weekly buckets to Mondays', () => {
+    const thursday = MONDAY + 3 * DAY;
+    const daily = [0, 1, 2, 3, 4, 5].map(i => ({ time: thursday + i * DAY, open: 1, high: 1, low: 1, close: 1 }));
+    const resampled = resampleCandles(daily, '1w');
+
+    expect(resampled.map(c => c.time)).toEqual([MONDAY, MONDAY + 7 * DAY]);
+    expect(bucketStart(MONDAY - 1, '1w')).toBe(MONDAY - 7 * DAY);
+  });
+
+  it('takes the open of the first candle, the close of the last and the extremes in between', () => {
+    const candles: OHLCData[] = [
+      { time: MONDAY, open: 10, high: 12, low: 9, close: 11, volume: 1 },
+      { time: MONDAY + HOUR, open: 11, high: 15, low: 10, close: 14, volume: 2 },
+      { time: MONDAY + 2 * HOUR, open: 14, high: 14, low: 7, close: 8, volume: 3 },
+      { time: MONDAY + 3 * HOUR, open: 8, high: 9, low: 8, close: 9, volume: 4 }
+    ];
+
+    expect(resampleCandles(candles, '4h')).toEqual([
+      { time: MONDAY, open: 10, high: 15, low: 7, close: 9, volume: 10 }
+    ]);
+  });
+
+  it('keeps a partial trailing bucket', () => {
+    const candles = hourly(MONDAY, [100, 101, 102, 103, 104, 105]);
+    const [full, partial] = resampleCandles(candles, '4h');
+
+    expect(full).toMatchObject({ time: MONDAY, open: 99, close: 103, volume: 10 + 11 + 12 + 13 });
+    expect(partial).toEqual({ time: MONDAY + 4 * HOUR, open: 103, high: 107, low: 101, close: 105, volume: 14 + 15 });
+  });
+
+  it('leaves volume unset when no candle has one, and passes coarser candles through', () => {
+    const daily = [0, 1].map(i => ({ time: MONDAY + i * DAY, open: 1, high: 2, low: 0.5, close: 1.5 }));
+
+    expect(resampleCandles(daily, '1d')).toEqual(daily);
+    expect(resampleCandles(daily, '4h')).toEqual(daily);
+    expect(resampleCandles(daily, '1w')[0].volume).toBeUndefined();
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * timeframes.ts
+ *
+ * Helpers for working with candle timeframes.
+ *
+ * - Lists the supported timeframes with their labels and durations.
+ * - Resamples candles into a higher timeframe (e.g., 1h → 4h, 1d → 1w).
+ * - Builds date ranges for data fetching and backtests.
+ */
+
+import { DateRange, OHLCData, Timeframe } from '../types';
+
+const HOUR_SECONDS = 60 * 60; // Number of seconds in an hour
+const DAY_SECONDS = 24 * HOUR_SECONDS; // Number of seconds in a day
+
+// The epoch fell on a Thursday, weekly buckets are shifted to start on Mondays
+const WEEK_OFFSET_SECONDS = 4 * DAY_SECONDS;
+
+export const TIMEFRAMES: { id: Timeframe; label: string; seconds: number }[] = [
+  { id: '1h', label: '1H', seconds: HOUR_SECONDS },
+  { id: '4h', label: '4H', seconds: 4 * HOUR_SECONDS },
+  { id: '1d', label: '1D', seconds: DAY_SECONDS },
+  { id: '1w', label: '1W', seconds: 7 * DAY_SECONDS }
+];
+
+/**
+ * Returns the duration of one candle.
+ *
+ * @param timeframe - The candle timeframe
+ * @returns Duration in seconds
+ */
+export const timeframeSeconds = (timeframe: Timeframe): number =>
+  TIMEFRAMES.find(t => t.id === timeframe)?.seconds ?? DAY_SECONDS;
+
+/**
+ * Returns how many candles of a timeframe fit in one day.
+ *
+ * @param timeframe - The candle timeframe
+ * @returns Candles per day (fractional for weekly candles)
+ */
+export const barsPerDay = (timeframe: Timeframe): number => DAY_SECONDS / timeframeSeconds(timeframe);
+
+/**
+ * Returns the timeframe used to look inside a candle, e.g. for intrabar fills.
+ *
+ * @param timeframe - The candle timeframe
+ * @returns The next finer timeframe, or `null` for the finest one
+ */
+export const lowerTimeframe = (timeframe: Timeframe): Timeframe | null => {
+  switch (timeframe) {
+    case '1w': return '1d';
+    case '1d': return '1h';
+    case '4h': return '1h';
+    default: return null;
+  }
+};
+
+/**
+ * Returns whether candles of a timeframe start mid-day, i.e. need a time of day on the chart.
+ *
+ * @param timeframe - The candle timeframe
+ */
+export const isIntraday = (timeframe: Timeframe): boolean => timeframeSeconds(timeframe) < DAY_SECONDS;
+
+/**
+ * Returns the start of the bucket a timestamp belongs to.
+ *
+ * @param time - Timestamp in seconds
+ * @param timeframe - The candle timeframe
+ * @returns Bucket start in seconds
+ */
+export const bucketStart = (time: number, timeframe: Timeframe): number => {
+  const seconds = timeframeSeconds(timeframe);
+  const offset = timeframe === '1w' ? WEEK_OFFSET_SECONDS : 0;
+  return Math.floor((time - offset) / seconds) * seconds + offset;
+};
+
+/**
+ * Builds higher-timeframe candles from lower-timeframe ones.
+ * Candles that are already as coarse as the target are passed through unchanged.
+ *
+ * @param candles - Candles sorted by time
+ * @param timeframe - The target timeframe
+ * @returns Resampled candles, stamped with the start of each bucket
+ */
+export const resampleCandles = (candles: OHLCData[], timeframe: Timeframe): OHLCData[] => {
+  const resampled: OHLCData[] = [];
+  let current: OHLCData | null = null;
+
+  for (const candle of candles) {
+    const start = bucketStart(candle.time, timeframe);
+
+    // Still inside the same bucket: extend the candle
+    if (current && current.time === start) {
+      current.high = Math.max(current.high, candle.high);
+      current.low = Math.min(current.low, candle.low);
+      current.close = candle.close;
+      if (candle.volume !== undefined) {
+        current.volume = (current.volume ?? 0) + candle.volume;
+      }
+      continue;
+    }
+
+    // New bucket: store the previous candle and start a new one
+    if (current) {
+      resampled.push(current);
+    }
+    current = { ...candle, time: start };
+  }
+
+  if (current) {
+    resampled.push(current);
+  }
+
+  return resampled;
+};
+
+/**
+ * Builds a date range ending now and starting at midnight UTC `days` days ago.
+ *
+ * @param days - Number of past days to cover
+ * @returns The date range in Unix seconds
+ */
+export const lastDaysRange = (days: number): DateRange => {
+  const end = Math.floor(Date.now() / 1000);
+  return { start: Math.floor(end / DAY_SECONDS) * DAY_SECONDS - days * DAY_SECONDS, end };
+};
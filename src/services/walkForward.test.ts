@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest';
+import { runWalkForward } from './walkForward';
+import { NO_EXTRA_EXITS } from './strategy';
+import { BacktestParams, OHLCData, WalkForwardConfig } from '../types';
+
+const DAY = 24 * 60 * 60;
+
+// Every bar opens at the previous close and rises 1% to its close, 2% at its high
+const rising = (count: number): OHLCData[] => {
+  const candles: OHLCData[] = [];
+  let open = 100;
+  for (let i = 0; i < count; i++) {
+    candles.push({ time: i * DAY, open, high: open * 1.02, low: open, close: open * 1.01 });
+    open *= 1.01;
+  }
+  return candles;
+};
+
+// Longs on every bar with a 1% TP, so each trade makes 1% on the bar it enters
+const params = (prices: OHLCData[]): BacktestParams => ({
+  prices,
+  entryPrice: 100,
+  takeProfit: 101,
+  stopLoss: 99,
+  direction: 'long',
+  range: { start: prices[0].time, end: prices[prices.length - 1].time },
+  strategy: {
+    name: 'Test',
+    entryRules: [{ type: 'every_bar' }],
+    exitRules: [],
+    exits: NO_EXTRA_EXITS,
+    pyramiding: false,
+    maxOpenPositions: 1
+  }
+});
+
+const config = (overrides: Partial<WalkForwardConfig> = {}): WalkForwardConfig => ({
+  inSampleBars: 4,
+  outOfSampleBars: 2,
+  anchored: false,
+  optimization: {
+    takeProfit: { min: 1, max: 1, step: 1 },
+    stopLoss: { min: 1, max: 1, step: 1 },
+    period: null,
+    method: 'grid',
+    samples: 1,
+    objective: 'net_profit',
+    minTrades: 1
+  },
+  ...overrides
+});
+
+const bars = (range: { start: number; end: number }) => [range.start / DAY, range.end / DAY];
+
+describe('runWalkForward', () => {
+  it('rolls in-sample windows forward by the out-of-sample length', () => {
+    const { windows } = runWalkForward(params(rising(10)), config());
+
+    expect(windows.map(w => [bars(w.inSample), bars(w.outOfSample)])).toEqual([
+      [[0, 3], [4, 5]],
+      [[2, 5], [6, 7]],
+      [[4, 7], [8, 9]]
+    ]);
+  });
+
+  it('keeps anchored windows starting at the first bar and cuts the last one short', () => {
+    const { windows } = runWalkForward(params(rising(11)), config({ anchored: true }));
+
+    expect(windows.map(w => [bars(w.inSample), bars(w.outOfSample)])).toEqual([
+      [[0, 3], [4, 5]],
+      [[0, 5], [6, 7]],
+      [[0, 7], [8, 9]],
+      [[0, 9], [10, 10]]
+    ]);
+  });
+
+  it('only splits the candles inside the range', () => {
+    const prices = rising(12);
+    const { windows } = runWalkForward({ ...params(prices), range: { start: 2 * DAY, end: 11 * DAY } }, config());
+
+    expect(bars(windows[0].inSample)).toEqual([2, 5]);
+    expect(bars(windows[windows.length - 1].outOfSample)).toEqual([10, 11]);
+  });
+
+  it('stitches the out-of-sample equity of every window', () => {
+    const result = runWalkForward(params(rising(10)), config());
+
+    // One 1% trade in each two-bar out-of-sample window, on the full equity
+    expect(result.trades).toHaveLength(3);
+    result.windows.forEach(w => expect(w.outOfSampleReturn).toBeCloseTo(1, 6));
+    expect(result.finalEquity).toBeCloseTo(10000 * 1.01 ** 3, 4);
+
+    expect(result.equityCurve[0]).toEqual({ time: 4 * DAY, equity: 10000 });
+    expect(result.equityCurve.map(p => p.equity)).toEqual([10000, ...result.trades.map(t => t.equity_after)]);
+    expect(result.equityCurve[result.equityCurve.length - 1].equity).toBe(result.finalEquity);
+
+    // Each window's trades stay inside its out-of-sample period
+    result.windows.forEach((w, i) => {
+      const trade = result.trades[i];
+      expect(trade.entry_time).toBeGreaterThanOrEqual(w.outOfSample.start);
+      expect(trade.exit_time).toBeLessThanOrEqual(w.outOfSample.end);
+    });
+  });
+
+  it('scores robustness from the efficiency and the profitable windows', () => {
+    const result = runWalkForward(params(rising(10)), config());
+
+    // In-sample: three 1% trades over 4 bars; out-of-sample: one over 2 bars
+    const inSamplePerBar = (1.01 ** 3 - 1) * 100 / 4;
+    expect(result.efficiency).toBeCloseTo(0.5 / inSamplePerBar, 6);
+    expect(result.profitableWindows).toBe(1);
+    expect(result.robustnessScore).toBe(Math.round(50 * 0.5 / inSamplePerBar + 50));
+  });
+
+  it('stands aside and scores 0 when no parameter set qualifies', () => {
+    const strict = config();
+    const result = runWalkForward(params(rising(10)), { ...strict, optimization: { ...strict.optimization, minTrades: 100 } });
+
+    expect(result.windows.every(w => w.best === null && w.outOfSampleTrades === 0)).toBe(true);
+    expect(result.trades).toEqual([]);
+    expect(result.finalEquity).toBe(10000);
+    expect(result.equityCurve).toEqual([{ time: 4 * DAY, equity: 10000 }]);
+    expect(result.robustnessScore).toBe(0);
+  });
+
+  it('needs more candles than the in-sample window', () => {
+    expect(() => runWalkForward(params(rising(4)), config())).toThrow('Walk-forward needs more than 4 candles');
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * walkForward.ts
+ *
+ * Walk-forward (out-of-sample) validation of the optimiser.
+ *
+ * - Splits the backtest period into in-sample windows followed by out-of-sample windows,
+ *   rolling (or anchored) forward by the out-of-sample length.
+ * - Optimises TP/SL (and optionally a period) on each in-sample window with `runOptimization`,
+ *   then trades the winner on the following out-of-sample window only.
+ * - Stitches the out-of-sample equity of every window, each starting from where the previous
+ *   one ended, and computes `BacktestStatistics` over the out-of-sample trades.
+ *
+ * Robustness score (0 to 100): half from the walk-forward efficiency (out-of-sample return
+ * per bar over in-sample return per bar, capped at 1), half from the share of profitable
+ * out-of-sample windows. Curve-fitted parameters score low on both.
+ */
+
+import { BacktestParams, BacktestTrade, EquityPoint, WalkForwardConfig, WalkForwardResult, WalkForwardWindow } from '../types';
+import { parameterSets, runOptimization, runParameterSet } from './optimizer';
+import { DEFAULT_SIZING } from './sizing';
+import { computeStatistics } from './statistics';
+
+/**
+ * Runs a walk-forward validation synchronously. Used by the worker; call
+ * `startWalkForward` from the UI.
+ *
+ * @param params - Base backtest; its range is the period split into windows
+ * @param config - Window lengths and the sweep run on each in-sample window
+ * @param onProgress - Called after each backtest with the number done and the total
+ * @returns Per-window results, stitched out-of-sample equity and the robustness score
+ */
+export function runWalkForward(
+  params: BacktestParams,
+  config: WalkForwardConfig,
+  onProgress?: (done: number, total: number) => void
+): WalkForwardResult {
+  const { inSampleBars, outOfSampleBars, anchored, optimization } = config;
+  const range = params.range;
+  const candles = range
+    ? params.prices.filter(c => c.time >= range.start && c.time <= range.end)
+    : params.prices;
+
+  if (!(inSampleBars > 0 && outOfSampleBars > 0) || candles.length < inSampleBars + 1) {
+    throw new Error(`Walk-forward needs more than ${inSampleBars} candles in the backtest period`);
+  }
+
+  const sizing = params.sizing ?? DEFAULT_SIZING;
+  const windowCount = Math.ceil((candles.length - inSampleBars) / outOfSampleBars);
+  const setsPerWindow = parameterSets(optimization).length;
+  const periodTarget = optimization.period?.target ?? null;
+
+  const windows: WalkForwardWindow[] = [];
+  const trades: BacktestTrade[] = [];
+  let equity = sizing.startingBalance;
+  const equityCurve: EquityPoint[] = [{ time: candles[inSampleBars].time, equity }];
+  const returnsPerBar: { inSample: number; outOfSample: number }[] = [];
+
+  for (let w = 0; w < windowCount; w++) {
+    const inSampleStart = anchored ? 0 : w * outOfSampleBars;
+    const inSampleEnd = inSampleBars + w * outOfSampleBars - 1;
+    const outOfSampleEnd = Math.min(inSampleEnd + outOfSampleBars, candles.length - 1);
+    const inSample = { start: candles[inSampleStart].time, end: candles[inSampleEnd].time };
+    const outOfSample = { start: candles[inSampleEnd + 1].time, end: candles[outOfSampleEnd].time };
+
+    // Optimise on the in-sample window; the full history still warms up the indicators
+    const ranked = runOptimization({ ...params, range: inSample }, optimization, (done) =>
+      onProgress?.(w * setsPerWindow + done, windowCount * setsPerWindow));
+    const best = ranked.length > 0 && ranked[0].score !== null ? ranked[0] : null;
+
+    // Trade the winner out-of-sample, or stand aside when nothing qualified
+    let inSampleReturn = 0;
+    let outOfSampleReturn = 0;
+    let outOfSampleTrades = 0;
+    if (best) {
+      inSampleReturn = best.netProfit / sizing.startingBalance * 100;
+      const result = runParameterSet(
+        { ...params, range: outOfSample, sizing: { ...sizing, startingBalance: equity } },
+        { tp: best.takeProfitPercent, sl: best.stopLossPercent, period: best.period },
+        periodTarget
+      );
+      const finalEquity = result.finalEquity ?? equity;
+      outOfSampleReturn = equity > 0 ? (finalEquity / equity - 1) * 100 : 0;
+      outOfSampleTrades = result.trades.length;
+      trades.push(...result.trades);
+      equityCurve.push(...(result.equityCurve ?? []).slice(1));
+      equity = finalEquity;
+
+      returnsPerBar.push({
+        inSample: inSampleReturn / (inSampleEnd - inSampleStart + 1),
+        outOfSample: outOfSampleReturn / (outOfSampleEnd - inSampleEnd)
+      });
+    }
+
+    windows.push({ inSample, outOfSample, best, inSampleReturn, outOfSampleReturn, outOfSampleTrades });
+  }
+
+  const mean = (values: number[]) => values.length ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+  const inSamplePerBar = mean(returnsPerBar.map(r => r.inSample));
+  const efficiency = inSamplePerBar > 0 ? mean(returnsPerBar.map(r => r.outOfSample)) / inSamplePerBar : 0;
+  const profitableWindows = windows.filter(w => w.outOfSampleReturn > 0).length / windows.length;
+
+  return {
+    windows,
+    trades,
+    statistics: computeStatistics(trades),
+    startingBalance: sizing.startingBalance,
+    finalEquity: equity,
+    equityCurve,
+    efficiency,
+    profitableWindows,
+    robustnessScore: Math.round(50 * Math.max(0, Math.min(1, efficiency)) + 50 * profitableWindows)
+  };
+}
@@ -0,0 +1,85 @@
+/**
+ * workerClient.ts
+ *
+ * Main-thread side of the Web Worker protocols.
+ *
+ * - `runInWorker` posts one request to a fresh worker and settles with its final message.
+ * - `progress` messages are forwarded to a callback, `error` messages reject the promise.
+ * - Cancelling terminates the worker; the promise then rejects with "Cancelled".
+ *
+ * Each worker handles a single request and is discarded, so a cancelled or
+ * crashed run never leaves state behind for the next one.
+ */
+
+import { WorkerProgress } from '../types';
+
+/**
+ * A request running in a worker: its result once done, and a way to stop it.
+ */
+export interface WorkerTask<T> {
+  results: Promise<T>;
+  cancel: () => void;
+}
+
+/**
+ * Sends one request to a new worker and waits for its final message.
+ *
+ * @param createWorker - Creates the worker, e.g. `() => new Worker(new URL(...), { type: 'module' })`
+ * @param request - The message to post
+ * @param onProgress - Called with each progress message
+ * @param pickResult - Extracts the result from the final message, `undefined` if it isn't the expected one
+ */
+export function runInWorker<Request, Response extends { type: string }, T>(
+  createWorker: () => Worker,
+  request: Request,
+  onProgress: (done: number, total: number) => void,
+  pickResult: (message: Response) => T | undefined
+): WorkerTask<T> {
+  const worker = createWorker();
+  let rejectRun: (error: Error) => void = () => {};
+
+  const results = new Promise<T>((resolve, reject) => {
+    rejectRun = reject;
+    worker.onmessage = (event: MessageEvent<Response | WorkerProgress>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        const { done, total } = message as WorkerProgress;
+        onProgress(done, total);
+        return;
+      }
+      worker.terminate();
+      const result = pickResult(message as Response);
+      if (result !== undefined) resolve(result);
+      else reject(new Error('message' in message && typeof message.message === 'string' ? message.message : `Unexpected worker response: ${message.type}`));
+    };
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || 'Worker failed'));
+    };
+  });
+
+  worker.postMessage(request);
+
+  return {
+    results,
+    cancel: () => {
+      worker.terminate();
+      rejectRun(new Error('Cancelled'));
+    }
+  };
+}
+
+/**
+ * Creates a progress callback for use inside a worker that posts about one message per percent.
+ *
+ * @param post - Posts a progress message to the main thread
+ */
+export function throttledProgress(post: (message: WorkerProgress) => void): (done: number, total: number) => void {
+  let lastReported = 0;
+  return (done, total) => {
+    if (done === total || done - lastReported >= total / 100) {
+      lastReported = done;
+      post({ type: 'progress', done, total });
+    }
+  };
+}
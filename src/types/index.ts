@@ -4,6 +4,11 @@ export interface CoinData {
   total_volumes: [number, number][];
 }
 
+/**
+ * A row from CoinGecko's OHLC endpoint: [closeTime (ms), open, high, low, close].
+ */
+export type CoinOHLCRow = [number, number, number, number, number];
+
 export interface OHLCData {
   time: number;
   open: number;
@@ -13,6 +18,44 @@ export interface OHLCData {
   volume?: number;
 }
 
+/**
+ * Identifiers of the market-data providers the app can pull candles from.
+ */
+export type MarketDataProviderId = 'coingecko' | 'binance' | 'local';
+
+/**
+ * Candle durations supported across data, chart and backtest.
+ */
+export type Timeframe = '1h' | '4h' | '1d' | '1w';
+
+/**
+ * A span of time, both ends inclusive, as Unix timestamps in seconds.
+ */
+export interface DateRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Describes which candles a provider should return.
+ */
+export interface MarketDataRequest {
+  coinId: string;       // Coin identifier (e.g., 'bitcoin')
+  range: DateRange;     // Window to cover
+  timeframe: Timeframe; // Duration of each candle
+}
+
+/**
+ * A source of OHLC candles. Providers hide the upstream response format so
+ * `getCoinData` only ever deals with `OHLCData`.
+ */
+export interface MarketDataProvider {
+  id: MarketDataProviderId;
+  name: string;
+  remote: boolean; // Remote providers are cached in localStorage, local ones are read directly
+  fetchCandles: (request: MarketDataRequest) => Promise<OHLCData[]>;
+}
+
 export interface TradeParams {
   coin: string;
   prices?: number[];
@@ -22,6 +65,20 @@ export interface TradeParams {
   direction?: 'long' | 'short';
 }
 
+/**
+ * Inputs of `analyzeTrade`: closes up to now and the planned trade.
+ */
+export interface TradeAnalysisInput {
+  prices: number[];
+  currentPrice: number;
+  takeProfit: number;
+  stopLoss: number;
+  direction?: 'long' | 'short';
+  timeframe?: Timeframe;
+  candles?: OHLCData[];       // Full candles, needed for the confirmation studies
+  studies?: StudySelection[]; // The chart's studies: set the EMA/RSI/Bollinger periods and which studies are scored
+}
+
 export interface TradeMetrics {
   maxFavorableExcursion: number;
   maxAdverseExcursion: number;
@@ -29,15 +86,52 @@ export interface TradeMetrics {
   riskRewardRatio: number;
 }
 
+/**
+ * Why a backtested trade was closed:
+ * - `take_profit` / `stop_loss`: the fixed levels.
+ * - `trailing_stop`: the strategy's trailing stop, once it was tighter than the stop loss.
+ * - `break_even`: the stop moved to the entry after the break-even gain was reached.
+ * - `partial_take_profit`: the last partial take-profit closed what was left.
+ * - `exit_signal`: one of the strategy's exit rules fired.
+ * - `time_exit`: the maximum holding period ran out.
+ * - `end_of_data`: still open on the last candle, closed at its close.
+ */
+export type TradeExitReason =
+  | 'take_profit'
+  | 'stop_loss'
+  | 'trailing_stop'
+  | 'break_even'
+  | 'partial_take_profit'
+  | 'exit_signal'
+  | 'time_exit'
+  | 'end_of_data';
+
+/**
+ * Part of a position closed before the trade's final exit.
+ */
+export interface PartialExit {
+  time: number;
+  price: number;
+  fraction: number; // % of the original position closed
+}
+
 export interface BacktestTrade {
   entry_time: number;
   exit_time: number;
   entry_price: number;
-  exit_price: number;
+  exit_price: number;  // Average fill price across partial and final exits
   high_price: number;  // <-- Add this
   low_price: number;   // <-- Add this
-  result: 'take_profit' | 'stop_loss';
-  profit_loss: number;
+  result: TradeExitReason;
+  fill_resolution?: FillResolution; // How the exit bar was resolved when it reached both TP and SL
+  partial_exits?: PartialExit[];    // Partial take-profits filled before the final exit
+  gross_profit_loss?: number; // % return from prices alone, before costs
+  profit_loss: number;        // % return after costs
+  costs?: TradeCosts;         // Breakdown of the costs deducted from the gross return
+  position_size?: number;     // Units of the coin bought or sold
+  notional?: number;          // Position value at entry, in $
+  pnl?: number;               // Net profit or loss in $
+  equity_after?: number;      // Account equity once this trade closed, in $
   metrics: TradeMetrics;
   stopLoss: number;
   takeProfit: number;
@@ -59,6 +153,299 @@ export interface BacktestStatistics {
   average_risk_reward?: number;
   max_favorable_excursion?: number;
   max_adverse_excursion?: number;
+  sharpe_ratio: number;          // Mean trade return over its standard deviation
+  sortino_ratio: number;         // Mean trade return over its downside deviation
+  max_drawdown: number;          // Largest peak-to-trough drop of compounded equity, in %
+  expectancy: number;            // Expected % return per trade
+  longest_losing_streak: number; // Most consecutive losing trades
+}
+
+/**
+ * How the form's TP/SL levels are applied to historical entries:
+ * - `percent`: same percentage distance from each entry as from the form's entry.
+ * - `atr`: same distance in ATR multiples, measured with the ATR at each entry.
+ * - `absolute`: the form's prices as-is.
+ */
+export type LevelMode = 'percent' | 'atr' | 'absolute';
+
+/**
+ * How a bar that reaches both TP and SL is filled:
+ * - `pessimistic`: the stop loss is assumed hit first.
+ * - `optimistic`: the take profit is assumed hit first.
+ * - `open_proximity`: the level closer to the bar's open is assumed hit first.
+ * - `lower_timeframe`: the bar is replayed on lower-timeframe candles when available.
+ */
+export type FillPolicy = 'pessimistic' | 'optimistic' | 'open_proximity' | 'lower_timeframe';
+
+/**
+ * What decided a trade's exit: `unambiguous` when only one level was reached,
+ * otherwise the fill policy that actually resolved the bar.
+ */
+export type FillResolution = 'unambiguous' | 'pessimistic' | 'optimistic' | 'open_proximity' | 'lower_timeframe';
+
+/**
+ * Slippage applied on each fill: a fixed number of basis points, or a fraction
+ * of the ATR at the time of the fill.
+ */
+export type SlippageModel =
+  | { mode: 'fixed'; bps: number }
+  | { mode: 'volatility'; atrFraction: number };
+
+/**
+ * Trading costs applied by the backtester.
+ */
+export interface CostModel {
+  entryFeeBps: number;       // Fee on the entry fill, in basis points of notional
+  exitFeeBps: number;        // Fee on the exit fill, in basis points of notional
+  spreadBps: number;         // Full bid/ask spread, half of it is paid on each fill
+  slippage: SlippageModel;
+  fundingRatePerBar: number; // Perpetual funding in % per bar held; longs pay when positive, shorts receive
+}
+
+/**
+ * Costs deducted from one trade, each in % of notional.
+ */
+export interface TradeCosts {
+  fees: number;
+  spread: number;
+  slippage: number;
+  funding: number;
+  total: number;
+}
+
+/**
+ * How much to put into each trade:
+ * - `fixed_notional`: the same $ amount every trade.
+ * - `fixed_fractional`: size so that hitting the stop loses `riskPercent` of equity.
+ * - `kelly`: a fraction of the Kelly bet estimated from the trades closed so far.
+ */
+export type SizingMode = 'fixed_notional' | 'fixed_fractional' | 'kelly';
+
+/**
+ * Account and position sizing options.
+ */
+export interface PositionSizing {
+  startingBalance: number; // Account equity at the start, in $
+  mode: SizingMode;
+  notional: number;        // $ per trade for `fixed_notional`
+  riskPercent: number;     // % of equity risked per trade for `fixed_fractional` (and Kelly warm-up)
+  kellyFraction: number;   // Share of the full Kelly bet for `kelly`, e.g. 0.5 for half Kelly
+  maxLeverage: number;     // Cap on the notional of all open positions, as a multiple of equity
+}
+
+/**
+ * A point on the simulated account equity curve.
+ */
+export interface EquityPoint {
+  time: number;
+  equity: number;
+}
+
+/**
+ * Series a strategy condition can compare: raw prices or an indicator from the catalogue.
+ */
+export type IndicatorId =
+  | 'close' | 'open' | 'high' | 'low'
+  | 'ema' | 'sma' | 'wma' | 'vwap'
+  | 'rsi' | 'atr' | 'obv'
+  | 'volume' | 'volume_sma' | 'relative_volume'
+  | 'bb_upper' | 'bb_middle' | 'bb_lower'
+  | 'macd' | 'macd_signal' | 'macd_histogram'
+  | 'stoch_k' | 'stoch_d'
+  | 'adx' | 'plus_di' | 'minus_di'
+  | 'ichimoku_conversion' | 'ichimoku_base' | 'ichimoku_span_a' | 'ichimoku_span_b'
+  | 'supertrend';
+
+/**
+ * A numeric input of a catalogue indicator, e.g. an EMA's period.
+ */
+export interface IndicatorParamSpec {
+  name: string;
+  defaultValue: number;
+  min: number;
+  max: number;
+  integer: boolean;
+}
+
+/**
+ * An entry of the indicator catalogue. `compute` returns one value per candle,
+ * `NaN` while the indicator is still warming up.
+ */
+export interface IndicatorSpec {
+  id: IndicatorId;
+  label: string;
+  params: IndicatorParamSpec[];
+  compute: (candles: OHLCData[], params: number[]) => number[];
+}
+
+/**
+ * Indicators that can be drawn on the chart and used as confirmations by `analyzeTrade`.
+ */
+export type StudyId =
+  | 'ema' | 'sma' | 'wma' | 'bollinger' | 'vwap' | 'ichimoku' | 'supertrend'
+  | 'rsi' | 'macd' | 'stochastic' | 'adx' | 'atr' | 'obv' | 'volume';
+
+/**
+ * A study with its parameters, in the order of its `IndicatorStudy.params`.
+ */
+export interface StudySelection {
+  id: StudyId;
+  params: number[];
+}
+
+/**
+ * One drawn line of a study, aligned with the candles (`NaN` values are not drawn).
+ */
+export interface StudyLine {
+  name: string;
+  values: number[];
+  color: string;
+  histogram?: boolean; // Drawn as bars around zero instead of a line
+  barColors?: string[]; // Colour of each histogram bar; green above zero and red below by default
+}
+
+/**
+ * How much a study supports the planned trade: 0 (against) to 100 (for), with the reason.
+ */
+export interface StudyScore {
+  score: number;
+  explanation: string;
+}
+
+/**
+ * A chart study. `price` studies are drawn over the candles, `separate` ones in their own pane.
+ * Studies with `score` also feed `analyzeTrade`.
+ */
+export interface IndicatorStudy {
+  id: StudyId;
+  label: string;
+  pane: 'price' | 'separate';
+  params: IndicatorParamSpec[];
+  levels?: number[]; // Reference levels drawn in a separate pane, e.g. RSI 30/70
+  lines: (candles: OHLCData[], params: number[]) => StudyLine[];
+  score?: (candles: OHLCData[], params: number[], direction: 'long' | 'short') => StudyScore | null;
+}
+
+/**
+ * A study's verdict on the planned trade, as reported by `analyzeTrade`.
+ */
+export interface IndicatorConfirmation extends StudyScore {
+  id: StudyId;
+  label: string;
+}
+
+/**
+ * Annotation tools of the price chart.
+ */
+export type DrawingTool = 'trendline' | 'horizontal' | 'rectangle' | 'fibonacci';
+
+export interface ChartPoint {
+  time: number;  // Candle time, in seconds
+  price: number;
+}
+
+/**
+ * An annotation on the price chart. Horizontal rays have one point, every other tool two:
+ * the ends of a trendline, opposite corners of a rectangle, or the start and end of the
+ * swing a Fibonacci retracement measures.
+ */
+export interface ChartDrawing {
+  id: string;
+  tool: DrawingTool;
+  points: ChartPoint[];
+}
+
+/**
+ * A price marked on the chart, offered as a take-profit or stop-loss.
+ */
+export interface PriceLevel {
+  label: string;
+  price: number;
+}
+
+/**
+ * One side of a strategy condition: a catalogue indicator with its parameters, or a constant.
+ */
+export type RuleOperand =
+  | { kind: 'indicator'; id: IndicatorId; params: number[] }
+  | { kind: 'value'; value: number };
+
+export type ConditionOperator = 'above' | 'below' | 'crosses_above' | 'crosses_below';
+
+/**
+ * A condition a strategy checks on the close of each bar:
+ * - `every_bar`: always true.
+ * - `ema_cross`: the fast EMA crossed above or below the slow EMA on this bar.
+ * - `rsi`: RSI is above or below a threshold.
+ * - `bollinger_touch`: the bar's range touched a Bollinger band.
+ * - `analysis_score`: `analyzeTrade` scores the setup at `minScore` or better,
+ *   using the last `lookback` closes.
+ * - `condition`: compares two operands, e.g. "RSI(14) below 30" or "close above EMA(50)".
+ */
+export type StrategyRule =
+  | { type: 'every_bar' }
+  | { type: 'ema_cross'; fastPeriod: number; slowPeriod: number; cross: 'above' | 'below' }
+  | { type: 'rsi'; period: number; operator: 'above' | 'below'; threshold: number }
+  | { type: 'bollinger_touch'; period: number; stdDev: number; band: 'upper' | 'middle' | 'lower' }
+  | { type: 'analysis_score'; minScore: number; lookback: number }
+  | { type: 'condition'; left: RuleOperand; operator: ConditionOperator; right: RuleOperand };
+
+/**
+ * Closes `fraction` % of the original position once it is up `gain` %.
+ */
+export interface PartialTakeProfit {
+  gain: number;
+  fraction: number;
+}
+
+/**
+ * Exits a strategy adds on top of TP/SL and its exit rules. `null` turns one off.
+ */
+export interface StrategyExits {
+  // Stop trailing the best price by `distance` %, or by `distance` ATRs
+  trailingStop: { mode: 'percent' | 'atr'; distance: number } | null;
+  breakEvenAt: number | null;    // Move the stop to the entry once the trade is up this many %
+  maxHoldingBars: number | null; // Close at the end of this many bars after the entry bar
+  partialTakeProfits: PartialTakeProfit[];
+}
+
+/**
+ * When the backtester opens and closes positions. Entries fire when all entry
+ * rules hold, exits when any exit rule holds. Plain data, so it can be saved.
+ */
+export interface Strategy {
+  name: string;
+  entryRules: StrategyRule[];
+  exitRules: StrategyRule[];
+  exits: StrategyExits;
+  pyramiding: boolean;      // Allow new entries while a position is open
+  maxOpenPositions: number; // Cap on concurrent positions when pyramiding
+}
+
+/**
+ * Backtest options chosen in the settings panel.
+ */
+export interface BacktestSettings {
+  levelMode: LevelMode;
+  atrPeriod: number; // ATR period used by the `atr` level mode
+  fillPolicy: FillPolicy;
+  costModel: CostModel;
+  sizing: PositionSizing;
+  strategy: Strategy;
+}
+
+/**
+ * Inputs to `runBacktest`.
+ */
+export interface BacktestParams extends Partial<BacktestSettings> {
+  prices: OHLCData[];  // Candles of the period, plus any warm-up before it
+  entryPrice: number;  // Entry the TP/SL levels were set against
+  takeProfit: number;
+  stopLoss: number;
+  direction: 'long' | 'short';
+  timeframe?: Timeframe;
+  range?: DateRange;   // Period traded; candles before it only warm up indicators
+  intrabarPrices?: OHLCData[]; // Lower-timeframe candles for the `lower_timeframe` fill policy
 }
 
 export interface BacktestResult {
@@ -66,6 +453,11 @@ export interface BacktestResult {
   trades: BacktestTrade[];
   statistics: BacktestStatistics | null;
   message?: string;
+  period?: DateRange;    // First and last candle the backtest actually covered
+  timeframe?: Timeframe; // Timeframe of the candles it ran on
+  startingBalance?: number;    // Account equity at the start, in $
+  finalEquity?: number;        // Account equity after the last trade, in $
+  equityCurve?: EquityPoint[]; // Equity after each closed trade, starting at the first candle
 }
 
 export interface TradeAnalysis {
@@ -79,4 +471,233 @@ export interface TradeAnalysis {
     momentum: string;
     volatility: string;
   };
-}
\ No newline at end of file
+  confirmations?: IndicatorConfirmation[]; // Verdicts of the selected studies, when candles were given
+  confirmationScore?: number;              // Mean of the confirmation scores
+}
+/**
+ * What the optimiser ranks parameter sets by.
+ */
+export type OptimizationObjective = 'net_profit' | 'sharpe' | 'profit_factor';
+
+/**
+ * Values swept by the optimiser: `min` to `max` (inclusive) in steps of `step`.
+ */
+export interface ParameterRange {
+  min: number;
+  max: number;
+  step: number;
+}
+
+/**
+ * A period inside a strategy rule the optimiser can vary, e.g. the RSI period of entry rule 1.
+ */
+export interface PeriodTarget {
+  list: 'entryRules' | 'exitRules';
+  ruleIndex: number;
+  field: string; // Rule field, or `left.<n>` / `right.<n>` for a condition operand parameter
+  label: string;
+}
+
+export interface OptimizationConfig {
+  takeProfit: ParameterRange; // TP distance from the entry, in %
+  stopLoss: ParameterRange;   // SL distance from the entry, in %
+  period: { target: PeriodTarget; range: ParameterRange } | null;
+  method: 'grid' | 'random';
+  samples: number;            // Parameter sets tried by the random search
+  objective: OptimizationObjective;
+  minTrades: number;          // Parameter sets with fewer trades aren't ranked
+}
+
+/**
+ * The outcome of one parameter set.
+ */
+export interface OptimizationResult {
+  takeProfitPercent: number;
+  stopLossPercent: number;
+  period: number | null;
+  score: number | null; // Objective value, `null` when the set had too few trades
+  totalTrades: number;
+  netProfit: number;    // $ gained or lost on the starting balance
+  statistics: BacktestStatistics | null;
+}
+
+/**
+ * Walk-forward validation: optimise on `inSampleBars`, then trade the best
+ * parameters on the next `outOfSampleBars`, and roll forward by the out-of-sample length.
+ */
+export interface WalkForwardConfig {
+  inSampleBars: number;
+  outOfSampleBars: number;
+  anchored: boolean; // Keep every in-sample window starting at the first bar instead of rolling
+  optimization: OptimizationConfig;
+}
+
+/**
+ * One in-sample / out-of-sample step of a walk-forward run.
+ */
+export interface WalkForwardWindow {
+  inSample: DateRange;
+  outOfSample: DateRange;
+  best: OptimizationResult | null; // Best in-sample parameters, null when none had enough trades
+  inSampleReturn: number;          // % return of the best parameters in-sample
+  outOfSampleReturn: number;       // % return of the same parameters out-of-sample
+  outOfSampleTrades: number;
+}
+
+export interface WalkForwardResult {
+  windows: WalkForwardWindow[];
+  trades: BacktestTrade[];               // Out-of-sample trades of every window
+  statistics: BacktestStatistics | null; // Statistics of the out-of-sample trades
+  startingBalance: number;
+  finalEquity: number;
+  equityCurve: EquityPoint[];            // Out-of-sample equity, stitched across windows
+  efficiency: number;                    // Out-of-sample over in-sample return per bar
+  profitableWindows: number;             // Share of out-of-sample windows that made money, 0 to 1
+  robustnessScore: number;               // 0 to 100, see `walkForward.ts`
+}
+
+/**
+ * Monte Carlo resampling of a backtest's trades.
+ * - shuffle: every run replays the same trades in a random order
+ * - bootstrap: every run draws as many trades as the backtest had, with replacement
+ */
+export interface MonteCarloConfig {
+  runs: number;
+  method: 'shuffle' | 'bootstrap';
+  ruinDrawdown: number; // Drawdown in % that counts as ruin
+}
+
+/**
+ * Inputs to `runMonteCarlo` when it runs in a worker.
+ */
+export interface MonteCarloInput {
+  backtest: BacktestResult;
+  config: MonteCarloConfig;
+  seed: number; // Seed of the random samples, a new one draws a fresh set of runs
+}
+
+/**
+ * 5th, 25th, 50th, 75th and 95th percentiles of a simulated quantity.
+ */
+export interface PercentileBands {
+  p5: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p95: number;
+}
+
+export interface MonteCarloResult {
+  runs: number;
+  startingBalance: number;
+  equityBands: (PercentileBands & { trade: number })[]; // Equity after the given number of trades
+  actualEquity: number[];                                // Equity after each trade in the backtest's order
+  finalEquity: PercentileBands;
+  maxDrawdown: PercentileBands;                          // In %
+  riskOfRuin: number;                                    // Share of runs that reached `ruinDrawdown`, 0 to 1
+}
+
+/**
+ * How a portfolio backtest sizes each new position from the shared equity.
+ * - equal_slots: realised equity divided by the max number of concurrent positions
+ * - risk: `riskPercent` of realised equity at risk to the trade's stop loss
+ * - weights: a fixed % of realised equity per asset (`weights`, keyed by coin id)
+ * Every position is also capped at the cash not already tied up in open positions.
+ */
+export type AllocationMode = 'equal_slots' | 'risk' | 'weights';
+
+export interface PortfolioConfig {
+  coins: string[];
+  allocation: AllocationMode;
+  riskPercent: number;
+  weights: Record<string, number>;
+  maxConcurrentPositions: number;
+}
+
+/**
+ * Candles of one coin in a portfolio backtest.
+ */
+export interface PortfolioAsset {
+  coin: string;
+  prices: OHLCData[];
+  intrabarPrices?: OHLCData[];
+}
+
+/**
+ * A portfolio trade, tagged with the coin it was taken on.
+ */
+export interface PortfolioTrade extends BacktestTrade {
+  coin: string;
+}
+
+/**
+ * One coin's share of a portfolio backtest.
+ */
+export interface PortfolioAssetResult {
+  coin: string;
+  trades: number;        // Trades taken
+  skippedTrades: number; // Signals skipped for lack of a free position slot or cash
+  winRate: number;
+  pnl: number;           // Net $ P/L
+  contribution: number;  // % of the portfolio's starting balance this coin added or lost
+  message?: string;      // Why the coin's backtest failed, when it did
+}
+
+export interface PortfolioResult {
+  success: boolean;
+  message?: string;
+  trades: PortfolioTrade[];
+  statistics: BacktestStatistics | null;
+  assets: PortfolioAssetResult[];
+  period?: DateRange;
+  startingBalance: number;
+  finalEquity: number;
+  equityCurve: EquityPoint[];
+  maxConcurrentUsed: number; // Most positions that were open at once
+}
+
+/**
+ * Progress message shared by every worker protocol.
+ */
+export interface WorkerProgress {
+  type: 'progress';
+  done: number;
+  total: number;
+}
+
+/**
+ * Messages sent to the analysis worker.
+ */
+export type AnalysisRequest =
+  | { type: 'analyze'; input: TradeAnalysisInput }
+  | { type: 'backtest'; params: BacktestParams }
+  | { type: 'portfolio'; params: BacktestParams; assets: PortfolioAsset[]; config: PortfolioConfig }
+  | { type: 'monte_carlo'; input: MonteCarloInput };
+
+/**
+ * Messages posted back by the analysis worker.
+ */
+export type AnalysisResponse =
+  | WorkerProgress
+  | { type: 'analysis_done'; result: TradeAnalysis }
+  | { type: 'backtest_done'; result: BacktestResult }
+  | { type: 'portfolio_done'; result: PortfolioResult }
+  | { type: 'monte_carlo_done'; result: MonteCarloResult | null }
+  | { type: 'error'; message: string };
+
+/**
+ * Messages sent to the optimiser worker.
+ * `params` is the base backtest; its TP/SL and the target period are replaced.
+ */
+export type OptimizerRequest =
+  | { type: 'run'; params: BacktestParams; config: OptimizationConfig }
+  | { type: 'walk_forward'; params: BacktestParams; config: WalkForwardConfig };
+
+/**
+ * Messages posted back by the optimiser worker.
+ */
+export type OptimizerResponse =
+  | WorkerProgress
+  | { type: 'done'; results: OptimizationResult[] }
+  | { type: 'walk_forward_done'; result: WalkForwardResult }
+  | { type: 'error'; message: string };
@@ -0,0 +1,39 @@
+/**
+ * analysis.worker.ts
+ *
+ * Web Worker that runs trade analyses, backtests and Monte Carlo simulations off the main thread.
+ *
+ * - Receives an `AnalysisRequest`, runs `analyzeTrade`, `runBacktest`, `runPortfolioBacktest`
+ *   or `runMonteCarlo` and posts `AnalysisResponse`s.
+ * - Backtest progress is reported per bar and Monte Carlo progress per run, throttled to
+ *   about one message per percent.
+ * - Cancellation is done by terminating the worker (see `startBacktest`).
+ */
+
+import { AnalysisRequest, AnalysisResponse } from '../types';
+import { runBacktest } from '../services/backtesting';
+import { analyzeTrade } from '../services/technicalAnalysis';
+import { runMonteCarlo } from '../services/monteCarlo';
+import { runPortfolioBacktest } from '../services/portfolio';
+import { throttledProgress } from '../services/workerClient';
+
+const post = (message: AnalysisResponse) => self.postMessage(message);
+
+self.onmessage = (event: MessageEvent<AnalysisRequest>) => {
+  const request = event.data;
+
+  try {
+    if (request.type === 'analyze') {
+      post({ type: 'analysis_done', result: analyzeTrade(request.input) });
+    } else if (request.type === 'portfolio') {
+      post({ type: 'portfolio_done', result: runPortfolioBacktest(request.params, request.assets, request.config, throttledProgress(post)) });
+    } else if (request.type === 'monte_carlo') {
+      const { backtest, config, seed } = request.input;
+      post({ type: 'monte_carlo_done', result: runMonteCarlo(backtest, config, seed, throttledProgress(post)) });
+    } else {
+      post({ type: 'backtest_done', result: runBacktest(request.params, throttledProgress(post)) });
+    }
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : 'Unknown error' });
+  }
+};
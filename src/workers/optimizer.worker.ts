@@ -0,0 +1,32 @@
+/**
+ * optimizer.worker.ts
+ *
+ * Web Worker that runs optimisation sweeps off the main thread.
+ *
+ * - Receives an `OptimizerRequest`, runs `runOptimization` or `runWalkForward`
+ *   and posts `OptimizerResponse`s.
+ * - Progress is throttled to about one message per percent.
+ * - Cancellation is done by terminating the worker (see `startOptimization`).
+ */
+
+import { OptimizerRequest, OptimizerResponse } from '../types';
+import { runOptimization } from '../services/optimizer';
+import { runWalkForward } from '../services/walkForward';
+import { throttledProgress } from '../services/workerClient';
+
+const post = (message: OptimizerResponse) => self.postMessage(message);
+
+self.onmessage = (event: MessageEvent<OptimizerRequest>) => {
+  const request = event.data;
+  const onProgress = throttledProgress(post);
+
+  try {
+    if (request.type === 'walk_forward') {
+      post({ type: 'walk_forward_done', result: runWalkForward(request.params, request.config, onProgress) });
+    } else {
+      post({ type: 'done', results: runOptimization(request.params, request.config, onProgress) });
+    }
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : 'Unknown error' });
+  }
+};